@@ -0,0 +1,25 @@
+/**
+ * Paging through the selected subnet's sub-prefixes
+ */
+
+import { describe, it, expect } from 'vitest';
+import { render, fireEvent, screen } from '@testing-library/react';
+import { SubnetTreeCalculator } from './SubnetTreeCalculator';
+
+describe('Browse subnets', () => {
+  it('should page through /64s of a /48', () => {
+    const { container } = render(<SubnetTreeCalculator initialCidr="2001:db8::/48" />);
+    const rows = () => Array.from(container.querySelectorAll('.stc__leafRow')).map((r) => r.textContent);
+
+    fireEvent.change(screen.getByDisplayValue('56'), { target: { value: '64' } });
+    expect(rows()).toContain('2001:db8::/64');
+    expect(screen.getByText(/1–8 of 65,536/)).toBeTruthy();
+
+    fireEvent.click(screen.getByText('▶'));
+    expect(rows()).toContain('2001:db8:0:8::/64');
+
+    fireEvent.click(screen.getByText('Last'));
+    expect(rows()).toContain('2001:db8:0:ffff::/64');
+    expect(screen.getByText(/65,529–65,536 of 65,536/)).toBeTruthy();
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * Free space left in the selected subnet by existing allocations
+ */
+
+import { describe, it, expect } from 'vitest';
+import { render, fireEvent, screen } from '@testing-library/react';
+import { SubnetTreeCalculator } from './SubnetTreeCalculator';
+
+describe('Free space', () => {
+  it('should list the space the preloaded allocations leave free', () => {
+    const { container } = render(
+      <SubnetTreeCalculator initialCidr="10.0.0.0/16" usedPrefixes={['10.0.0.0/17', '10.0.192.0/18']} />
+    );
+    const rows = Array.from(container.querySelectorAll('.stc__leafRow')).map((r) => r.textContent);
+
+    expect(rows).toContain('10.0.128.0/1816,384 addrs');
+    expect(screen.getByText(/16,384 of 65,536 addresses free in 10\.0\.0\.0\/16 • largest 10\.0\.128\.0\/18/)).toBeTruthy();
+  });
+
+  it('should find the first free block of a length', () => {
+    render(<SubnetTreeCalculator initialCidr="10.0.0.0/24" />);
+
+    fireEvent.change(screen.getByPlaceholderText('One CIDR or range per line'), {
+      target: { value: '10.0.0.0/26\n10.0.0.128/26' },
+    });
+    fireEvent.change(screen.getByPlaceholderText('25'), { target: { value: '/26' } });
+    expect(screen.getByText('First free /26: 10.0.0.64/26')).toBeTruthy();
+
+    fireEvent.change(screen.getByPlaceholderText('25'), { target: { value: '25' } });
+    expect(screen.getByText('No free /25 left')).toBeTruthy();
+  });
+
+  it('should accept netmask pairs and spaced ranges, one per line', () => {
+    render(<SubnetTreeCalculator initialCidr="10.0.0.0/22" />);
+
+    fireEvent.change(screen.getByPlaceholderText('One CIDR or range per line'), {
+      target: { value: '10.0.1.0 255.255.255.0\n 10.0.2.0 - 10.0.2.255 , 10.0.3.0/25' },
+    });
+    expect(document.querySelector('.stc__error')).toBeNull();
+    expect(screen.getByText(/384 of 1,024 addresses free in 10\.0\.0\.0\/22 • largest 10\.0\.0\.0\/24/)).toBeTruthy();
+  });
+
+  it('should leave navigation keys to the used-prefix textarea', () => {
+    render(<SubnetTreeCalculator initialCidr="10.0.3.0/24" />);
+    const textarea = screen.getByPlaceholderText('One CIDR or range per line');
+    const base = screen.getByPlaceholderText(/e\.g\./) as HTMLInputElement;
+
+    for (const key of ['s', 'ArrowRight', 'ArrowLeft']) {
+      expect(fireEvent.keyDown(textarea, { key })).toBe(true);
+    }
+    expect(base.value).toBe('10.0.3.0/24');
+  });
+
+  it('should report unparseable allocations', () => {
+    render(<SubnetTreeCalculator initialCidr="10.0.0.0/24" />);
+
+    fireEvent.change(screen.getByPlaceholderText('One CIDR or range per line'), { target: { value: 'nope' } });
+    expect(document.querySelector('.stc__error')).toBeTruthy();
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Horizontal navigation between same-size blocks and siblings
+ */
+
+import { describe, it, expect } from 'vitest';
+import { render, fireEvent, screen } from '@testing-library/react';
+import { SubnetTreeCalculator } from './SubnetTreeCalculator';
+
+describe('Block navigation', () => {
+  it('should re-base the tree on the next and previous block', () => {
+    const { container } = render(<SubnetTreeCalculator initialCidr="10.0.3.0/24" />);
+    const input = screen.getByPlaceholderText(/e\.g\./) as HTMLInputElement;
+
+    fireEvent.click(screen.getByText('Next ▶'));
+    expect(input.value).toBe('10.0.4.0/24');
+
+    fireEvent.keyDown(container.querySelector('.stc')!, { key: 'ArrowLeft' });
+    fireEvent.keyDown(container.querySelector('.stc')!, { key: 'ArrowLeft' });
+    expect(input.value).toBe('10.0.2.0/24');
+
+    fireEvent.keyDown(container.querySelector('.stc')!, { key: 's' });
+    expect(input.value).toBe('10.0.3.0/24');
+  });
+
+  it('should re-base a split root without keeping its subtree', () => {
+    const { container } = render(<SubnetTreeCalculator initialCidr="10.0.0.0/24" />);
+    fireEvent.click(screen.getByText('Split selected'));
+    expect(container.querySelectorAll('g.stc__node')).toHaveLength(3);
+
+    fireEvent.keyDown(container.querySelector('.stc')!, { key: 'ArrowRight' });
+    expect((screen.getByPlaceholderText(/e\.g\./) as HTMLInputElement).value).toBe('10.0.1.0/24');
+    expect(container.querySelectorAll('g.stc__node')).toHaveLength(1);
+    expect(container.querySelector('.stc__sidebar')!.textContent).not.toContain('10.0.0.0/25');
+  });
+
+  it('should move between nodes inside the tree', () => {
+    const { container } = render(<SubnetTreeCalculator initialCidr="10.0.0.0/24" />);
+    fireEvent.click(screen.getByText('Split selected'));
+    fireEvent.click(container.querySelectorAll('g.stc__node')[1]!);
+    const sidebar = () => container.querySelector('.stc__sidebar')!.textContent;
+    expect(sidebar()).toContain('10.0.0.0/25');
+
+    fireEvent.click(screen.getByText('Next ▶'));
+    expect(sidebar()).toContain('10.0.0.128/25');
+
+    fireEvent.click(screen.getByText('Next ▶'));
+    expect(screen.getByText(/10\.0\.1\.0\/25 is not in the tree/)).toBeTruthy();
+
+    fireEvent.click(screen.getByText('Sibling'));
+    expect(sidebar()).toContain('10.0.0.0/25');
+  });
+
+  it('should report leaving the address space', () => {
+    render(<SubnetTreeCalculator initialCidr="255.255.255.0/24" />);
+    fireEvent.click(screen.getByText('Next ▶'));
+    expect(screen.getByText(/leaves the IPv4 address space/)).toBeTruthy();
+  });
+
+  it('should ignore arrow keys while typing in inputs', () => {
+    render(<SubnetTreeCalculator initialCidr="10.0.3.0/24" />);
+    const input = screen.getByPlaceholderText(/e\.g\./) as HTMLInputElement;
+    fireEvent.keyDown(input, { key: 'ArrowRight' });
+    expect(input.value).toBe('10.0.3.0/24');
+  });
+});
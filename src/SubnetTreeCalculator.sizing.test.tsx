@@ -0,0 +1,44 @@
+/**
+ * Sizing panel: candidate prefixes inside the selected subnet, with reservation profiles
+ */
+
+import { describe, it, expect } from 'vitest';
+import { render, fireEvent, screen } from '@testing-library/react';
+import { SubnetTreeCalculator } from './SubnetTreeCalculator';
+import { RESERVATION_PROFILES } from './core/reservations';
+
+describe('Sizing panel', () => {
+  it('should list candidate prefixes within the selected subnet', () => {
+    const { container } = render(<SubnetTreeCalculator initialCidr="10.0.0.0/24" />);
+    fireEvent.change(screen.getByPlaceholderText('50'), { target: { value: '50' } });
+    const rows = Array.from(container.querySelectorAll('.stc__sizingBest, .stc__leafRow')).map((r) => r.textContent);
+    expect(rows[0]).toContain('/26');
+    expect(rows[0]).toContain('21.87% waste');
+    expect(rows.some((r) => r?.startsWith('/24'))).toBe(true);
+  });
+
+  it('should format large host counts by value rather than by prefix size', () => {
+    const { container } = render(<SubnetTreeCalculator initialCidr="2001:db8::/32" />);
+    fireEvent.change(screen.getByPlaceholderText('50'), { target: { value: '10000000000000000' } });
+    const row = Array.from(container.querySelectorAll('.stc__leafRow')).find((r) => r.textContent?.startsWith('/73'));
+    expect(row!.textContent).toContain('36028797018963968 (bigint) usable');
+    expect(row!.textContent).toContain('+26028797018963968 (bigint) headroom');
+    expect(row!.textContent).not.toContain('2^');
+  });
+
+  it('should report host counts that do not fit', () => {
+    render(<SubnetTreeCalculator initialCidr="10.0.0.0/24" />);
+    fireEvent.change(screen.getByPlaceholderText('50'), { target: { value: '300' } });
+    expect(screen.getByText(/300 hosts do not fit in 10\.0\.0\.0\/24/)).toBeTruthy();
+  });
+
+  it('should size and describe subnets with a reservation profile', () => {
+    const { container } = render(<SubnetTreeCalculator initialCidr="10.0.0.0/24" reservationProfile={RESERVATION_PROFILES.aws} />);
+    const sidebar = container.querySelector('.stc__sidebar')!.textContent;
+    expect(sidebar).toContain('Reserved (AWS)');
+    expect(sidebar).toContain('10.0.0.1 VPC router');
+
+    fireEvent.change(screen.getByPlaceholderText('50'), { target: { value: '60' } });
+    expect(container.querySelector('.stc__sizingBest')!.textContent).toContain('/25');
+  });
+});
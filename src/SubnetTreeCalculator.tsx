@@ -1,8 +1,13 @@
 import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import * as d3 from "d3";
-import type { IpVersion } from "./core/types";
-import { formatCidr, parseCidr } from "./core/parser";
-import { binaryWithPrefix, formatCount, subnetMeta } from "./core/calculations";
+import type { CountFormatOptions, IpVersion, NormalisedCidr, PrefixClassification, ReservationProfile } from "./core/types";
+import { formatCidr, parseAny } from "./core/parser";
+import { formatCount, subnetMeta } from "./core/calculations";
+import { bitView } from "./core/bit-view";
+import { adviseSizing } from "./core/sizing";
+import { pageSubPrefixes } from "./core/arithmetic";
+import { findFreeSpace, firstFreeBlock } from "./core/free-space";
+import { getNextBlock, getPreviousBlock, getSibling } from "./core/search";
 import { truncateMiddle, truncateStart } from "./utils/string-utils";
 
 export type SubnetTreeTheme = Partial<{
@@ -36,6 +41,10 @@ export type SubnetTreeTheme = Partial<{
 
   hintBg: string;
   error: string;
+
+  bitNetwork: string;
+  bitPath: string;
+  bitHost: string;
 }>;
 
 export type SubnetTreeCalculatorProps = {
@@ -60,8 +69,22 @@ export type SubnetTreeCalculatorProps = {
   nodeHeight?: number;
   xGap?: number;
   yGap?: number;
+
+  /** Address count formatting: locale, compact notation, IPv6 block units (e.g. { unitPrefix: 64 }). */
+  countFormat?: CountFormatOptions;
+
+  /** Addresses held back in every subnet (e.g. RESERVATION_PROFILES.aws); network/broadcast only when unset. */
+  reservationProfile?: ReservationProfile;
+  /** Existing allocations (CIDRs, ranges...) preloaded into the free-space panel. */
+  usedPrefixes?: string[];
 };
 
+// Sub-prefixes listed per page in the "Browse subnets" panel
+const BROWSE_PAGE_SIZE = 8;
+const PAGE_STEP = BigInt(BROWSE_PAGE_SIZE);
+// Free blocks listed in the "Free space" panel before summarising the rest
+const FREE_SPACE_ROWS = 8;
+
 type SubnetNode = {
   id: string;
   version: IpVersion;
@@ -106,12 +129,32 @@ function useResizeObserver<T extends HTMLElement>() {
   return { ref, size };
 }
 
+function parseBase(input: string): Pick<SubnetNode, "version" | "bits" | "network" | "prefix"> {
+  // Only ranges can expand to several prefixes; the tree needs exactly one root
+  const { cidrs } = parseAny(input);
+  if (cidrs.length !== 1) {
+    throw new Error(`Range does not align to a single prefix (covers ${cidrs.length} prefixes)`);
+  }
+  return cidrs[0]!;
+}
+
 function findNodeById(node: SubnetNode, id: string): SubnetNode | null {
   if (node.id === id) return node;
   if (!node.children) return null;
   return findNodeById(node.children[0], id) ?? findNodeById(node.children[1], id);
 }
 
+// Locate the node for a prefix by walking down from `node`; null if it is outside or not split that far
+function findNodeByPrefix(node: SubnetNode, target: NormalisedCidr): SubnetNode | null {
+  if (target.version !== node.version || target.prefix < node.prefix) return null;
+  const shift = BigInt(node.bits - node.prefix);
+  if (target.network >> shift !== node.network >> shift) return null;
+  if (target.prefix === node.prefix) return node;
+  if (!node.children) return null;
+  const half = 1n << (shift - 1n);
+  return findNodeByPrefix(target.network < node.network + half ? node.children[0] : node.children[1], target);
+}
+
 function collectLeaves(node: SubnetNode, out: SubnetNode[] = []): SubnetNode[] {
   if (!node.children) {
     out.push(node);
@@ -122,6 +165,13 @@ function collectLeaves(node: SubnetNode, out: SubnetNode[] = []): SubnetNode[] {
   return out;
 }
 
+function classificationLabel(classification: PrefixClassification): string {
+  const full = classification.classes.join(", ");
+  const partial = classification.partialClasses.join(", ");
+  if (!partial) return full || "—";
+  return full ? `${full} (partly ${partial})` : `Partly ${partial}`;
+}
+
 function canSplit(node: SubnetNode, rootPrefix: number, maxDepth: number): boolean {
   if (maxDepth < 0) return false;
   if (node.prefix >= node.bits) return false;
@@ -236,6 +286,10 @@ function cssVarsFromTheme(theme?: SubnetTreeTheme): React.CSSProperties {
   setVar("--stc-hintBg", theme.hintBg);
   setVar("--stc-error", theme.error);
 
+  setVar("--stc-bitNetwork", theme.bitNetwork);
+  setVar("--stc-bitPath", theme.bitPath);
+  setVar("--stc-bitHost", theme.bitHost);
+
   return v;
 }
 
@@ -249,7 +303,10 @@ export function SubnetTreeCalculator({
   nodeWidth = 240,
   nodeHeight = 72,
   xGap = 90,
-  yGap = 110
+  yGap = 110,
+  countFormat,
+  reservationProfile,
+  usedPrefixes
 }: SubnetTreeCalculatorProps) {
   const idCounter = useRef(0);
   const makeId = useCallback(() => `n${idCounter.current++}`, []);
@@ -261,15 +318,25 @@ export function SubnetTreeCalculator({
   const [rootVersion, setRootVersion] = useState(0);
 
   const [root, setRoot] = useState<SubnetNode>(() => {
-    const { version, bits, network, prefix } = parseCidr(initialCidr);
+    const { version, bits, network, prefix } = parseBase(initialCidr);
     return { id: makeId(), version, bits, network, prefix, path: "" };
   });
 
   const [selectedId, setSelectedId] = useState<string>(() => root.id);
 
+  const [sizingHosts, setSizingHosts] = useState("");
+  const [sizingGrowth, setSizingGrowth] = useState("0");
+
+  const [browsePrefix, setBrowsePrefix] = useState("");
+  // Offset is tied to the node and prefix it was paged on, so it starts over when either changes
+  const [browsePosition, setBrowsePosition] = useState({ key: "", offset: 0n });
+
+  const [usedInput, setUsedInput] = useState(() => (usedPrefixes ?? []).join("\n"));
+  const [freePrefix, setFreePrefix] = useState("");
+
   const applyBase = useCallback(() => {
     try {
-      const { version, bits, network, prefix } = parseCidr(cidrInput);
+      const { version, bits, network, prefix } = parseBase(cidrInput);
       const newRoot: SubnetNode = { id: makeId(), version, bits, network, prefix, path: "" };
       setRoot(newRoot);
       setSelectedId(newRoot.id);
@@ -380,10 +447,64 @@ export function SubnetTreeCalculator({
 
   const selectedNode = useMemo(() => findNodeById(root, selectedId) ?? root, [root, selectedId]);
   const selectedMeta = useMemo(
-    () => subnetMeta(selectedNode.network, selectedNode.prefix, selectedNode.version, selectedNode.bits),
+    () =>
+      subnetMeta(selectedNode.network, selectedNode.prefix, selectedNode.version, selectedNode.bits, undefined, reservationProfile),
+    [selectedNode, reservationProfile]
+  );
+
+  const selectedBits = useMemo(
+    () => bitView(selectedNode.network, selectedNode.prefix, selectedNode.bits, selectedNode.path.length),
     [selectedNode]
   );
 
+  // Candidate prefixes inside the selected subnet for the host count typed in the sizing panel
+  const sizing = useMemo(() => {
+    if (!sizingHosts.trim()) return null;
+    try {
+      const hosts = sizingHosts.trim();
+      if (!/^\d+$/.test(hosts)) throw new Error("Enter a whole number of hosts");
+      const advice = adviseSizing(BigInt(hosts), selectedNode.version, {
+        growthPercent: Number(sizingGrowth) || 0,
+        profile: reservationProfile,
+        minPrefix: selectedNode.prefix
+      });
+      return { advice, error: null };
+    } catch (e) {
+      return { advice: null, error: (e as Error).message };
+    }
+  }, [sizingHosts, sizingGrowth, selectedNode, reservationProfile]);
+
+  // One page of the selected subnet's sub-prefixes; bigint offsets reach any page of a /48 split into /64s
+  const browseKey = `${selectedNode.id}/${browsePrefix}`;
+  const browseOffset = browsePosition.key === browseKey ? browsePosition.offset : 0n;
+  const setBrowseOffset = (offset: bigint) => setBrowsePosition({ key: browseKey, offset });
+
+  const browse = useMemo(() => {
+    const newPrefix = browsePrefix === "" ? Math.min(selectedNode.prefix + 8, selectedNode.bits) : Number(browsePrefix);
+    try {
+      return { newPrefix, page: pageSubPrefixes(selectedNode, newPrefix, browseOffset, BROWSE_PAGE_SIZE), error: null };
+    } catch (e) {
+      return { newPrefix, page: null, error: (e as Error).message };
+    }
+  }, [selectedNode, browsePrefix, browseOffset]);
+
+  // Space in the selected subnet not taken by the allocations typed (or preloaded) in the free-space panel
+  const freeSpace = useMemo(() => {
+    try {
+      const used = usedInput
+        .split(/[\n,]+/)
+        .map((entry) => entry.trim())
+        .filter(Boolean)
+        .flatMap((entry) => parseAny(entry).cidrs);
+      const space = findFreeSpace(selectedNode, used);
+      const fitPrefix = freePrefix.trim() === "" ? null : Number(freePrefix.replace(/^\//, ""));
+      const firstFit = fitPrefix === null ? undefined : firstFreeBlock(selectedNode, used, fitPrefix);
+      return { space, fitPrefix, firstFit, error: null };
+    } catch (e) {
+      return { space: null, fitPrefix: null, firstFit: undefined, error: (e as Error).message };
+    }
+  }, [selectedNode, usedInput, freePrefix]);
+
   const canSplitSelected = useMemo(() => canSplit(selectedNode, root.prefix, maxDepth), [selectedNode, root.prefix, maxDepth]);
   const canMergeSelected = !!selectedNode.children;
   const splitMergeLabel = canMergeSelected ? "Merge selected" : "Split selected";
@@ -412,6 +533,56 @@ export function SubnetTreeCalculator({
     return { left, right };
   }, [selectedNode, canSplitSelected]);
 
+  // Horizontal navigation: the root re-bases the tree, other nodes select the matching node
+  const navigateSelected = useCallback(
+    (move: (cidr: NormalisedCidr) => NormalisedCidr | null) => {
+      try {
+        const target = move(selectedNode);
+        if (!target) throw new Error("The whole address space has no sibling");
+        const label = formatCidr(target.version, target.network, target.prefix);
+
+        if (selectedNode.id === root.id) {
+          const { version, bits, network, prefix } = target;
+          const newRoot: SubnetNode = { id: makeId(), version, bits, network, prefix, path: "" };
+          setRoot(newRoot);
+          setSelectedId(newRoot.id);
+          setCidrInput(label);
+          setRootVersion((v) => v + 1);
+        } else {
+          const node = findNodeByPrefix(root, target);
+          if (!node) throw new Error(`${label} is not in the tree (outside the base or not split that far)`);
+          setSelectedId(node.id);
+        }
+        setError(null);
+      } catch (e) {
+        setError((e as Error).message);
+      }
+    },
+    [selectedNode, root, makeId]
+  );
+
+  const selectPreviousBlock = useCallback(() => navigateSelected(getPreviousBlock), [navigateSelected]);
+  const selectNextBlock = useCallback(() => navigateSelected(getNextBlock), [navigateSelected]);
+  const selectSibling = useCallback(() => navigateSelected(getSibling), [navigateSelected]);
+
+  const onKeyDown = useCallback(
+    (e: React.KeyboardEvent<HTMLDivElement>) => {
+      const target = e.target as HTMLElement;
+      const editing =
+        target instanceof HTMLInputElement ||
+        target instanceof HTMLTextAreaElement ||
+        target instanceof HTMLSelectElement ||
+        target.isContentEditable;
+      if (editing || e.altKey || e.ctrlKey || e.metaKey) return;
+      const actions: Record<string, () => void> = { ArrowLeft: selectPreviousBlock, ArrowRight: selectNextBlock, s: selectSibling };
+      const action = actions[e.key];
+      if (!action) return;
+      e.preventDefault();
+      action();
+    },
+    [selectPreviousBlock, selectNextBlock, selectSibling]
+  );
+
   const leaves = useMemo(() => {
     const all = collectLeaves(root);
     return [...all].sort((a, b) => (a.network < b.network ? -1 : a.network > b.network ? 1 : 0));
@@ -446,7 +617,7 @@ export function SubnetTreeCalculator({
   const nodeBitsMax = 18;
 
   return (
-    <div className={`stc ${className ?? ""}`} style={themedStyle}>
+    <div className={`stc ${className ?? ""}`} style={themedStyle} tabIndex={0} onKeyDown={onKeyDown}>
       <div className="stc__toolbar">
         <label className="stc__label">
           Base CIDR
@@ -454,7 +625,7 @@ export function SubnetTreeCalculator({
             className="stc__input"
             value={cidrInput}
             onChange={(e) => setCidrInput(e.target.value)}
-            placeholder="e.g. 10.0.0.0/16 or 2001:db8::/48"
+            placeholder="e.g. 10.0.0.0/16, 10.1.*.* or 2001:db8::/48"
           />
         </label>
 
@@ -496,6 +667,23 @@ export function SubnetTreeCalculator({
           {canCollapseSelected ? "Collapse" : "Expand"}
         </button>
 
+        <button className="stc__button" onClick={selectPreviousBlock} title="Previous block of the same size (←)">
+          ◀ Prev
+        </button>
+
+        <button className="stc__button" onClick={selectNextBlock} title="Next block of the same size (→)">
+          Next ▶
+        </button>
+
+        <button
+          className="stc__button"
+          onClick={selectSibling}
+          disabled={selectedNode.prefix === 0}
+          title="Sibling (buddy) prefix (S)"
+        >
+          Sibling
+        </button>
+
         {error && <div className="stc__error">{error}</div>}
       </div>
 
@@ -521,7 +709,7 @@ export function SubnetTreeCalculator({
               })}
 
               {nodes.map((n) => {
-                const meta = subnetMeta(n.data.network, n.data.prefix, n.data.version, n.data.bits);
+                const meta = subnetMeta(n.data.network, n.data.prefix, n.data.version, n.data.bits, undefined, reservationProfile);
                 const isSelected = n.data.id === selectedId;
                 const disabled = !n.data.children && !canSplit(n.data, root.prefix, maxDepth) && n.data.prefix < n.data.bits;
 
@@ -540,8 +728,8 @@ export function SubnetTreeCalculator({
 
                 const countLine =
                   meta.version === 4
-                    ? `${formatCount(meta.addressCount, meta.bits, meta.prefix)} addrs | ${formatCount(meta.usableCount, meta.bits, meta.prefix)} hosts`
-                    : `${formatCount(meta.addressCount, meta.bits, meta.prefix)} addrs`;
+                    ? `${formatCount(meta.addressCount, meta.bits, meta.prefix, countFormat)} addrs | ${formatCount(meta.usableCount, meta.bits, meta.prefix, countFormat)} hosts`
+                    : `${formatCount(meta.addressCount, meta.bits, meta.prefix, countFormat)} addrs`;
 
                 const pathBits = n.data.path ? `bits: ${truncateStart(n.data.path, nodeBitsMax)}` : "";
 
@@ -590,7 +778,7 @@ export function SubnetTreeCalculator({
             </g>
           </svg>
 
-          <div className="stc__hint">Tip: click to select • double‑click to split/merge • scroll to zoom • drag to pan</div>
+          <div className="stc__hint">Tip: click to select • double‑click to split/merge • ←/→ previous/next block, S sibling • scroll to zoom • drag to pan</div>
         </div>
 
         <aside className="stc__sidebar">
@@ -625,10 +813,40 @@ export function SubnetTreeCalculator({
               </div>
 
               <div>Addresses</div>
-              <div>{formatCount(selectedMeta.addressCount, selectedMeta.bits, selectedMeta.prefix)}</div>
+              <div>{formatCount(selectedMeta.addressCount, selectedMeta.bits, selectedMeta.prefix, countFormat)}</div>
 
               <div>Usable</div>
-              <div>{formatCount(selectedMeta.usableCount, selectedMeta.bits, selectedMeta.prefix)}</div>
+              <div>{formatCount(selectedMeta.usableCount, selectedMeta.bits, selectedMeta.prefix, countFormat)}</div>
+
+              {selectedMeta.reservationProfile && (
+                <>
+                  <div>Reserved ({selectedMeta.reservationProfile})</div>
+                  <div>
+                    {selectedMeta.reserved.map(({ address, reason }) => (
+                      <div key={address}>
+                        <span className="stc__mono">{address}</span> <span className="stc__muted">{reason}</span>
+                      </div>
+                    ))}
+                  </div>
+                </>
+              )}
+
+              <div>Class</div>
+              <div>{classificationLabel(selectedMeta.classification)}</div>
+
+              {selectedMeta.classification.matches.length > 0 && (
+                <>
+                  <div>Special-purpose</div>
+                  <div>
+                    {selectedMeta.classification.matches.map(({ range, relation }) => (
+                      <div key={range.cidr} title={range.rfc.join(", ")}>
+                        {relation === "WITHIN" ? "In" : "Contains"} {range.name}{" "}
+                        <span className="stc__mono">{range.cidr}</span>
+                      </div>
+                    ))}
+                  </div>
+                </>
+              )}
 
               <div>Path bits</div>
               <div className="stc__mono">{selectedNode.path || "—"}</div>
@@ -636,9 +854,29 @@ export function SubnetTreeCalculator({
 
             <div className="stc__binaryBlock">
               <div className="stc__binaryLabel">Network (binary)</div>
-              <pre className="stc__binaryPre">
-                {binaryWithPrefix(selectedNode.network, selectedNode.prefix, selectedNode.bits)}
-              </pre>
+              <div className="stc__bits" aria-label="Network bits">
+                {selectedBits.octets.map((octet) => (
+                  <span
+                    key={octet.start}
+                    className="stc__bitGroup"
+                    title={`bits ${octet.start}–${octet.start + 7}: 0x${octet.hex} = ${octet.decimal}`}
+                  >
+                    <span>
+                      {octet.cells.map((cell) => (
+                        <span key={cell.index} className={`stc__bit stc__bit--${cell.role.toLowerCase()}`}>
+                          {cell.value}
+                        </span>
+                      ))}
+                    </span>
+                    <span className="stc__bitValue">{selectedBits.version === 4 ? octet.decimal : octet.hex}</span>
+                  </span>
+                ))}
+              </div>
+              <div className="stc__bitLegend">
+                <span className="stc__bit--network">■ network</span>
+                <span className="stc__bit--path">■ path</span>
+                <span className="stc__bit--host">■ host</span>
+              </div>
             </div>
           </div>
 
@@ -655,18 +893,125 @@ export function SubnetTreeCalculator({
             )}
           </div>
 
+          <div className="stc__card">
+            <h4 className="stc__h4">Size for hosts</h4>
+            <div className="stc__sizingInputs">
+              <label className="stc__label">
+                Hosts
+                <input
+                  className="stc__input stc__input--number"
+                  inputMode="numeric"
+                  value={sizingHosts}
+                  onChange={(e) => setSizingHosts(e.target.value)}
+                  placeholder="50"
+                />
+              </label>
+              <label className="stc__label">
+                Growth %
+                <input
+                  className="stc__input stc__input--number"
+                  type="number"
+                  min={0}
+                  value={sizingGrowth}
+                  onChange={(e) => setSizingGrowth(e.target.value)}
+                />
+              </label>
+            </div>
+
+            {!sizing ? (
+              <div className="stc__muted">Enter a host count to compare prefixes within {selectedMeta.cidr}.</div>
+            ) : sizing.error ? (
+              <div className="stc__error">{sizing.error}</div>
+            ) : sizing.advice && sizing.advice.recommendedPrefix === null ? (
+              <div className="stc__muted">
+                {sizing.advice.targetHosts.toString()} hosts do not fit in {selectedMeta.cidr}.
+              </div>
+            ) : (
+              <div className="stc__leaves">
+                {sizing.advice?.candidates.slice(0, 6).map((c, i) => (
+                  <div key={c.prefix} className={`stc__leafRow${i === 0 ? " stc__sizingBest" : ""}`}>
+                    <span className="stc__mono">/{c.prefix}</span>
+                    <span className="stc__muted">
+                      {formatCount(c.usableHosts, undefined, undefined, countFormat)} usable • {c.wastePercent}% waste •
+                      +{formatCount(c.headroom, undefined, undefined, countFormat)} headroom
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="stc__card">
+            <h4 className="stc__h4">Browse subnets</h4>
+            <label className="stc__label">
+              Prefix length
+              <input
+                className="stc__input stc__input--number"
+                type="number"
+                min={selectedNode.prefix}
+                max={selectedNode.bits}
+                value={browse.newPrefix}
+                onChange={(e) => setBrowsePrefix(e.target.value)}
+              />
+            </label>
+
+            {browse.error || !browse.page ? (
+              <div className="stc__error">{browse.error}</div>
+            ) : (
+              <>
+                <div className="stc__leaves">
+                  {browse.page.items.map((c) => (
+                    <div key={c.network.toString()} className="stc__leafRow">
+                      <span className="stc__mono">{formatCidr(c.version, c.network, c.prefix)}</span>
+                    </div>
+                  ))}
+                </div>
+                <div className="stc__muted">
+                  {formatCount(browse.page.offset + 1n)}–{formatCount(browse.page.offset + BigInt(browse.page.items.length))} of{" "}
+                  {formatCount(browse.page.total, undefined, undefined, countFormat)}
+                </div>
+                <div className="stc__leafActions stc__browseActions">
+                  <button className="stc__button" disabled={browse.page.offset === 0n} onClick={() => setBrowseOffset(0n)}>
+                    First
+                  </button>
+                  <button
+                    className="stc__button"
+                    disabled={browse.page.offset === 0n}
+                    onClick={() => setBrowseOffset(browseOffset > PAGE_STEP ? browseOffset - PAGE_STEP : 0n)}
+                  >
+                    ◀
+                  </button>
+                  <button
+                    className="stc__button"
+                    disabled={browse.page.nextOffset === null}
+                    onClick={() => setBrowseOffset(browse.page?.nextOffset ?? 0n)}
+                  >
+                    ▶
+                  </button>
+                  <button
+                    className="stc__button"
+                    disabled={browse.page.nextOffset === null}
+                    onClick={() => setBrowseOffset(((browse.page!.total - 1n) / PAGE_STEP) * PAGE_STEP)}
+                  >
+                    Last
+                  </button>
+                </div>
+              </>
+            )}
+          </div>
+
           <div className="stc__card">
             <h4 className="stc__h4">Leaf subnets</h4>
             <div className="stc__muted">These are the final allocations (subnets that haven’t been split further).</div>
 
             <div className="stc__leaves">
               {leaves.map((l) => {
-                const m = subnetMeta(l.network, l.prefix, l.version, l.bits);
+                const m = subnetMeta(l.network, l.prefix, l.version, l.bits, undefined, reservationProfile);
 
                 const rightLabel =
                   m.version === 4
-                    ? `${formatCount(m.usableCount, m.bits, m.prefix)} hosts`
-                    : `${formatCount(m.addressCount, m.bits, m.prefix)} addrs`;
+                    ? `${formatCount(m.usableCount, m.bits, m.prefix, countFormat)} hosts`
+                    : `${formatCount(m.addressCount, m.bits, m.prefix, countFormat)} addrs`;
 
                 return (
                   <div key={l.id} className="stc__leafRow">
@@ -683,6 +1028,62 @@ export function SubnetTreeCalculator({
               </button>
             </div>
           </div>
+
+          <div className="stc__card">
+            <h4 className="stc__h4">Free space</h4>
+            <label className="stc__label">
+              Used prefixes
+              <textarea
+                className="stc__input stc__usedInput"
+                rows={3}
+                value={usedInput}
+                onChange={(e) => setUsedInput(e.target.value)}
+                placeholder="One CIDR or range per line"
+              />
+            </label>
+            <label className="stc__label">
+              First free /
+              <input
+                className="stc__input stc__input--number"
+                inputMode="numeric"
+                value={freePrefix}
+                onChange={(e) => setFreePrefix(e.target.value)}
+                placeholder={String(selectedNode.prefix + 1)}
+              />
+            </label>
+
+            {freeSpace.error || !freeSpace.space ? (
+              <div className="stc__error">{freeSpace.error}</div>
+            ) : (
+              <>
+                <div className="stc__muted">
+                  {formatCount(freeSpace.space.freeAddresses, selectedMeta.bits, selectedMeta.prefix, countFormat)} of{" "}
+                  {formatCount(selectedMeta.addressCount, selectedMeta.bits, selectedMeta.prefix, countFormat)} addresses free in{" "}
+                  {selectedMeta.cidr}
+                  {freeSpace.space.largest &&
+                    ` • largest ${formatCidr(freeSpace.space.largest.version, freeSpace.space.largest.network, freeSpace.space.largest.prefix)}`}
+                </div>
+                {freeSpace.firstFit !== undefined && (
+                  <div className="stc__muted">
+                    {freeSpace.firstFit
+                      ? `First free /${freeSpace.fitPrefix}: ${formatCidr(freeSpace.firstFit.version, freeSpace.firstFit.network, freeSpace.firstFit.prefix)}`
+                      : `No free /${freeSpace.fitPrefix} left`}
+                  </div>
+                )}
+                <div className="stc__leaves">
+                  {freeSpace.space.free.slice(0, FREE_SPACE_ROWS).map((c) => (
+                    <div key={c.network.toString()} className="stc__leafRow">
+                      <span className="stc__mono">{formatCidr(c.version, c.network, c.prefix)}</span>
+                      <span className="stc__muted">{formatCount(1n << BigInt(c.bits - c.prefix), c.bits, c.prefix, countFormat)} addrs</span>
+                    </div>
+                  ))}
+                  {freeSpace.space.free.length > FREE_SPACE_ROWS && (
+                    <div className="stc__muted">+{freeSpace.space.free.length - FREE_SPACE_ROWS} more free blocks</div>
+                  )}
+                </div>
+              </>
+            )}
+          </div>
         </aside>
       </div>
     </div>
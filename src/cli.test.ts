@@ -1,4 +1,4 @@
-import { describe, it, expect } from "vitest";
+import { describe, it, expect, vi } from "vitest";
 import { runCommand, printHelp } from "./cli";
 
 describe("CLI", () => {
@@ -21,6 +21,43 @@ describe("CLI", () => {
     expect(output).toContain("\"network\"");
   });
 
+  it("should parse ranges and wildcards", () => {
+    const range = JSON.parse(runCommand(["parse", "10.0.0.0-10.0.0.5"]));
+    expect(range).toHaveLength(2);
+    expect(range[0]).toHaveProperty("prefix", 30);
+    expect(range[1]).toHaveProperty("prefix", 31);
+
+    const wildcard = JSON.parse(runCommand(["parse", "10.1.*.*"]));
+    expect(wildcard).toHaveProperty("prefix", 16);
+  });
+
+  it("should reject host bits with --strict", () => {
+    expect(() => runCommand(["meta", "--strict", "10.0.0.5/24"])).toThrow("Host bits set");
+    expect(() => runCommand(["parse", "10.0.0.5/24", "--strict"])).toThrow("Host bits set");
+    expect(JSON.parse(runCommand(["meta", "10.0.0.5/24"]))).toHaveProperty("network", "10.0.0.0");
+  });
+
+  it("should reject host bits in netmask notation with --strict", () => {
+    expect(() => runCommand(["parse", "--strict", "10.0.0.5 255.255.255.0"])).toThrow("Host bits set");
+    expect(() => runCommand(["parse", "--strict", "10.0.0.5/255.255.255.0"])).toThrow("Host bits set");
+    expect(JSON.parse(runCommand(["parse", "--strict", "10.0.0.0 255.255.255.0"]))).toHaveProperty("prefix", 24);
+  });
+
+  it("should reject unknown or misspelt flags", () => {
+    expect(() => runCommand(["meta", "--stict", "10.0.0.5/24"])).toThrow("Unknown option '--stict'");
+    expect(() => runCommand(["parse", "--notation=padded", "10.0.0.0/24"])).toThrow("expected --strict");
+  });
+
+  it("should apply address format flags", () => {
+    const meta = JSON.parse(runCommand(["meta", "--notation=expanded", "--uppercase", "2001:db8::/64"]));
+    expect(meta).toHaveProperty("network", "2001:DB8:0:0:0:0:0:0");
+
+    const csv = runCommand(["export", "csv", "--notation=padded", "10.0.0.0/24"]);
+    expect(csv).toContain("010.000.000.000/24");
+
+    expect(() => runCommand(["meta", "--notation=fancy", "10.0.0.0/24"])).toThrow("Unknown notation");
+  });
+
   it("should show metadata", () => {
     const output = runCommand(["meta", "10.0.0.0/16"]);
     expect(output).toContain("\"network\"");
@@ -28,6 +65,106 @@ describe("CLI", () => {
     expect(output).toContain("\"netmask\"");
   });
 
+  it("should include special-purpose classification in metadata", () => {
+    const meta = JSON.parse(runCommand(["meta", "172.0.0.0/10"]));
+    expect(meta.classification.partialClasses).toEqual(["PUBLIC", "PRIVATE"]);
+    expect(meta.classification.matches[0]).toMatchObject({ relation: "CONTAINS", range: { cidr: "172.16.0.0/12" } });
+  });
+
+  it("should format counts in meta and Markdown export", () => {
+    const meta = JSON.parse(runCommand(["meta", "--unit=/64", "--plural", "2001:db8::/48"]));
+    expect(meta.addressCountFormatted).toBe("65,536 /64s");
+    expect(meta.addressCount).toBe("1208925819614629174706176");
+    expect(JSON.parse(runCommand(["meta", "--compact", "--long", "10.0.0.0/8"])).usableCountFormatted).toBe("16.8 million");
+    expect(JSON.parse(runCommand(["meta", "10.0.0.0/8"]))).not.toHaveProperty("addressCountFormatted");
+    expect(runCommand(["export", "md", "--exact", "--locale=de-DE", "10.0.0.0/8"])).toContain("| 16.777.216 | 16.777.214 |");
+    expect(() => runCommand(["meta", "--unit=/abc", "10.0.0.0/8"])).toThrow("Invalid unit");
+    expect(() => runCommand(["meta", "--compact", "--exact", "10.0.0.0/8"])).toThrow("either --compact or --exact");
+  });
+
+  it("should export zone files", () => {
+    const output = runCommand(["export", "zone", "--ns=ns1.example.com", "--forward=example.com", "192.0.2.0/30"]);
+    expect(output).toContain("$ORIGIN 2.0.192.in-addr.arpa.");
+    expect(output).toContain("1 IN PTR ip-192-0-2-1.example.com.");
+    expect(output).toContain("ip-192-0-2-2 IN A 192.0.2.2");
+    expect(() => runCommand(["export", "zone", "192.0.2.0/30"])).toThrow("--ns");
+    expect(runCommand(["export", "zone", "--ns=ns1.example.com", "--serial=4294967295", "192.0.2.0/30"])).toContain("4294967295 ; serial");
+    for (const serial of ["abc", "12abc", "-1", "4294967296", ""]) {
+      expect(() => runCommand(["export", "zone", "--ns=ns1.example.com", `--serial=${serial}`, "192.0.2.0/30"])).toThrow("serial");
+    }
+  });
+
+  it("should plan classless reverse delegation", () => {
+    const plan = JSON.parse(runCommand(["reverse", "--ns=ns1.example.,ns2.example.", "192.0.2.64/26"]));
+    expect(plan).toMatchObject({ cidr: "192.0.2.64/26", childZone: "64/26.2.0.192.in-addr.arpa", parentZone: "2.0.192.in-addr.arpa" });
+    expect(plan.cnames).toHaveLength(64);
+    expect(plan.ns.map((r: { value: string }) => r.value)).toEqual(["ns1.example.", "ns2.example."]);
+    expect(JSON.parse(runCommand(["reverse", "--hyphen", "192.0.2.0/25"])).childZone).toBe("0-25.2.0.192.in-addr.arpa");
+  });
+
+  it("should derive SLAAC addresses and recover MACs", () => {
+    expect(JSON.parse(runCommand(["eui64", "00-1A-2B-3C-4D-5E", "2001:db8:1:2::/64"]))).toEqual({
+      mac: "00:1a:2b:3c:4d:5e",
+      interfaceId: "021a:2bff:fe3c:4d5e",
+      address: "2001:db8:1:2:21a:2bff:fe3c:4d5e"
+    });
+    expect(JSON.parse(runCommand(["eui64", "2001:db8:1:2:21a:2bff:fe3c:4d5e"]))).toMatchObject({ eui64: true, mac: "00:1a:2b:3c:4d:5e" });
+    expect(JSON.parse(runCommand(["eui64", "2001:db8::1"]))).toMatchObject({ eui64: false, mac: null });
+    expect(() => runCommand(["eui64", "not-an-address"])).toThrow("Invalid MAC or IPv6 address");
+    expect(() => runCommand(["eui64", "10.0.0.1"])).toThrow("Invalid MAC or IPv6 address");
+  });
+
+  it("should colour bits only on a terminal without NO_COLOR", () => {
+    const isTTY = process.stdout.isTTY;
+    try {
+      process.stdout.isTTY = false;
+      expect(runCommand(["bits", "10.0.0.0/8"])).not.toContain("\x1b[");
+
+      process.stdout.isTTY = true;
+      vi.stubEnv("NO_COLOR", "");
+      expect(runCommand(["bits", "10.0.0.0/8"])).toContain("\x1b[");
+      vi.stubEnv("NO_COLOR", "1");
+      expect(runCommand(["bits", "10.0.0.0/8"])).not.toContain("\x1b[");
+      expect(runCommand(["bits", "--color", "10.0.0.0/8"])).toContain("\x1b[");
+    } finally {
+      process.stdout.isTTY = isTTY;
+      vi.unstubAllEnvs();
+    }
+    expect(() => runCommand(["bits", "--color", "--no-color", "10.0.0.0/8"])).toThrow("either --color or --no-color");
+  });
+
+  it("should show network, path and host bits", () => {
+    const plain = runCommand(["bits", "--no-color", "--root=/16", "10.0.32.0/19"]).split("\n");
+    expect(plain[0]).toBe("10.0.32.0/19  network 16 bits, path 3 bits, host 13 bits");
+    expect(plain[2]).toBe("00001010 00000000 00100000 00000000");
+    expect(plain[3]).toBe("nnnnnnnn nnnnnnnn ppphhhhh hhhhhhhh");
+    expect(plain[4]).toBe("   10       0        32       0");
+
+    const coloured = runCommand(["bits", "--color", "2001:db8::/32"]);
+    expect(coloured).toContain("\x1b[1;34m");
+    expect(coloured).toContain("   20       01       0d       b8");
+    expect(() => runCommand(["bits", "--root=/24", "10.0.0.0/16"])).toThrow("Root /24");
+  });
+
+  it("should advise prefix sizes for a host count", () => {
+    const advice = JSON.parse(runCommand(["size", "50", "--growth=25", "--reserved=2", "--within=10.0.0.0/24"]));
+    expect(advice).toMatchObject({ version: 4, targetHosts: "63", recommendedPrefix: 25 });
+    expect(advice.candidates.map((c: { prefix: number }) => c.prefix)).toEqual([25, 24]);
+    expect(JSON.parse(runCommand(["size", "--v6", "1000"])).recommendedPrefix).toBe(118);
+    expect(() => runCommand(["size", "ten"])).toThrow("Invalid host count");
+    expect(() => runCommand(["size"])).toThrow("Host count required");
+  });
+
+  it("should apply reservation profiles", () => {
+    const meta = JSON.parse(runCommand(["meta", "--profile=aws", "10.0.1.0/24"]));
+    expect(meta).toMatchObject({ usableCount: "251", firstUsable: "10.0.1.4", reservationProfile: "AWS" });
+    expect(meta.reserved).toHaveLength(5);
+    expect(runCommand(["export", "csv", "--profile=gcp", "10.0.1.0/28"])).toContain("10.0.1.2,10.0.1.13,16,12");
+    expect(JSON.parse(runCommand(["vlsm", "--profile=aws", "10.0.0.0/24", "60"]))[0].cidr.prefix).toBe(25);
+    expect(JSON.parse(runCommand(["size", "--profile=0,1,2,-1", "61"])).recommendedPrefix).toBe(25);
+    expect(() => runCommand(["meta", "--profile=nope", "10.0.0.0/24"])).toThrow("Unknown reservation profile");
+  });
+
   it("should split subnet", () => {
     const output = runCommand(["split", "172.16.0.0/16"]);
     expect(output).toContain("\"left\"");
@@ -35,6 +172,59 @@ describe("CLI", () => {
     expect(output).toContain("\"prefix\": 17");
   });
 
+  it("should split unevenly with a remainder", () => {
+    expect(JSON.parse(runCommand(["split", "--count=6", "10.0.0.0/16"])).remainder).toEqual(["10.0.192.0/18"]);
+    expect(JSON.parse(runCommand(["split", "--percent=50,25", "10.0.0.0/16"]))).toEqual({
+      original: "10.0.0.0/16",
+      allocations: ["10.0.0.0/17", "10.0.128.0/18"],
+      remainder: ["10.0.192.0/18"]
+    });
+    expect(JSON.parse(runCommand(["split", "--prefixes=/18,/17", "10.0.0.0/16"])).allocations).toEqual(["10.0.128.0/18", "10.0.0.0/17"]);
+    expect(() => runCommand(["split", "--count=2", "--weights=1,1", "10.0.0.0/16"])).toThrow("Use only one");
+    expect(() => runCommand(["split", "--weights=a,b", "10.0.0.0/16"])).toThrow("Invalid --weights");
+  });
+
+  it("should page through subnets", () => {
+    const page = JSON.parse(runCommand(["subnets", "2001:db8::/32", "/64", "--offset=4294967295", "--limit=5"]));
+    expect(page).toEqual({
+      parent: "2001:db8::/32",
+      prefix: 64,
+      total: "4294967296",
+      offset: "4294967295",
+      items: ["2001:db8:ffff:ffff::/64"],
+      nextOffset: null
+    });
+    expect(JSON.parse(runCommand(["subnets", "10.0.0.0/16", "24", "--limit=2"])).nextOffset).toBe("2");
+    expect(() => runCommand(["subnets", "10.0.0.0/16"])).toThrow("sub-prefix length required");
+    expect(() => runCommand(["subnets", "10.0.0.0/16", "/24", "--offset=-1"])).toThrow("Invalid offset");
+  });
+
+  it("should list free space", () => {
+    expect(JSON.parse(runCommand(["free", "10.0.0.0/22", "10.0.0.0/24", "10.0.2.0/24", "--prefix=/23"]))).toEqual({
+      parent: "10.0.0.0/22",
+      free: ["10.0.1.0/24", "10.0.3.0/24"],
+      freeAddresses: "512",
+      usedAddresses: "512",
+      largest: "10.0.1.0/24",
+      firstFree: null
+    });
+    expect(JSON.parse(runCommand(["free", "10.0.0.0/24"])).free).toEqual(["10.0.0.0/24"]);
+    expect(() => runCommand(["free"])).toThrow("Parent CIDR required");
+  });
+
+  it("should summarize prefixes", () => {
+    const args = ["summarize", "10.0.0.0/24", "10.0.1.0/24", "10.0.3.0/24", "10.0.1.0/25"];
+    expect(JSON.parse(runCommand(args))).toEqual(["10.0.0.0/23", "10.0.3.0/24"]);
+    expect(JSON.parse(runCommand([...args, "--max=1"]))).toEqual({
+      aggregates: [{ cidr: "10.0.0.0/22", extra: ["10.0.2.0/24"], extraAddresses: "256" }],
+      inputAddresses: "768",
+      extraAddresses: "256",
+      wastePercent: 33.33
+    });
+    expect(JSON.parse(runCommand([...args, "--waste=10%"])).aggregates).toHaveLength(2);
+    expect(() => runCommand(["summarize"])).toThrow("At least one CIDR required");
+  });
+
   it("should allocate VLSM", () => {
     const output = runCommand(["vlsm", "10.0.0.0/16", "1000", "500"]);
     expect(output).toContain("\"allocated\"");
@@ -62,6 +252,17 @@ describe("CLI", () => {
     expect(output).toContain("192.168.0.0");
   });
 
+  it("should extract prefixes from free text", () => {
+    const output = runCommand(["extract", "ip address 10.1.2.3 255.255.255.0"]);
+    const result = JSON.parse(output);
+    expect(result).toHaveLength(1);
+    expect(result[0]).toMatchObject({ kind: "NETMASK", cidrs: ["10.1.2.0/24"], hostBitsSet: true });
+  });
+
+  it("should handle missing arguments for extract", () => {
+    expect(() => runCommand(["extract"])).toThrow("Text to scan required");
+  });
+
   it("should handle invalid command", () => {
     expect(() => runCommand(["invalid"])).toThrow("Unknown command");
   });
@@ -1,16 +1,158 @@
 #!/usr/bin/env node
 
-import { parseCidr, formatCidr } from "./core/parser";
-import { subnetMeta } from "./core/calculations";
-import { splitBinary } from "./core/transformations";
+import { parseCidr, parseAny, formatCidr, extractCidrs, ipv6ToBigInt, CidrParseError } from "./core/parser";
+import type { CidrParseOptions } from "./core/parser";
+import type { AddressFormatOptions, AddressNotation, CountFormatOptions, NormalisedCidr, ReservationProfile } from "./core/types";
+import { formatCount, subnetMeta } from "./core/calculations";
+import { splitBinary, splitIntoCount, splitByPrefixes, splitByWeights, splitByPercentages, summarizePrefixes, summarizePrefixesLossy } from "./core/transformations";
+import type { SplitResult } from "./core/transformations";
 import { allocateVlsm } from "./core/vlsm";
-import { exportToJson, exportToCsv, exportToMarkdown, exportToTerraform } from "./core/export";
+import { adviseSizing } from "./core/sizing";
+import { parseReservationProfile } from "./core/reservations";
+import { exportToJson, exportToCsv, exportToMarkdown, exportToTerraform, exportToZoneFile } from "./core/export";
+import { pageSubPrefixes } from "./core/arithmetic";
+import { findFreeSpace, firstFreeBlock } from "./core/free-space";
+import { reverseDnsDelegation } from "./core/reverse-dns";
+import type { ReverseDelegationOptions } from "./core/reverse-dns";
+import { parseMac, formatMac, macToInterfaceId, slaacAddress, isEui64Address, eui64ToMac } from "./core/eui64";
+import { bitView } from "./core/bit-view";
+import type { BitRole, BitView } from "./core/bit-view";
 
 // Helper to convert BigInt to string for JSON serialization
 function bigIntReplacer(_key: string, value: unknown): unknown {
   return typeof value === "bigint" ? value.toString() : value;
 }
 
+// Split "--flag" / "--key=value" options from positional arguments, rejecting flags not in `known`
+function splitFlags(args: string[], known: string[]): { positional: string[]; flags: Map<string, string> } {
+  const positional = args.filter((a) => !a.startsWith("--"));
+  const flags = new Map<string, string>();
+  for (const arg of args.filter((a) => a.startsWith("--"))) {
+    const eq = arg.indexOf("=");
+    const name = eq === -1 ? arg.slice(2) : arg.slice(2, eq);
+    if (!known.includes(name)) {
+      const expected = known.length > 0 ? ` (expected ${known.map((f) => `--${f}`).join(", ")})` : "";
+      throw new Error(`Unknown option '--${name}'${expected}`);
+    }
+    flags.set(name, eq === -1 ? "" : arg.slice(eq + 1));
+  }
+  return { positional, flags };
+}
+
+function parseOptionsFromFlags(flags: Map<string, string>): CidrParseOptions {
+  return flags.has("strict") ? { hostBits: "REJECT" } : {};
+}
+
+const ADDRESS_NOTATIONS: AddressNotation[] = ["compressed", "expanded", "padded", "nibble"];
+const ADDRESS_FORMAT_FLAGS = ["notation", "uppercase", "mixed"];
+
+function addressFormatFromFlags(flags: Map<string, string>): AddressFormatOptions {
+  const notation = flags.get("notation");
+  if (notation !== undefined && !ADDRESS_NOTATIONS.includes(notation as AddressNotation)) {
+    throw new Error(`Unknown notation '${notation}' (expected ${ADDRESS_NOTATIONS.join("|")})`);
+  }
+  return {
+    notation: notation as AddressNotation | undefined,
+    uppercase: flags.has("uppercase"),
+    mixedIpv4: flags.has("mixed")
+  };
+}
+
+const COUNT_FLAGS = ["locale", "compact", "exact", "long", "unit", "plural"];
+
+// Count formatting for meta and Markdown export; undefined keeps raw digits
+function countFormatFromFlags(flags: Map<string, string>): CountFormatOptions | undefined {
+  if (!COUNT_FLAGS.some((f) => flags.has(f))) return undefined;
+  if (flags.has("compact") && flags.has("exact")) {
+    throw new Error("Use either --compact or --exact");
+  }
+
+  const unit = flags.get("unit");
+  const unitPrefix = unit === undefined ? undefined : Number(unit.replace(/^\//, ""));
+  if (unitPrefix !== undefined && (!Number.isInteger(unitPrefix) || unitPrefix < 0 || unitPrefix > 128)) {
+    throw new Error(`Invalid unit '${unit}' (expected a prefix length such as /64)`);
+  }
+
+  return {
+    locale: flags.get("locale") || undefined,
+    notation: flags.has("compact") ? "compact" : flags.has("exact") ? "exact" : "standard",
+    compactDisplay: flags.has("long") ? "long" : "short",
+    unitPrefix,
+    unitStyle: flags.has("plural") ? "plural" : "multiply"
+  };
+}
+
+function numberList(flag: string, value: string): number[] {
+  const numbers = value.split(",").map((v) => Number(v.trim().replace(/^\/|%$/g, "")));
+  if (numbers.length === 0 || numbers.some((n) => !Number.isFinite(n))) {
+    throw new Error(`Invalid --${flag} '${value}' (expected comma-separated numbers)`);
+  }
+  return numbers;
+}
+
+const SPLIT_FLAGS = ["count", "weights", "percent", "prefixes"];
+
+// Uneven split selected by --count, --weights, --percent or --prefixes; null for a binary split
+function unevenSplitFromFlags(cidr: NormalisedCidr, flags: Map<string, string>): SplitResult | null {
+  const modes = SPLIT_FLAGS.filter((f) => flags.has(f));
+  if (modes.length > 1) {
+    throw new Error("Use only one of --count, --weights, --percent and --prefixes");
+  }
+  const value = flags.get(modes[0] ?? "") ?? "";
+  switch (modes[0]) {
+    case "count":
+      return splitIntoCount(cidr, Number(value));
+    case "weights":
+      return splitByWeights(cidr, numberList("weights", value));
+    case "percent":
+      return splitByPercentages(cidr, numberList("percent", value));
+    case "prefixes":
+      return splitByPrefixes(cidr, numberList("prefixes", value));
+    default:
+      return null;
+  }
+}
+
+function reservationProfileFromFlags(flags: Map<string, string>): ReservationProfile | undefined {
+  const profile = flags.get("profile");
+  return profile ? parseReservationProfile(profile) : undefined;
+}
+
+const BIT_COLORS: Record<BitRole, string> = {
+  NETWORK: "\x1b[1;34m",
+  PATH: "\x1b[1;33m",
+  HOST: "\x1b[2m"
+};
+const BIT_ROLE_MARKS: Record<BitRole, string> = { NETWORK: "n", PATH: "p", HOST: "h" };
+const ANSI_RESET = "\x1b[0m";
+const OCTETS_PER_LINE = 4;
+
+// Octet rows with decimal (IPv4) or hex (IPv6) values underneath; roles as colours or n/p/h marks
+function renderBitView(label: string, view: BitView, color: boolean): string {
+  const paint = (role: BitRole, text: string) => (color ? `${BIT_COLORS[role]}${text}${ANSI_RESET}` : text);
+  const centre = (text: string) => text.padStart(Math.floor((8 + text.length) / 2)).padEnd(8);
+
+  const lines = [
+    `${label}  network ${view.pathStart} bits, path ${view.prefix - view.pathStart} bits, host ${view.bits - view.prefix} bits`
+  ];
+  for (let i = 0; i < view.octets.length; i += OCTETS_PER_LINE) {
+    const row = view.octets.slice(i, i + OCTETS_PER_LINE);
+    lines.push("");
+    lines.push(row.map((o) => o.cells.map((c) => paint(c.role, String(c.value))).join("")).join(" "));
+    if (!color) {
+      lines.push(row.map((o) => o.cells.map((c) => BIT_ROLE_MARKS[c.role]).join("")).join(" "));
+    }
+    lines.push(row.map((o) => centre(view.version === 4 ? o.decimal : o.hex)).join(" ").trimEnd());
+  }
+  lines.push("");
+  lines.push(
+    color
+      ? `${paint("NETWORK", "network")}  ${paint("PATH", "path")}  ${paint("HOST", "host")}`
+      : "n = network  p = path  h = host"
+  );
+  return lines.join("\n");
+}
+
 export function printHelp(): string {
   return `
 Subnet Tree Calculator CLI
@@ -18,23 +160,82 @@ Subnet Tree Calculator CLI
 Usage: subnet-calc <command> [options]
 
 Commands:
-  parse <cidr> [cidr...]          Parse and normalize one or more CIDRs
-  meta <cidr> [cidr...]           Show subnet metadata for one or more CIDRs
-  split <cidr> [cidr...]          Split one or more subnets into two
+  parse <cidr> [cidr...]          Parse and normalize CIDRs, netmasks, ranges, wildcards or addresses
+  meta <cidr> [cidr...]           Show subnet metadata and special-purpose classification
+  split <cidr> [cidr...]          Split one or more subnets into two (or --count, --weights, --percent, --prefixes)
+  subnets <cidr> </n>             Page through the /n subnets of a prefix (--offset, --limit)
+  free <parent> [used...]         List the free space left in a prefix by existing allocations (--prefix)
+  summarize <cidr> [cidr...]      Summarize prefixes exactly, or lossily with --max and/or --waste
   vlsm <base> <req1> <req2>...    Allocate VLSM subnets
-  export <format> <cidr> [cidr...] Export one or more subnets (json|csv|md|tf)
+  size <hosts>                    Candidate prefixes for a host count, with waste and headroom
+  export <format> <cidr> [cidr...] Export one or more subnets (json|csv|md|tf|zone)
+  extract <text...>               Find addresses, CIDRs, netmasks and ranges in free text
+  reverse <cidr> [cidr...]        Plan reverse DNS delegation (RFC 2317 CNAMEs and NS records)
+  eui64 <mac> [prefix/64]         Modified EUI-64 interface ID (and SLAAC address) for a MAC
+  eui64 <ipv6>                    Recover the MAC from an EUI-64 based IPv6 address
+  bits <cidr> [cidr...]           Show network, path and host bits per octet
   help                            Show this help
 
+Options:
+  --strict                        Reject host bits set (10.0.0.5/24, "10.0.0.5 255.255.255.0") in parse and meta
+  --notation=<style>              Address notation for meta and export (compressed|expanded|padded|nibble)
+  --uppercase                     Upper-case IPv6 hex digits in meta and export
+  --mixed                         Dotted IPv4 tail for mapped/NAT64 IPv6 addresses in meta and export
+  --locale=<tag>                  Locale for formatted counts in meta and md export (default en-GB)
+  --compact | --exact             Compact (4.3B) or exact grouped counts; add --long for "4.3 billion"
+  --unit=/<n>                     Count in /n blocks ("256 × /64"); add --plural for "256 /64s"
+  --ns=<host,host...>             Name servers for reverse delegation and zone export NS records
+  --pattern=<hostname>            Zone export hostname pattern ({ip}, {a}-{d}, {host}), default ip-{ip}
+  --forward=<zone>                Zone export: also emit A/AAAA records in this forward zone
+  --contact=<mailbox>             Zone export SOA contact (default hostmaster.<ns domain>)
+  --serial=<n>                    Zone export SOA serial (default 1)
+  --hyphen                        RFC 2317 child zones as 64-26 instead of 64/26
+  --count=<n>                     Split: n equal blocks (any n), leftover returned as the remainder
+  --weights=<w,w...>              Split: blocks sized by relative weight, e.g. 2,1,1
+  --percent=<p,p...>              Split: blocks sized by percentage of the parent, e.g. 50,25,25
+  --prefixes=</n,/n...>           Split: blocks of these prefix lengths, e.g. /18,/19,/19
+  --offset=<n>                    Subnets: index of the first subnet to list (default 0)
+  --limit=<n>                     Subnets: page size (default 256)
+  --prefix=/<n>                   Free: also report the first free block of this length
+  --max=<n>                       Summarize: aggregate down to at most n prefixes
+  --waste=<percent>               Summarize: extra address space allowed, as a percentage of the input
+  --profile=<name|offsets>        Reserved addresses for meta, export, vlsm and size: aws, azure, gcp,
+                                  gateway, hsrp, or offsets such as 0,1,2,-1 (negative counts from the end)
+  --growth=<percent>              Size: plan for this much growth on top of the host count
+  --reserved=<n>                  Size: addresses reserved per subnet besides network/broadcast
+  --within=<cidr>                 Size: only prefixes that fit in this block (sets the IP version)
+  --v6                            Size: IPv6 candidates (default IPv4)
+  --root=/<n>                     Bits: mark the bits between /n and the prefix as path bits
+  --color | --no-color            Bits: force ANSI colours, or plain text with n/p/h role marks
+                                  (default: colour on a terminal unless NO_COLOR is set)
+
 Examples:
   subnet-calc parse 192.168.1.0/24
   subnet-calc parse 192.168.1.0/24 10.0.0.0/8 172.16.0.0/12
+  subnet-calc parse 10.0.0.1-50 10.1.*.*
   subnet-calc meta 10.0.0.0/16
   subnet-calc meta 10.0.0.0/16 192.168.0.0/24
+  subnet-calc meta --strict 10.0.0.5/24
+  subnet-calc meta --compact --unit=/64 2001:db8::/48
   subnet-calc split 172.16.0.0/16
   subnet-calc split 172.16.0.0/16 10.0.0.0/8
+  subnet-calc split --count=6 10.0.0.0/16
+  subnet-calc split --percent=50,25 10.0.0.0/16
+  subnet-calc subnets 2001:db8::/48 /64 --offset=65000 --limit=10
+  subnet-calc free 10.0.0.0/16 10.0.0.0/24 10.0.4.0/22 --prefix=/20
+  subnet-calc summarize 10.0.0.0/24 10.0.1.0/24 10.0.3.0/24 --max=1
   subnet-calc vlsm 10.0.0.0/16 1000 500 250
+  subnet-calc meta --profile=aws 10.0.1.0/24
+  subnet-calc size 50 --growth=25 --reserved=2 --within=10.0.0.0/24
   subnet-calc export json 192.168.0.0/24
   subnet-calc export csv 192.168.0.0/24 10.0.0.0/16
+  subnet-calc export csv --notation=padded --uppercase 2001:db8::/64
+  subnet-calc export zone --ns=ns1.example.com --forward=example.com 192.0.2.0/28
+  subnet-calc extract "ip address 10.1.2.3 255.255.255.0"
+  subnet-calc reverse --ns=ns1.customer.example.,ns2.customer.example. 192.0.2.64/26
+  subnet-calc eui64 00:1a:2b:3c:4d:5e 2001:db8:1:2::/64
+  subnet-calc eui64 2001:db8:1:2:21a:2bff:fe3c:4d5e
+  subnet-calc bits --root=/16 10.0.32.0/19
 `;
 }
 
@@ -47,11 +248,13 @@ export function runCommand(args: string[]): string {
 
   switch (command) {
     case "parse": {
-      if (args.length < 2) {
+      const { positional, flags } = splitFlags(args.slice(1), ["strict"]);
+      if (positional.length < 1) {
         throw new Error("At least one CIDR required");
       }
-      const cidrs = args.slice(1);
-      const results = cidrs.map(cidrStr => parseCidr(cidrStr));
+      const options = parseOptionsFromFlags(flags);
+      // Ranges expand to several prefixes, so flatten before deciding object vs array
+      const results = positional.flatMap(input => parseAny(input, options).cidrs);
 
       // If single CIDR, return object; if multiple, return array
       if (results.length === 1) {
@@ -61,14 +264,24 @@ export function runCommand(args: string[]): string {
     }
 
     case "meta": {
-      if (args.length < 2) {
+      const { positional, flags } = splitFlags(args.slice(1), ["strict", "profile", ...ADDRESS_FORMAT_FLAGS, ...COUNT_FLAGS]);
+      if (positional.length < 1) {
         throw new Error("At least one CIDR required");
       }
-      const cidrs = args.slice(1);
-      const results = cidrs.map(cidrStr => {
-        const cidr = parseCidr(cidrStr);
+      const options = parseOptionsFromFlags(flags);
+      const format = addressFormatFromFlags(flags);
+      const countFormat = countFormatFromFlags(flags);
+      const profile = reservationProfileFromFlags(flags);
+      const results = positional.map(cidrStr => {
+        const cidr = parseCidr(cidrStr, options);
         const bits = cidr.version === 4 ? 32 : 128;
-        return subnetMeta(cidr.network, cidr.prefix, cidr.version, bits);
+        const meta = subnetMeta(cidr.network, cidr.prefix, cidr.version, bits, format, profile);
+        if (!countFormat) return meta;
+        return {
+          ...meta,
+          addressCountFormatted: formatCount(meta.addressCount, bits, cidr.prefix, countFormat),
+          usableCountFormatted: formatCount(meta.usableCount, bits, cidr.prefix, countFormat)
+        };
       });
 
       // If single CIDR, return object; if multiple, return array
@@ -79,15 +292,20 @@ export function runCommand(args: string[]): string {
     }
 
     case "split": {
-      if (args.length < 2) {
+      const { positional, flags } = splitFlags(args.slice(1), SPLIT_FLAGS);
+      if (positional.length < 1) {
         throw new Error("At least one CIDR required");
       }
-      const cidrs = args.slice(1);
-      const results = cidrs.map(cidrStr => {
+      const fmt = (c: NormalisedCidr) => formatCidr(c.version, c.network, c.prefix);
+      const results = positional.map(cidrStr => {
         const cidr = parseCidr(cidrStr);
+        const uneven = unevenSplitFromFlags(cidr, flags);
+        if (uneven) {
+          return { original: fmt(cidr), allocations: uneven.allocations.map(fmt), remainder: uneven.remainder.map(fmt) };
+        }
         const [left, right] = splitBinary(cidr);
         return {
-          original: formatCidr(cidr.version, cidr.network, cidr.prefix),
+          original: fmt(cidr),
           left,
           right
         };
@@ -100,41 +318,269 @@ export function runCommand(args: string[]): string {
       return JSON.stringify(results, bigIntReplacer, 2);
     }
 
+    case "subnets": {
+      const { positional, flags } = splitFlags(args.slice(1), ["offset", "limit"]);
+      if (positional.length < 2) {
+        throw new Error("CIDR and sub-prefix length required");
+      }
+      const cidr = parseCidr(positional[0]!);
+      const newPrefix = Number(positional[1]!.replace(/^\//, ""));
+      const offset = flags.get("offset") ?? "0";
+      if (!/^\d+$/.test(offset)) {
+        throw new Error(`Invalid offset '${offset}' (expected a non-negative integer)`);
+      }
+      const limit = flags.has("limit") ? Number(flags.get("limit")) : undefined;
+      const page = pageSubPrefixes(cidr, newPrefix, BigInt(offset), limit);
+      return JSON.stringify(
+        {
+          parent: formatCidr(cidr.version, cidr.network, cidr.prefix),
+          ...page,
+          items: page.items.map((c) => formatCidr(c.version, c.network, c.prefix))
+        },
+        bigIntReplacer,
+        2
+      );
+    }
+
+    case "free": {
+      const { positional, flags } = splitFlags(args.slice(1), ["prefix"]);
+      if (positional.length < 1) {
+        throw new Error("Parent CIDR required");
+      }
+      const fmt = (c: NormalisedCidr) => formatCidr(c.version, c.network, c.prefix);
+      const parent = parseCidr(positional[0]!);
+      const used = positional.slice(1).map((c) => parseCidr(c));
+      const space = findFreeSpace(parent, used);
+      const prefix = flags.get("prefix");
+      const firstFree =
+        prefix === undefined ? undefined : firstFreeBlock(parent, used, Number(prefix.replace(/^\//, "")));
+      return JSON.stringify(
+        {
+          parent: fmt(parent),
+          free: space.free.map(fmt),
+          freeAddresses: space.freeAddresses,
+          usedAddresses: space.usedAddresses,
+          largest: space.largest && fmt(space.largest),
+          ...(firstFree === undefined ? {} : { firstFree: firstFree && fmt(firstFree) })
+        },
+        bigIntReplacer,
+        2
+      );
+    }
+
+    case "summarize": {
+      const { positional, flags } = splitFlags(args.slice(1), ["max", "waste"]);
+      if (positional.length < 1) {
+        throw new Error("At least one CIDR required");
+      }
+      const fmt = (c: NormalisedCidr) => formatCidr(c.version, c.network, c.prefix);
+      const cidrs = positional.map((c) => parseCidr(c));
+      if (!flags.has("max") && !flags.has("waste")) {
+        return JSON.stringify(summarizePrefixes(cidrs).map(fmt), null, 2);
+      }
+      const max = flags.get("max");
+      const waste = flags.get("waste");
+      const summary = summarizePrefixesLossy(cidrs, {
+        maxPrefixes: max === undefined ? undefined : Number(max),
+        maxWastePercent: waste === undefined ? undefined : Number(waste.replace(/%$/, ""))
+      });
+      return JSON.stringify(
+        {
+          ...summary,
+          aggregates: summary.aggregates.map((a) => ({ cidr: fmt(a.cidr), extra: a.extra.map(fmt), extraAddresses: a.extraAddresses }))
+        },
+        bigIntReplacer,
+        2
+      );
+    }
+
     case "vlsm": {
-      if (args.length < 3) {
+      const { positional, flags } = splitFlags(args.slice(1), ["profile"]);
+      if (positional.length < 2) {
         throw new Error("Base CIDR and at least one requirement needed");
       }
-      const base = parseCidr(args[1]!);
-      const requirements = args.slice(2).map((req) => ({
+      const base = parseCidr(positional[0]!);
+      const requirements = positional.slice(1).map((req) => ({
         name: `Subnet-${req}`,
         requiredHosts: parseInt(req, 10)
       }));
-      const result = allocateVlsm(base, requirements, "LARGEST_FIRST");
+      const result = allocateVlsm(base, requirements, "LARGEST_FIRST", [], reservationProfileFromFlags(flags));
       return JSON.stringify(result, bigIntReplacer, 2);
     }
 
+    case "size": {
+      const { positional, flags } = splitFlags(args.slice(1), ["within", "v6", "growth", "reserved", "profile"]);
+      if (positional.length < 1) {
+        throw new Error("Host count required");
+      }
+      const hosts = positional[0]!;
+      if (!/^\d+$/.test(hosts)) {
+        throw new Error(`Invalid host count '${hosts}' (expected a positive integer)`);
+      }
+      const within = flags.has("within") ? parseCidr(flags.get("within")!) : undefined;
+      const version = within?.version ?? (flags.has("v6") ? 6 : 4);
+      const growth = flags.get("growth");
+      const reserved = flags.get("reserved");
+      const advice = adviseSizing(BigInt(hosts), version, {
+        growthPercent: growth === undefined ? undefined : Number(growth.replace(/%$/, "")),
+        reservedAddresses: reserved === undefined ? undefined : Number(reserved),
+        profile: reservationProfileFromFlags(flags),
+        minPrefix: within?.prefix
+      });
+      return JSON.stringify(advice, bigIntReplacer, 2);
+    }
+
     case "export": {
-      if (args.length < 3) {
+      const { positional, flags } = splitFlags(args.slice(1), [
+        "profile",
+        "ns",
+        "serial",
+        "contact",
+        "pattern",
+        "forward",
+        ...ADDRESS_FORMAT_FLAGS,
+        ...COUNT_FLAGS
+      ]);
+      if (positional.length < 2) {
         throw new Error("Format and at least one CIDR required");
       }
-      const format = args[1]!;
-      const cidrs = args.slice(2);
+      const format = positional[0]!;
+      const cidrs = positional.slice(1);
       const subnets = cidrs.map(cidrStr => parseCidr(cidrStr));
+      const exportOptions = {
+        addressFormat: addressFormatFromFlags(flags),
+        countFormat: countFormatFromFlags(flags),
+        reservationProfile: reservationProfileFromFlags(flags)
+      };
 
       switch (format) {
         case "json":
-          return exportToJson(subnets);
+          return exportToJson(subnets, undefined, exportOptions);
         case "csv":
-          return exportToCsv(subnets);
+          return exportToCsv(subnets, exportOptions);
         case "md":
-          return exportToMarkdown(subnets);
+          return exportToMarkdown(subnets, undefined, exportOptions);
         case "tf":
-          return exportToTerraform(subnets);
+          return exportToTerraform(subnets, undefined, exportOptions);
+        case "zone": {
+          const ns = flags.get("ns");
+          if (!ns) {
+            throw new Error("Zone export requires --ns=<host,host...>");
+          }
+          const serial = flags.get("serial");
+          if (serial !== undefined && !/^\d{1,10}$/.test(serial)) {
+            throw new Error(`Invalid serial '${serial}' (expected an integer 0..4294967295)`);
+          }
+          return exportToZoneFile(
+            subnets.map(cidr => ({ cidr })),
+            {
+              nameservers: ns.split(",").filter(Boolean),
+              soa: { contact: flags.get("contact"), serial: serial === undefined ? undefined : Number(serial) },
+              hostnamePattern: flags.get("pattern"),
+              forwardZone: flags.get("forward"),
+              reservationProfile: exportOptions.reservationProfile
+            }
+          );
+        }
         default:
           throw new Error(`Unknown format '${format}'`);
       }
     }
 
+    case "extract": {
+      if (args.length < 2) {
+        throw new Error("Text to scan required");
+      }
+      const results = extractCidrs(args.slice(1).join(" ")).map((found) => ({
+        kind: found.kind,
+        text: found.text,
+        start: found.start,
+        end: found.end,
+        cidrs: found.cidrs.map((c) => formatCidr(c.version, c.network, c.prefix)),
+        hostBitsSet: found.hostBitsSet
+      }));
+      return JSON.stringify(results, null, 2);
+    }
+
+    case "reverse": {
+      const { positional, flags } = splitFlags(args.slice(1), ["ns", "hyphen"]);
+      if (positional.length < 1) {
+        throw new Error("At least one CIDR required");
+      }
+      const ns = flags.get("ns");
+      const options: ReverseDelegationOptions = {
+        nameservers: ns ? ns.split(",").filter(Boolean) : [],
+        classlessSeparator: flags.has("hyphen") ? "-" : "/"
+      };
+      const results = positional.map(cidrStr => {
+        const cidr = parseCidr(cidrStr);
+        return {
+          cidr: formatCidr(cidr.version, cidr.network, cidr.prefix),
+          ...reverseDnsDelegation(cidr.network, cidr.prefix, cidr.version, cidr.bits, options)
+        };
+      });
+
+      // If single CIDR, return object; if multiple, return array
+      if (results.length === 1) {
+        return JSON.stringify(results[0], null, 2);
+      }
+      return JSON.stringify(results, null, 2);
+    }
+
+    case "eui64": {
+      if (args.length < 2) {
+        throw new Error("MAC or IPv6 address required");
+      }
+      const input = args[1]!;
+      let mac: bigint | null = null;
+      try {
+        mac = parseMac(input);
+      } catch {
+        // Not a MAC: treat as an IPv6 address to decode
+      }
+
+      if (mac === null) {
+        try {
+          ipv6ToBigInt(input);
+        } catch {
+          throw new Error(`Invalid MAC or IPv6 address '${input}'`);
+        }
+        const eui64 = isEui64Address(input);
+        return JSON.stringify({ address: input, eui64, mac: eui64 ? eui64ToMac(input) : null }, null, 2);
+      }
+      const result: Record<string, string> = { mac: formatMac(mac), interfaceId: macToInterfaceId(input) };
+      if (args[2]) {
+        result.address = slaacAddress(parseCidr(args[2]), input);
+      }
+      return JSON.stringify(result, null, 2);
+    }
+
+    case "bits": {
+      const { positional, flags } = splitFlags(args.slice(1), ["root", "color", "no-color"]);
+      if (positional.length < 1) {
+        throw new Error("At least one CIDR required");
+      }
+      const root = flags.get("root");
+      const rootPrefix = root === undefined ? undefined : Number(root.replace(/^\//, ""));
+      if (rootPrefix !== undefined && !Number.isInteger(rootPrefix)) {
+        throw new Error(`Invalid root '${root}' (expected a prefix length such as /16)`);
+      }
+      if (flags.has("color") && flags.has("no-color")) {
+        throw new Error("Use either --color or --no-color");
+      }
+      const color = flags.has("color") || (!flags.has("no-color") && !!process.stdout.isTTY && !process.env.NO_COLOR);
+      return positional
+        .map(cidrStr => {
+          const cidr = parseCidr(cidrStr);
+          if (rootPrefix !== undefined && (rootPrefix < 0 || rootPrefix > cidr.prefix)) {
+            throw new Error(`Root /${rootPrefix} must not be longer than /${cidr.prefix}`);
+          }
+          const view = bitView(cidr.network, cidr.prefix, cidr.bits, cidr.prefix - (rootPrefix ?? cidr.prefix));
+          return renderBitView(formatCidr(cidr.version, cidr.network, cidr.prefix), view, color);
+        })
+        .join("\n\n");
+    }
+
     default:
       throw new Error(`Unknown command '${command}'`);
   }
@@ -148,6 +594,9 @@ function main(): void {
     console.log(output);
   } catch (error) {
     console.error("Error:", error instanceof Error ? error.message : String(error));
+    if (error instanceof CidrParseError && error.suggestion) {
+      console.error("Hint:", error.suggestion);
+    }
     process.exit(1);
   }
 }
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import {
+  offsetAddress,
+  nextAddress,
+  previousAddress,
+  addressDistance,
+  addressIndex,
+  nthHost,
+  iterateHosts,
+  iterateSubPrefixes,
+  countSubPrefixes,
+  pageSubPrefixes,
+} from './arithmetic';
+import { parseCidr, formatCidr } from './parser';
+
+describe('Address arithmetic', () => {
+  it('should offset addresses in both directions', () => {
+    expect(offsetAddress('10.0.0.250', 10)).toBe('10.0.1.4');
+    expect(offsetAddress('10.0.1.4', -10n)).toBe('10.0.0.250');
+    expect(offsetAddress('2001:db8::ffff', 1n)).toBe('2001:db8::1:0');
+    expect(nextAddress('192.168.0.255')).toBe('192.168.1.0');
+    expect(previousAddress('2001:db8::1:0')).toBe('2001:db8::ffff');
+  });
+
+  it('should stop at the edges of the address family', () => {
+    expect(() => nextAddress('255.255.255.255')).toThrow('outside the IPv4 address space');
+    expect(() => previousAddress('::')).toThrow('outside the IPv6 address space');
+    expect(nextAddress('ffff:ffff:ffff:ffff:ffff:ffff:ffff:fffe')).toBe('ffff:ffff:ffff:ffff:ffff:ffff:ffff:ffff');
+    expect(() => offsetAddress('10.0.0.1', 1.5)).toThrow('Invalid offset');
+  });
+
+  it('should measure distances', () => {
+    expect(addressDistance('10.0.0.0', '10.0.4.0')).toBe(1024n);
+    expect(addressDistance('10.0.4.0', '10.0.0.0')).toBe(-1024n);
+    expect(addressDistance('::', 'ffff:ffff:ffff:ffff:ffff:ffff:ffff:ffff')).toBe((1n << 128n) - 1n);
+    expect(() => addressDistance('10.0.0.0', '::1')).toThrow('IPv4 and IPv6');
+  });
+
+  it('should find hosts by position and positions of addresses', () => {
+    const cidr = parseCidr('10.0.4.0/22');
+    expect(nthHost(cidr, 10)).toBe('10.0.4.10');
+    expect(nthHost(cidr, 1)).toBe('10.0.4.1');
+    expect(nthHost(cidr, -1)).toBe('10.0.7.254');
+    expect(nthHost(cidr, 1022)).toBe('10.0.7.254');
+    expect(() => nthHost(cidr, 1023)).toThrow('1022 usable hosts');
+    expect(() => nthHost(cidr, 0)).toThrow('does not exist');
+    expect(nthHost(parseCidr('2001:db8::/64'), 1n << 63n)).toBe('2001:db8::7fff:ffff:ffff:ffff');
+
+    expect(addressIndex(cidr, '10.0.4.0')).toBe(0n);
+    expect(addressIndex(cidr, '10.0.5.1')).toBe(257n);
+    expect(() => addressIndex(cidr, '10.0.8.0')).toThrow('not within 10.0.4.0/22');
+    expect(() => addressIndex(cidr, '::1')).toThrow('not within');
+  });
+});
+
+describe('Lazy iteration', () => {
+  it('should iterate usable hosts', () => {
+    expect([...iterateHosts(parseCidr('192.168.1.0/30'))]).toEqual(['192.168.1.1', '192.168.1.2']);
+    expect([...iterateHosts(parseCidr('192.168.1.0/31'))]).toEqual(['192.168.1.0', '192.168.1.1']);
+    expect([...iterateHosts(parseCidr('192.168.1.0/29'), 4)]).toEqual(['192.168.1.5', '192.168.1.6']);
+  });
+
+  it('should iterate huge IPv6 subnets lazily', () => {
+    const hosts = iterateHosts(parseCidr('2001:db8::/32'), (1n << 96n) - 2n);
+    expect(hosts.next().value).toBe('2001:db8:ffff:ffff:ffff:ffff:ffff:fffe');
+    expect(hosts.next().value).toBe('2001:db8:ffff:ffff:ffff:ffff:ffff:ffff');
+    expect(hosts.next().done).toBe(true);
+    expect(() => iterateHosts(parseCidr('10.0.0.0/24'), -1).next()).toThrow('Invalid start');
+  });
+
+  it('should iterate sub-prefixes', () => {
+    const subs = [...iterateSubPrefixes(parseCidr('10.0.0.0/22'), 24)];
+    expect(subs.map((c) => formatCidr(c.version, c.network, c.prefix))).toEqual([
+      '10.0.0.0/24',
+      '10.0.1.0/24',
+      '10.0.2.0/24',
+      '10.0.3.0/24',
+    ]);
+
+    const sixtyFours = iterateSubPrefixes(parseCidr('2001:db8::/32'), 64);
+    sixtyFours.next();
+    const second = sixtyFours.next().value!;
+    expect(formatCidr(second.version, second.network, second.prefix)).toBe('2001:db8:0:1::/64');
+    expect(() => iterateSubPrefixes(parseCidr('10.0.0.0/24'), 16).next()).toThrow('Invalid sub-prefix');
+  });
+
+  it('should count and page sub-prefixes with bigint offsets', () => {
+    const parent = parseCidr('2001:db8::/32');
+    expect(countSubPrefixes(parent, 64)).toBe(1n << 32n);
+
+    const last = (1n << 32n) - 2n;
+    const page = pageSubPrefixes(parent, 64, last, 10);
+    expect(page).toMatchObject({ prefix: 64, total: 1n << 32n, offset: last, nextOffset: null });
+    expect(page.items.map((c) => formatCidr(c.version, c.network, c.prefix))).toEqual([
+      '2001:db8:ffff:fffe::/64',
+      '2001:db8:ffff:ffff::/64',
+    ]);
+
+    const first = pageSubPrefixes(parseCidr('10.0.0.0/22'), 24, 0, 3);
+    expect(first.items).toHaveLength(3);
+    expect(first.nextOffset).toBe(3n);
+    const skipped = iterateSubPrefixes(parseCidr('10.0.0.0/22'), 24, 3n).next().value!;
+    expect(formatCidr(skipped.version, skipped.network, skipped.prefix)).toBe('10.0.3.0/24');
+  });
+
+  it('should reject invalid pages', () => {
+    const parent = parseCidr('10.0.0.0/22');
+    expect(() => pageSubPrefixes(parent, 24, 4)).toThrow('Offset 4 is outside 0..3');
+    expect(() => pageSubPrefixes(parent, 24, -1)).toThrow('outside');
+    expect(() => pageSubPrefixes(parent, 24, 0, 0)).toThrow('Invalid page size');
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * Address arithmetic and lazy iteration over hosts and sub-prefixes
+ */
+
+import type { IpVersion, NormalisedCidr } from './types';
+import { formatAddress, formatCidr, ipv4ToBigInt, ipv6ToBigInt } from './parser';
+import { usableRange } from './calculations';
+import { assertIntegerInRange } from './utils';
+
+type ParsedAddress = { version: IpVersion; bits: 32 | 128; value: bigint };
+
+function parseAddress(address: string): ParsedAddress {
+  return address.includes(':')
+    ? { version: 6, bits: 128, value: ipv6ToBigInt(address) }
+    : { version: 4, bits: 32, value: ipv4ToBigInt(address) };
+}
+
+function toBigInt(n: bigint | number, label: string): bigint {
+  if (typeof n === 'number' && !Number.isSafeInteger(n)) {
+    throw new Error(`Invalid ${label} (expected an integer)`);
+  }
+  return BigInt(n);
+}
+
+function cidrLabel(cidr: NormalisedCidr): string {
+  return formatCidr(cidr.version, cidr.network, cidr.prefix);
+}
+
+/**
+ * Address `offset` positions after (or before, if negative) an address
+ * @throws Error if the result leaves the address family
+ */
+export function offsetAddress(address: string, offset: bigint | number): string {
+  const { version, bits, value } = parseAddress(address);
+  const result = value + toBigInt(offset, 'offset');
+  if (result < 0n || result >= 1n << BigInt(bits)) {
+    throw new Error(`Offset ${offset} from ${address} is outside the IPv${version} address space`);
+  }
+  return formatAddress(version, result);
+}
+
+/**
+ * Next address
+ * @throws Error after the last address of the family
+ */
+export function nextAddress(address: string): string {
+  return offsetAddress(address, 1n);
+}
+
+/**
+ * Previous address
+ * @throws Error before the first address of the family
+ */
+export function previousAddress(address: string): string {
+  return offsetAddress(address, -1n);
+}
+
+/**
+ * Signed distance from `from` to `to` (to - from)
+ * @throws Error if the addresses are of different families
+ */
+export function addressDistance(from: string, to: string): bigint {
+  const a = parseAddress(from);
+  const b = parseAddress(to);
+  if (a.version !== b.version) throw new Error('Cannot measure distance between IPv4 and IPv6 addresses');
+  return b.value - a.value;
+}
+
+/**
+ * Offset of an address from the network address of its subnet (0 for the network address)
+ * @throws Error if the address is outside the subnet
+ */
+export function addressIndex(cidr: NormalisedCidr, address: string): bigint {
+  const { version, value } = parseAddress(address);
+  const size = 1n << BigInt(cidr.bits - cidr.prefix);
+  if (version !== cidr.version || value < cidr.network || value >= cidr.network + size) {
+    throw new Error(`${address} is not within ${cidrLabel(cidr)}`);
+  }
+  return value - cidr.network;
+}
+
+/**
+ * The nth usable host of a subnet, counting from 1; negative n counts back from the last (-1)
+ * @throws Error if the subnet has fewer usable hosts
+ */
+export function nthHost(cidr: NormalisedCidr, n: bigint | number): string {
+  const index = toBigInt(n, 'host number');
+  const { first, last, count } = usableRange(cidr.network, cidr.prefix, cidr.version, cidr.bits);
+  if (index === 0n || index > count || -index > count) {
+    throw new Error(`${cidrLabel(cidr)} has ${count} usable hosts; host ${n} does not exist`);
+  }
+  return formatAddress(cidr.version, index > 0n ? first + index - 1n : last + index + 1n);
+}
+
+/**
+ * Iterate the usable hosts of a subnet without materialising them
+ * `start` skips that many hosts first, so large IPv6 subnets can be paged.
+ */
+export function* iterateHosts(cidr: NormalisedCidr, start: bigint | number = 0n): Generator<string> {
+  const skip = toBigInt(start, 'start');
+  if (skip < 0n) throw new Error('Invalid start (expected a non-negative integer)');
+  const { first, last } = usableRange(cidr.network, cidr.prefix, cidr.version, cidr.bits);
+  for (let ip = first + skip; ip <= last; ip++) {
+    yield formatAddress(cidr.version, ip);
+  }
+}
+
+/**
+ * One page of sub-prefixes
+ */
+export type SubPrefixPage = {
+  /** Length of the listed sub-prefixes. */
+  prefix: number;
+  /** Number of sub-prefixes in the whole parent. */
+  total: bigint;
+  /** Index of the first item within the parent. */
+  offset: bigint;
+  items: NormalisedCidr[];
+  /** Offset of the next page, or null on the last page. */
+  nextOffset: bigint | null;
+};
+
+const MAX_PAGE_SIZE = 65536;
+
+/**
+ * Number of sub-prefixes of length `newPrefix` within a subnet
+ */
+export function countSubPrefixes(cidr: NormalisedCidr, newPrefix: number): bigint {
+  assertIntegerInRange(newPrefix, cidr.prefix, cidr.bits, `Invalid sub-prefix length (expected ${cidr.prefix}..${cidr.bits})`);
+  return 1n << BigInt(newPrefix - cidr.prefix);
+}
+
+/**
+ * Iterate the sub-prefixes of length `newPrefix` within a subnet, in address order
+ * `start` skips that many sub-prefixes first, so /64s under a /32 can be paged.
+ */
+export function* iterateSubPrefixes(
+  cidr: NormalisedCidr,
+  newPrefix: number,
+  start: bigint | number = 0n
+): Generator<NormalisedCidr> {
+  const total = countSubPrefixes(cidr, newPrefix);
+  const skip = toBigInt(start, 'start');
+  if (skip < 0n) throw new Error('Invalid start (expected a non-negative integer)');
+  const step = 1n << BigInt(cidr.bits - newPrefix);
+  for (let i = skip; i < total; i++) {
+    yield { version: cidr.version, bits: cidr.bits, network: cidr.network + i * step, prefix: newPrefix };
+  }
+}
+
+/**
+ * A page of `limit` sub-prefixes starting at `offset`, with the total count
+ * Offsets are bigints, so any page of a /64 split into /128s can be reached directly.
+ */
+export function pageSubPrefixes(
+  cidr: NormalisedCidr,
+  newPrefix: number,
+  offset: bigint | number = 0n,
+  limit: number = 256
+): SubPrefixPage {
+  assertIntegerInRange(limit, 1, MAX_PAGE_SIZE, `Invalid page size (expected 1..${MAX_PAGE_SIZE})`);
+  const total = countSubPrefixes(cidr, newPrefix);
+  const first = toBigInt(offset, 'offset');
+  if (first < 0n || first >= total) {
+    throw new Error(`Offset ${offset} is outside 0..${total - 1n}`);
+  }
+
+  const items: NormalisedCidr[] = [];
+  for (const sub of iterateSubPrefixes(cidr, newPrefix, first)) {
+    items.push(sub);
+    if (items.length === limit) break;
+  }
+  const next = first + BigInt(items.length);
+  return { prefix: newPrefix, total, offset: first, items, nextOffset: next < total ? next : null };
+}
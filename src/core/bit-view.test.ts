@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { bitView } from './bit-view';
+
+describe('Bit view', () => {
+  it('should classify network and host bits', () => {
+    const view = bitView(0xc0a80100n, 24, 32);
+    expect(view).toMatchObject({ version: 4, bits: 32, prefix: 24, pathStart: 24 });
+    expect(view.cells).toHaveLength(32);
+    expect(view.cells[0]).toEqual({ index: 0, value: 1, role: 'NETWORK' });
+    expect(view.cells[23]!.role).toBe('NETWORK');
+    expect(view.cells[24]!.role).toBe('HOST');
+  });
+
+  it('should mark tree path bits before the prefix', () => {
+    const view = bitView(0x0a002000n, 19, 32, 3);
+    expect(view.pathStart).toBe(16);
+    expect(view.cells.slice(15, 20).map((c) => c.role)).toEqual(['NETWORK', 'PATH', 'PATH', 'PATH', 'HOST']);
+    expect(view.octets.map((o) => o.role)).toEqual(['NETWORK', 'NETWORK', 'MIXED', 'HOST']);
+  });
+
+  it('should group octets and nibbles with decimal and hex values', () => {
+    const v4 = bitView(0xc0a80100n, 24, 32);
+    expect(v4.octets.map((o) => o.decimal)).toEqual(['192', '168', '1', '0']);
+    expect(v4.octets.map((o) => o.hex)).toEqual(['c0', 'a8', '01', '00']);
+    expect(v4.nibbles).toHaveLength(8);
+    expect(v4.nibbles[0]).toMatchObject({ start: 0, value: 12, hex: 'c' });
+
+    const v6 = bitView(0x20010db8n << 96n, 32, 128);
+    expect(v6.version).toBe(6);
+    expect(v6.nibbles).toHaveLength(32);
+    expect(v6.nibbles.slice(0, 8).map((n) => n.hex).join('')).toBe('20010db8');
+    expect(v6.octets).toHaveLength(16);
+    expect(v6.octets[4]).toMatchObject({ start: 32, role: 'HOST', value: 0 });
+  });
+
+  it('should reject invalid prefixes and path lengths', () => {
+    expect(() => bitView(0n, 33, 32)).toThrow('Invalid prefix');
+    expect(() => bitView(0n, 8, 32, 9)).toThrow('Invalid path length');
+  });
+});
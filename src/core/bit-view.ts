@@ -0,0 +1,88 @@
+/**
+ * Structured bit views: per-bit roles with nibble and octet groupings
+ */
+
+import type { IpVersion } from './types';
+import { assertIntegerInRange } from './utils';
+
+/**
+ * Role of a bit
+ *  - NETWORK: fixed by the base prefix
+ *  - PATH: network bits chosen below the base (the tree path)
+ *  - HOST: bits after the prefix
+ */
+export type BitRole = 'NETWORK' | 'PATH' | 'HOST';
+
+export type BitCell = {
+  /** Position from the most significant bit (0). */
+  index: number;
+  value: 0 | 1;
+  role: BitRole;
+};
+
+export type BitGroup = {
+  /** Index of the group's first bit. */
+  start: number;
+  cells: BitCell[];
+  value: number;
+  hex: string;
+  decimal: string;
+  /** Shared role of every bit, or MIXED when the group straddles a boundary. */
+  role: BitRole | 'MIXED';
+};
+
+export type BitView = {
+  version: IpVersion;
+  bits: 32 | 128;
+  prefix: number;
+  /** First path bit; equals `prefix` when there are no path bits. */
+  pathStart: number;
+  cells: BitCell[];
+  nibbles: BitGroup[];
+  octets: BitGroup[];
+};
+
+function groupCells(cells: BitCell[], size: number): BitGroup[] {
+  const groups: BitGroup[] = [];
+  for (let start = 0; start < cells.length; start += size) {
+    const group = cells.slice(start, start + size);
+    const value = group.reduce((acc, cell) => acc * 2 + cell.value, 0);
+    const roles = new Set(group.map((cell) => cell.role));
+    groups.push({
+      start,
+      cells: group,
+      value,
+      hex: value.toString(16).padStart(size / 4, '0'),
+      decimal: value.toString(),
+      role: roles.size === 1 ? group[0]!.role : 'MIXED',
+    });
+  }
+  return groups;
+}
+
+/**
+ * Build a bit view of an address or network
+ * `pathLength` marks that many bits before the prefix as PATH bits (e.g. a tree node's path).
+ */
+export function bitView(value: bigint, prefix: number, bits: 32 | 128, pathLength: number = 0): BitView {
+  assertIntegerInRange(prefix, 0, bits, `Invalid prefix (expected 0..${bits})`);
+  assertIntegerInRange(pathLength, 0, prefix, `Invalid path length (expected 0..${prefix})`);
+
+  const pathStart = prefix - pathLength;
+  const raw = value.toString(2).padStart(bits, '0');
+  const cells: BitCell[] = Array.from(raw, (digit, index) => ({
+    index,
+    value: digit === '1' ? 1 : 0,
+    role: index < pathStart ? 'NETWORK' : index < prefix ? 'PATH' : 'HOST',
+  }));
+
+  return {
+    version: bits === 128 ? 6 : 4,
+    bits,
+    prefix,
+    pathStart,
+    cells,
+    nibbles: groupCells(cells, 4),
+    octets: groupCells(cells, 8),
+  };
+}
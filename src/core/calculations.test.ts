@@ -52,6 +52,15 @@ describe('Subnet metadata (FR-010, FR-011)', () => {
     expect(meta.usableCount).toBe(1n << 64n);
   });
 
+  it('should apply address format options to every address', () => {
+    const cidr = parseCidr('2001:db8::/64');
+    const meta = subnetMeta(cidr.network, cidr.prefix, cidr.version, cidr.bits, { notation: 'padded', uppercase: true });
+
+    expect(meta.cidr).toBe('2001:0DB8:0000:0000:0000:0000:0000:0000/64');
+    expect(meta.netmask).toBe('FFFF:FFFF:FFFF:FFFF:0000:0000:0000:0000');
+    expect(meta.lastUsable).toBe('2001:0DB8:0000:0000:FFFF:FFFF:FFFF:FFFF');
+  });
+
   it('should handle IPv6 /128 edge case (FR-090, FR-092)', () => {
     const cidr = parseCidr('2001:db8::1/128');
     const meta = subnetMeta(cidr.network, cidr.prefix, cidr.version, cidr.bits);
@@ -87,6 +96,32 @@ describe('Format count (FR-010, FR-011)', () => {
     const result = formatCount(huge);
     expect(result).toContain('bigint');
   });
+
+  it('should use the configured locale', () => {
+    expect(formatCount(1234567n, 32, 11, { locale: 'de-DE' })).toBe('1.234.567');
+    expect(formatCount(1n << 64n, 128, 64, { locale: 'de-DE', notation: 'exact' })).toBe('18.446.744.073.709.551.616');
+    expect(formatCount(1n << 64n, 128, 64, { notation: 'exact' })).toBe('18,446,744,073,709,551,616');
+  });
+
+  it('should format compact counts', () => {
+    expect(formatCount(1n << 32n, 32, 0, { notation: 'compact' })).toBe('4.3B');
+    expect(formatCount(1n << 64n, 128, 64, { notation: 'compact', compactDisplay: 'long' })).toBe('18.4 quintillion');
+    expect(formatCount(1n << 128n, 128, 0, { notation: 'compact' })).toBe('340.3Ud');
+    expect(formatCount(999_960n, undefined, undefined, { notation: 'compact' })).toBe('1M');
+    expect(formatCount(254n, 32, 24, { notation: 'compact' })).toBe('254');
+    expect(formatCount(1500n, 32, 21, { notation: 'compact', locale: 'de-DE' })).toBe('1,5K');
+  });
+
+  it('should count IPv6 space in blocks', () => {
+    const size56 = 1n << 72n;
+    expect(formatCount(size56, 128, 56, { unitPrefix: 64 })).toBe('256 × /64');
+    expect(formatCount(1n << 80n, 128, 48, { unitPrefix: 64, unitStyle: 'plural' })).toBe('65,536 /64s');
+    expect(formatCount(1n << 64n, 128, 64, { unitPrefix: 64, unitStyle: 'plural' })).toBe('1 /64');
+    expect(formatCount(1n << 96n, 128, 32, { unitPrefix: 64, notation: 'compact' })).toBe('4.3B × /64');
+    // Smaller than one block: plain count
+    expect(formatCount(256n, 128, 120, { unitPrefix: 64 })).toBe('256');
+    expect(formatCount(1n << 96n, 128, 32, { unitPrefix: 64 })).toBe('4,294,967,296 × /64');
+  });
 });
 
 describe('Binary representation (FR-013)', () => {
@@ -128,8 +163,13 @@ describe('Reverse DNS zones (FR-012)', () => {
     expect(zone).toBe('1.168.192.in-addr.arpa');
   });
 
+  it('should name the RFC 2317 child zone for /25 to /31', () => {
+    expect(reverseDnsZone(0xc0a80100n, 25, 4, 32)).toBe('0/25.1.168.192.in-addr.arpa');
+    expect(reverseDnsZone(0xc0a80140n, 26, 4, 32)).toBe('64/26.1.168.192.in-addr.arpa');
+  });
+
   it('should warn about non-standard IPv4 boundaries', () => {
-    const zone = reverseDnsZone(0xc0a80100n, 25, 4, 32);
+    const zone = reverseDnsZone(0xc0a80000n, 20, 4, 32);
     expect(zone).toContain('Non-standard');
     expect(zone).toContain('classless delegation');
   });
@@ -2,20 +2,55 @@
  * Core subnet calculations (FR-010 to FR-013)
  */
 
-import type { IpVersion, SubnetMeta } from './types';
-import { formatAddress, formatCidr, maskFromPrefix, wildcardFromPrefix } from './parser';
+import type { AddressFormatOptions, CountFormatOptions, IpVersion, ReservationProfile, SubnetMeta } from './types';
+import { classifyPrefix, formatAddress, formatCidr, maskFromPrefix, prefixFormat, wildcardFromPrefix } from './parser';
+import { classlessZoneName } from './reverse-dns';
+import { reservedAddresses } from './reservations';
 import { assertIntegerInRange } from './utils';
 
 const MAX_SAFE_BIGINT = BigInt(Number.MAX_SAFE_INTEGER);
 
+/**
+ * Usable host range of a subnet (FR-010)
+ * IPv4 excludes network and broadcast except /31 (RFC 3021) and /32; IPv6 uses every address.
+ * A reservation profile replaces those rules; `first` > `last` when nothing is left.
+ */
+export function usableRange(
+  network: bigint,
+  prefix: number,
+  version: IpVersion,
+  bits: 32 | 128,
+  profile?: ReservationProfile
+): { first: bigint; last: bigint; count: bigint } {
+  const last = network | wildcardFromPrefix(prefix, bits);
+  if (!profile) {
+    if (version === 4 && prefix < 31) {
+      return { first: network + 1n, last: last - 1n, count: last - network - 1n };
+    }
+    return { first: network, last, count: last - network + 1n };
+  }
+
+  const reserved = new Set(reservedAddresses(network, prefix, version, bits, profile).map((r) => r.value));
+  let first = network;
+  let lastUsable = last;
+  while (first <= last && reserved.has(first)) first++;
+  while (lastUsable >= first && reserved.has(lastUsable)) lastUsable--;
+  return { first, last: lastUsable, count: last - network + 1n - BigInt(reserved.size) };
+}
+
 /**
  * Compute comprehensive subnet metadata (FR-010, FR-011)
+ * `format` controls how every address string is written (defaults to compressed); nibble
+ * notation only applies to addresses, never to the CIDR, netmask or wildcard.
+ * `profile` selects provider/site address reservations for the usable range.
  */
 export function subnetMeta(
   network: bigint,
   prefix: number,
   version: IpVersion,
-  bits: 32 | 128
+  bits: 32 | 128,
+  format?: AddressFormatOptions,
+  profile?: ReservationProfile
 ): SubnetMeta {
   assertIntegerInRange(prefix, 0, bits, `Invalid prefix (expected 0..${bits})`);
 
@@ -24,63 +59,105 @@ export function subnetMeta(
   const last = network | wildcard;
 
   const addressCount = 1n << BigInt(bits - prefix);
+  const { first: firstUsable, last: lastUsable, count: usableCount } = usableRange(network, prefix, version, bits, profile);
 
-  let usableCount: bigint;
-  let firstUsable: bigint | null;
-  let lastUsable: bigint | null;
-
-  if (version === 4) {
-    if (prefix === 32) {
-      usableCount = 1n;
-      firstUsable = network;
-      lastUsable = network;
-    } else if (prefix === 31) {
-      // RFC 3021 point-to-point: both addresses usable
-      usableCount = 2n;
-      firstUsable = network;
-      lastUsable = last;
-    } else {
-      usableCount = addressCount - 2n;
-      firstUsable = network + 1n;
-      lastUsable = last - 1n;
-    }
-  } else {
-    // IPv6: treat all addresses as usable.
-    usableCount = addressCount;
-    firstUsable = network;
-    lastUsable = last;
-  }
+  const fmt = (n: bigint) => formatAddress(version, n, format);
+  const maskFmt = (n: bigint) => formatAddress(version, n, prefixFormat(format));
 
   return {
     version,
     bits,
-    cidr: formatCidr(version, network, prefix),
-    network: formatAddress(version, network),
+    cidr: formatCidr(version, network, prefix, prefixFormat(format)),
+    network: fmt(network),
     prefix,
-    netmask: formatAddress(version, mask),
-    wildcard: formatAddress(version, wildcard),
-    broadcast: version === 4 ? formatAddress(version, last) : undefined,
-    lastAddress: formatAddress(version, last),
+    netmask: maskFmt(mask),
+    wildcard: maskFmt(wildcard),
+    broadcast: version === 4 ? fmt(last) : undefined,
+    lastAddress: fmt(last),
     addressCount,
     usableCount,
-    firstUsable: firstUsable == null ? null : formatAddress(version, firstUsable),
-    lastUsable: lastUsable == null ? null : formatAddress(version, lastUsable),
+    firstUsable: usableCount > 0n ? fmt(firstUsable) : null,
+    lastUsable: usableCount > 0n ? fmt(lastUsable) : null,
+    reserved: reservedAddresses(network, prefix, version, bits, profile).map(({ value, reason }) => ({
+      address: fmt(value),
+      reason,
+    })),
+    ...(profile && { reservationProfile: profile.name }),
+    classification: classifyPrefix({ version, bits, network, prefix }),
   };
 }
 
+const DEFAULT_COUNT_LOCALE = 'en-GB';
+
+// Short-scale names; CLDR compact patterns stop at trillions, IPv6 counts reach undecillions
+const COUNT_SCALES: Array<{ short: string; long: string }> = [
+  { short: '', long: '' },
+  { short: 'K', long: 'thousand' },
+  { short: 'M', long: 'million' },
+  { short: 'B', long: 'billion' },
+  { short: 'T', long: 'trillion' },
+  { short: 'Qa', long: 'quadrillion' },
+  { short: 'Qi', long: 'quintillion' },
+  { short: 'Sx', long: 'sextillion' },
+  { short: 'Sp', long: 'septillion' },
+  { short: 'Oc', long: 'octillion' },
+  { short: 'No', long: 'nonillion' },
+  { short: 'Dc', long: 'decillion' },
+  { short: 'Ud', long: 'undecillion' },
+];
+
+function formatCompactCount(count: bigint, locale: string, display: 'short' | 'long'): string {
+  let scale = Math.min(Math.floor((count.toString().length - 1) / 3), COUNT_SCALES.length - 1);
+  const round = (k: number) => {
+    const divisor = 10n ** BigInt(3 * k);
+    return Number((count * 10n + divisor / 2n) / divisor) / 10;
+  };
+
+  // Rounding can carry into the next scale (999,960 -> 1,000K -> 1M)
+  let mantissa = round(scale);
+  if (mantissa >= 1000 && scale < COUNT_SCALES.length - 1) mantissa = round(++scale);
+
+  const number = new Intl.NumberFormat(locale, { maximumFractionDigits: 1 }).format(mantissa);
+  const name = COUNT_SCALES[scale]!;
+  if (scale === 0) return number;
+  return display === 'long' ? `${number} ${name.long}` : `${number}${name.short}`;
+}
+
+function formatPlainCount(count: bigint, bits: number | undefined, prefix: number | undefined, options: CountFormatOptions): string {
+  const locale = options.locale ?? DEFAULT_COUNT_LOCALE;
+
+  switch (options.notation ?? 'standard') {
+    case 'compact':
+      return formatCompactCount(count, locale, options.compactDisplay ?? 'short');
+    case 'exact':
+      return new Intl.NumberFormat(locale).format(count);
+    default:
+      if (count <= MAX_SAFE_BIGINT) return Number(count).toLocaleString(locale);
+      if (bits != null && prefix != null) {
+        const exp = bits - prefix;
+        const digits = count.toString().length;
+        return `2^${exp} (${digits} digits)`;
+      }
+      return `${count.toString()} (bigint)`;
+  }
+}
+
 /**
  * Format count with locale or exponential notation for large numbers
+ * `options` select the locale, compact or exact notation, and block units such as "256 × /64".
  */
-export function formatCount(count: bigint, bits?: number, prefix?: number): string {
-  if (count <= MAX_SAFE_BIGINT) return Number(count).toLocaleString('en-GB');
-
-  if (bits != null && prefix != null) {
-    const exp = bits - prefix;
-    const digits = count.toString().length;
-    return `2^${exp} (${digits} digits)`;
+export function formatCount(count: bigint, bits?: number, prefix?: number, options: CountFormatOptions = {}): string {
+  const { unitPrefix } = options;
+  if (unitPrefix != null && bits != null && prefix != null && prefix <= unitPrefix && unitPrefix <= bits) {
+    const unitSize = 1n << BigInt(bits - unitPrefix);
+    if (count % unitSize === 0n) {
+      const units = count / unitSize;
+      const blocks = formatPlainCount(units, unitPrefix, prefix, options);
+      return options.unitStyle === 'plural' ? `${blocks} /${unitPrefix}${units === 1n ? '' : 's'}` : `${blocks} × /${unitPrefix}`;
+    }
   }
 
-  return `${count.toString()} (bigint)`;
+  return formatPlainCount(count, bits, prefix, options);
 }
 
 /**
@@ -125,11 +202,15 @@ export function binaryWithPrefix(
 
 /**
  * Compute reverse DNS zone boundaries (FR-012)
+ * See reverseDnsDelegation for the records needed to delegate non-standard boundaries.
  */
 export function reverseDnsZone(network: bigint, prefix: number, version: IpVersion, bits: 32 | 128): string {
   if (version === 4) {
     // IPv4 reverse DNS: in-addr.arpa
-    // Only /8, /16, /24 boundaries are standard
+    // Only /8, /16, /24 boundaries are standard; /25 to /31 use an RFC 2317 child zone
+    if (prefix > 24 && prefix < 32) {
+      return classlessZoneName(network, prefix);
+    }
     if (prefix % 8 !== 0) {
       return `Non-standard boundary (/${prefix}) - classless delegation required`;
     }
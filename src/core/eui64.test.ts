@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { parseMac, formatMac, macToInterfaceId, slaacAddress, isEui64Address, eui64ToMac } from './eui64';
+import { parseCidr } from './parser';
+
+describe('EUI-64 / SLAAC', () => {
+  it('should parse common MAC notations', () => {
+    const expected = 0x001a2b3c4d5en;
+    expect(parseMac('00:1a:2b:3c:4d:5e')).toBe(expected);
+    expect(parseMac('00-1A-2B-3C-4D-5E')).toBe(expected);
+    expect(parseMac('001a.2b3c.4d5e')).toBe(expected);
+    expect(parseMac('001a2b3c4d5e')).toBe(expected);
+    expect(formatMac(expected)).toBe('00:1a:2b:3c:4d:5e');
+    expect(() => parseMac('00:1a:2b:3c:4d')).toThrow('Invalid MAC');
+    expect(() => parseMac('00:1a-2b:3c:4d:5e')).toThrow('Invalid MAC');
+  });
+
+  it('should derive the modified EUI-64 interface identifier', () => {
+    expect(macToInterfaceId('00:1a:2b:3c:4d:5e')).toBe('021a:2bff:fe3c:4d5e');
+    // Locally administered MACs have the U/L bit cleared instead
+    expect(macToInterfaceId('02:00:5e:10:00:01')).toBe('0000:5eff:fe10:0001');
+  });
+
+  it('should combine with a /64 to predict the SLAAC address', () => {
+    expect(slaacAddress(parseCidr('2001:db8:1:2::/64'), '00:1a:2b:3c:4d:5e')).toBe('2001:db8:1:2:21a:2bff:fe3c:4d5e');
+    expect(slaacAddress(parseCidr('fe80::/64'), '001a.2b3c.4d5e')).toBe('fe80::21a:2bff:fe3c:4d5e');
+    expect(() => slaacAddress(parseCidr('2001:db8::/48'), '00:1a:2b:3c:4d:5e')).toThrow('/64');
+    expect(() => slaacAddress(parseCidr('10.0.0.0/24'), '00:1a:2b:3c:4d:5e')).toThrow('/64');
+  });
+
+  it('should detect EUI-64 addresses and recover the MAC', () => {
+    expect(isEui64Address('2001:db8:1:2:21a:2bff:fe3c:4d5e')).toBe(true);
+    expect(isEui64Address('2001:db8::1')).toBe(false);
+    expect(isEui64Address('not an address')).toBe(false);
+    expect(eui64ToMac('fe80::21a:2bff:fe3c:4d5e')).toBe('00:1a:2b:3c:4d:5e');
+    expect(eui64ToMac(slaacAddress(parseCidr('2001:db8::/64'), '02:00:5e:10:00:01'))).toBe('02:00:5e:10:00:01');
+    expect(() => eui64ToMac('2001:db8::1')).toThrow('Not an EUI-64 address');
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Modified EUI-64 interface identifiers and SLAAC addresses (RFC 4291 appendix A, RFC 4862)
+ */
+
+import type { NormalisedCidr } from './types';
+import { bigIntToIpv6, ipv6ToBigInt } from './parser';
+
+const MAC_PATTERNS: RegExp[] = [
+  /^[0-9a-f]{2}([:-])[0-9a-f]{2}(?:\1[0-9a-f]{2}){4}$/i, // 00:1a:2b:3c:4d:5e / 00-1A-2B-3C-4D-5E
+  /^[0-9a-f]{4}\.[0-9a-f]{4}\.[0-9a-f]{4}$/i, // 001a.2b3c.4d5e (Cisco)
+  /^[0-9a-f]{12}$/i, // 001a2b3c4d5e
+];
+
+// ff:fe inserted between the OUI and the NIC-specific half
+const EUI64_FILLER = 0xfffen;
+// Universal/local bit, inverted in the modified EUI-64 format
+const UNIVERSAL_LOCAL_BIT = 1n << 57n;
+const INTERFACE_ID_MASK = (1n << 64n) - 1n;
+
+/**
+ * Parse a 48-bit MAC address (colon, hyphen, Cisco dotted or bare hex)
+ * @throws Error if the MAC is invalid
+ */
+export function parseMac(mac: string): bigint {
+  const trimmed = mac.trim();
+  if (!MAC_PATTERNS.some((pattern) => pattern.test(trimmed))) {
+    throw new Error(`Invalid MAC address '${mac}'`);
+  }
+  return BigInt(`0x${trimmed.replace(/[:.-]/g, '')}`);
+}
+
+/**
+ * Format a 48-bit MAC address as lower-case colon-separated octets
+ */
+export function formatMac(n: bigint): string {
+  const hex = n.toString(16).padStart(12, '0');
+  return hex.match(/../g)!.join(':');
+}
+
+function interfaceIdFromMac(mac: bigint): bigint {
+  const eui64 = ((mac >> 24n) << 40n) | (EUI64_FILLER << 24n) | (mac & 0xffffffn);
+  return eui64 ^ UNIVERSAL_LOCAL_BIT;
+}
+
+/**
+ * Modified EUI-64 interface identifier for a MAC, e.g. 00:1a:2b:3c:4d:5e -> 021a:2bff:fe3c:4d5e
+ */
+export function macToInterfaceId(mac: string): string {
+  const hex = interfaceIdFromMac(parseMac(mac)).toString(16).padStart(16, '0');
+  return hex.match(/.{4}/g)!.join(':');
+}
+
+/**
+ * SLAAC address for a MAC within an IPv6 /64
+ */
+export function slaacAddress(prefix: NormalisedCidr, mac: string): string {
+  if (prefix.version !== 6 || prefix.prefix !== 64) {
+    throw new Error('SLAAC requires an IPv6 /64 prefix');
+  }
+  return bigIntToIpv6(prefix.network | interfaceIdFromMac(parseMac(mac)));
+}
+
+/**
+ * Whether an address carries a modified EUI-64 interface identifier (ff:fe in the middle)
+ * Returns false for invalid addresses.
+ */
+export function isEui64Address(ipv6: string): boolean {
+  try {
+    return ((ipv6ToBigInt(ipv6) >> 24n) & 0xffffn) === EUI64_FILLER;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Recover the MAC address from an EUI-64 based IPv6 address
+ */
+export function eui64ToMac(ipv6: string): string {
+  if (!isEui64Address(ipv6)) {
+    throw new Error(`Not an EUI-64 address (no ff:fe in the interface identifier): ${ipv6}`);
+  }
+  const eui64 = (ipv6ToBigInt(ipv6) & INTERFACE_ID_MASK) ^ UNIVERSAL_LOCAL_BIT;
+  return formatMac(((eui64 >> 40n) << 24n) | (eui64 & 0xffffffn));
+}
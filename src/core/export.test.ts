@@ -6,8 +6,11 @@ import {
   exportToMarkdown,
   exportDesignModel,
   importDesignModel,
-  exportToTerraform
+  exportToTerraform,
+  buildZoneFiles,
+  exportToZoneFile
 } from './export';
+import { RESERVATION_PROFILES } from './reservations';
 
 describe('Export/Import (FR-070 to FR-073)', () => {
   const testCidrs = [
@@ -52,6 +55,31 @@ describe('Export/Import (FR-070 to FR-073)', () => {
     });
   });
 
+  describe('address format options', () => {
+    const v6 = [parseCidr('2001:db8::/64')];
+    const options = { addressFormat: { notation: 'padded' as const } };
+
+    it('should apply to every exporter', () => {
+      const padded = '2001:0db8:0000:0000:0000:0000:0000:0000/64';
+      expect(JSON.parse(exportToJson(v6, undefined, options))[0].cidr).toBe(padded);
+      expect(exportToCsv(v6, options).split('\n')[1]).toContain(padded);
+      expect(exportToMarkdown(v6, 'Plan', options)).toContain(`| ${padded} |`);
+      expect(exportToTerraform(v6, 'subnets', options)).toContain(`cidr = "${padded}"`);
+    });
+
+    it('should keep CIDR and netmask fields out of nibble notation', () => {
+      const nibble = { addressFormat: { notation: 'nibble' as const } };
+      const [row] = JSON.parse(exportToJson([parseCidr('10.1.2.0/24')], undefined, nibble));
+      expect(row).toMatchObject({ cidr: '10.1.2.0/24', network: '0.2.1.10', netmask: '255.255.255.0' });
+      expect(exportToTerraform(v6, 'subnets', nibble)).toContain('cidr = "2001:db8::/64"');
+    });
+
+    it('should still look up metadata by canonical CIDR', () => {
+      const metadata = new Map([['2001:db8::/64', { name: 'LAN' }]]);
+      expect(JSON.parse(exportToJson(v6, metadata, options))[0].metadata).toEqual({ name: 'LAN' });
+    });
+  });
+
   describe('exportToMarkdown', () => {
     it('should export subnets to Markdown table', () => {
       const md = exportToMarkdown(testCidrs, 'Test Plan');
@@ -60,6 +88,15 @@ describe('Export/Import (FR-070 to FR-073)', () => {
       expect(md).toContain('| CIDR | Network | Netmask |');
       expect(md).toContain('| 192.168.0.0/24 |');
     });
+
+    it('should format counts when requested', () => {
+      const md = exportToMarkdown([parseCidr('2001:db8::/48'), parseCidr('10.0.0.0/16')], 'Plan', {
+        countFormat: { notation: 'compact', unitPrefix: 64 },
+      });
+      expect(md).toContain('| 65.5K × /64 | 65.5K × /64 |');
+      expect(md).toContain('| 65.5K | 65.5K |');
+      expect(exportToMarkdown([parseCidr('10.0.0.0/16')])).toContain('| 65536 | 65534 |');
+    });
   });
 
   describe('exportDesignModel', () => {
@@ -109,6 +146,13 @@ describe('Export/Import (FR-070 to FR-073)', () => {
       expect(model.subnets[0]!.cidr).toBe('192.168.0.0/24');
     });
 
+    it('should reject host bits when strict', () => {
+      const json = JSON.stringify({ version: '1.0', subnets: [{ cidr: '10.0.0.5/24' }] });
+
+      expect(importDesignModel(json).subnets).toHaveLength(1);
+      expect(() => importDesignModel(json, { hostBits: 'REJECT' })).toThrow('Host bits set');
+    });
+
     it('should reject invalid version', () => {
       const json = JSON.stringify({ version: '2.0', subnets: [] });
       
@@ -138,6 +182,14 @@ describe('Export/Import (FR-070 to FR-073)', () => {
       expect(imported.subnets[0]!.metadata).toEqual({ name: 'DMZ', vlan: 100 });
       expect(imported.notes).toBe('Round-trip test');
     });
+
+    it('should stay canonical whatever the address format elsewhere', () => {
+      const exported = exportDesignModel([{ cidr: parseCidr('10.1.2.0/24'), children: [parseCidr('10.1.2.0/25')] }]);
+      const imported = importDesignModel(exported);
+
+      expect(imported.subnets[0]!.cidr).toBe('10.1.2.0/24');
+      expect(imported.subnets[0]!.children).toEqual([{ cidr: '10.1.2.0/25' }]);
+    });
   });
 
   describe('exportToTerraform', () => {
@@ -151,5 +203,81 @@ describe('Export/Import (FR-070 to FR-073)', () => {
       expect(tf).toContain('{ cidr = "10.0.0.0/16" }');
     });
   });
+
+  describe('reservation profiles', () => {
+    it('should apply the profile to usable ranges and list reservations in JSON', () => {
+      const options = { reservationProfile: RESERVATION_PROFILES.azure };
+      const [json] = JSON.parse(exportToJson([parseCidr('10.1.0.0/28')], undefined, options));
+      expect(json).toMatchObject({ firstUsable: '10.1.0.4', usableCount: '11', reservationProfile: 'Azure' });
+      expect(json.reserved).toHaveLength(5);
+      expect(exportToCsv([parseCidr('10.1.0.0/28')], options)).toContain('10.1.0.4,10.1.0.14,16,11');
+      expect(JSON.parse(exportToJson([parseCidr('10.1.0.0/28')]))[0]).not.toHaveProperty('reserved');
+    });
+
+    it('should skip reserved addresses in zone files', () => {
+      const content = exportToZoneFile([{ cidr: parseCidr('192.0.2.0/29') }], {
+        nameservers: ['ns1.example.com'],
+        reservationProfile: RESERVATION_PROFILES.gateway,
+      });
+      expect(content).not.toContain('1 IN PTR');
+      expect(content).toContain('2 IN PTR ip-192-0-2-2.');
+      expect(content).toContain('6 IN PTR ip-192-0-2-6.');
+    });
+  });
+
+  describe('zone files', () => {
+    const nameservers = ['ns1.example.com', 'ns2.example.com.'];
+
+    it('should group leaf subnets into covering reverse zones', () => {
+      const files = buildZoneFiles(
+        [{ cidr: parseCidr('192.0.2.64/30') }, { cidr: parseCidr('192.0.2.0/31') }, { cidr: parseCidr('198.51.100.0/24') }],
+        { nameservers, hostnamePattern: 'host-{ip}.example.com', maxRecordsPerSubnet: 16 }
+      );
+
+      expect(files.map((f) => f.zone)).toEqual(['2.0.192.in-addr.arpa', '100.51.198.in-addr.arpa']);
+      const [first, second] = files;
+      expect(first!.content).toContain('$ORIGIN 2.0.192.in-addr.arpa.');
+      expect(first!.content).toContain('@ IN SOA ns1.example.com. hostmaster.example.com. (');
+      expect(first!.content).toContain('@ IN NS ns2.example.com.');
+      expect(first!.content).toContain('0 IN PTR host-192-0-2-0.example.com.');
+      expect(first!.content).toContain('65 IN PTR host-192-0-2-65.example.com.');
+      expect(first!.content).not.toContain('64 IN PTR');
+      expect(first!.content.indexOf('192.0.2.0/31')).toBeLessThan(first!.content.indexOf('192.0.2.64/30'));
+      expect(second!.content).toContain('records omitted');
+    });
+
+    it('should emit forward stubs and nibble zones', () => {
+      const files = buildZoneFiles(
+        [{ cidr: parseCidr('2001:db8::/126'), hostnamePattern: 'v6-{host}' }, { cidr: parseCidr('192.0.2.8/30') }],
+        { nameservers, forwardZone: 'example.com', soa: { contact: 'dns@example.net', serial: 2024060101 }, ttl: 600 }
+      );
+
+      expect(files.map((f) => [f.zone, f.kind])).toEqual([
+        ['2.0.192.in-addr.arpa', 'REVERSE'],
+        ['0.0.0.0.0.0.0.0.8.b.d.0.1.0.0.2.ip6.arpa', 'REVERSE'],
+        ['example.com', 'FORWARD'],
+      ]);
+      expect(files[0]!.content).toContain('9 IN PTR ip-192-0-2-9.example.com.');
+      expect(files[1]!.content).toContain('3.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0 IN PTR v6-3.example.com.');
+      const forward = files[2]!.content;
+      expect(forward).toContain('$TTL 600');
+      expect(forward).toContain('dns.example.net.');
+      expect(forward).toContain('2024060101 ; serial');
+      expect(forward).toContain('ip-192-0-2-10 IN A 192.0.2.10');
+      expect(forward).toContain('v6-1 IN AAAA 2001:db8::1');
+    });
+
+    it('should render a single document and validate input', () => {
+      const doc = exportToZoneFile([{ cidr: parseCidr('10.1.2.0/29') }], { nameservers });
+      expect(doc.startsWith('; ---- 2.1.10.in-addr.arpa (reverse) ----')).toBe(true);
+      expect(() => exportToZoneFile([{ cidr: parseCidr('10.1.2.0/29') }], { nameservers: [] })).toThrow('name server');
+      expect(() => exportToZoneFile([{ cidr: parseCidr('8.0.0.0/7') }], { nameservers })).toThrow('several reverse zones');
+      const escaped = exportToZoneFile([{ cidr: parseCidr('10.1.2.0/29') }], { nameservers, soa: { contact: 'first.last@example.com' } });
+      expect(escaped).toContain('@ IN SOA ns1.example.com. first\\.last.example.com. (');
+      for (const serial of [-1, 1.5, 2 ** 32]) {
+        expect(() => exportToZoneFile([{ cidr: parseCidr('10.1.2.0/29') }], { nameservers, soa: { serial } })).toThrow('Invalid SOA serial');
+      }
+    });
+  });
 });
 
@@ -2,9 +2,13 @@
  * Export/Import functionality (FR-070 to FR-073)
  */
 
-import type { NormalisedCidr } from './types';
-import { formatCidr, parseCidr } from './parser';
-import { subnetMeta } from './calculations';
+import type { AddressFormatOptions, CountFormatOptions, NormalisedCidr, ReservationProfile } from './types';
+import { bigIntToIpv4, formatAddress, formatCidr, parseCidrSafe, prefixFormat } from './parser';
+import type { CidrParseOptions } from './parser';
+import { formatCount, reverseDnsZone, subnetMeta, usableRange } from './calculations';
+import { ptrName } from './reverse-dns';
+import { reservedAddresses } from './reservations';
+import { assertIntegerInRange } from './utils';
 
 /**
  * Subnet data for export
@@ -22,6 +26,18 @@ export type SubnetExportData = {
   metadata?: Record<string, unknown>;
 };
 
+/**
+ * Options shared by the exporters
+ */
+export type ExportOptions = {
+  /** How addresses are written (compressed, expanded, padded, uppercase...). */
+  addressFormat?: AddressFormatOptions;
+  /** How address counts are written in human-readable formats (Markdown); raw digits when unset. */
+  countFormat?: CountFormatOptions;
+  /** Provider/site address reservations for usable ranges and counts; JSON also lists them. */
+  reservationProfile?: ReservationProfile;
+};
+
 /**
  * Design model for export/import
  */
@@ -39,19 +55,25 @@ export type DesignModel = {
 /**
  * Export subnets to JSON (FR-070)
  */
-export function exportToJson(cidrs: NormalisedCidr[], metadata?: Map<string, Record<string, unknown>>): string {
+export function exportToJson(
+  cidrs: NormalisedCidr[],
+  metadata?: Map<string, Record<string, unknown>>,
+  options: ExportOptions = {}
+): string {
   const data = cidrs.map((cidr) => {
-    const meta = subnetMeta(cidr.network, cidr.prefix, cidr.version, cidr.bits);
+    const meta = subnetMeta(cidr.network, cidr.prefix, cidr.version, cidr.bits, options.addressFormat, options.reservationProfile);
+    // Metadata is keyed by the canonical form regardless of output format
     const cidrStr = formatCidr(cidr.version, cidr.network, cidr.prefix);
 
     return {
-      cidr: cidrStr,
+      cidr: meta.cidr,
       network: meta.network,
       netmask: meta.netmask,
       firstUsable: meta.firstUsable,
       lastUsable: meta.lastUsable,
       addressCount: meta.addressCount.toString(),
       usableCount: meta.usableCount.toString(),
+      ...(options.reservationProfile && { reservationProfile: meta.reservationProfile, reserved: meta.reserved }),
       metadata: metadata?.get(cidrStr)
     };
   });
@@ -62,12 +84,12 @@ export function exportToJson(cidrs: NormalisedCidr[], metadata?: Map<string, Rec
 /**
  * Export subnets to CSV (FR-070)
  */
-export function exportToCsv(cidrs: NormalisedCidr[]): string {
+export function exportToCsv(cidrs: NormalisedCidr[], options: ExportOptions = {}): string {
   const headers = ['CIDR', 'Network', 'Netmask', 'First Usable', 'Last Usable', 'Address Count', 'Usable Count'];
   const rows = cidrs.map((cidr) => {
-    const meta = subnetMeta(cidr.network, cidr.prefix, cidr.version, cidr.bits);
+    const meta = subnetMeta(cidr.network, cidr.prefix, cidr.version, cidr.bits, options.addressFormat, options.reservationProfile);
     return [
-      formatCidr(cidr.version, cidr.network, cidr.prefix),
+      meta.cidr,
       meta.network,
       meta.netmask,
       meta.firstUsable || 'n/a',
@@ -83,7 +105,7 @@ export function exportToCsv(cidrs: NormalisedCidr[]): string {
 /**
  * Export subnets to Markdown (FR-070)
  */
-export function exportToMarkdown(cidrs: NormalisedCidr[], title = 'Subnet Plan'): string {
+export function exportToMarkdown(cidrs: NormalisedCidr[], title = 'Subnet Plan', options: ExportOptions = {}): string {
   const lines = [
     `# ${title}`,
     '',
@@ -92,9 +114,11 @@ export function exportToMarkdown(cidrs: NormalisedCidr[], title = 'Subnet Plan')
   ];
 
   for (const cidr of cidrs) {
-    const meta = subnetMeta(cidr.network, cidr.prefix, cidr.version, cidr.bits);
+    const meta = subnetMeta(cidr.network, cidr.prefix, cidr.version, cidr.bits, options.addressFormat, options.reservationProfile);
+    const count = (n: bigint) =>
+      options.countFormat ? formatCount(n, meta.bits, meta.prefix, options.countFormat) : n.toString();
     lines.push(
-      `| ${formatCidr(cidr.version, cidr.network, cidr.prefix)} | ${meta.network} | ${meta.netmask} | ${meta.firstUsable || 'n/a'} | ${meta.lastUsable || 'n/a'} | ${meta.addressCount} | ${meta.usableCount} |`
+      `| ${meta.cidr} | ${meta.network} | ${meta.netmask} | ${meta.firstUsable || 'n/a'} | ${meta.lastUsable || 'n/a'} | ${count(meta.addressCount)} | ${count(meta.usableCount)} |`
     );
   }
 
@@ -103,18 +127,20 @@ export function exportToMarkdown(cidrs: NormalisedCidr[], title = 'Subnet Plan')
 
 /**
  * Export design model (FR-071)
+ * CIDRs are always canonical so the model imports back unchanged.
  */
 export function exportDesignModel(
   subnets: Array<{ cidr: NormalisedCidr; metadata?: Record<string, unknown>; children?: NormalisedCidr[] }>,
   notes?: string
 ): string {
+  const fmt = (c: NormalisedCidr) => formatCidr(c.version, c.network, c.prefix);
   const model: DesignModel = {
     version: '1.0',
     created: new Date().toISOString(),
     subnets: subnets.map(s => ({
-      cidr: formatCidr(s.cidr.version, s.cidr.network, s.cidr.prefix),
+      cidr: fmt(s.cidr),
       metadata: s.metadata,
-      children: s.children?.map(c => ({ cidr: formatCidr(c.version, c.network, c.prefix) }))
+      children: s.children?.map(c => ({ cidr: fmt(c) }))
     })),
     notes
   };
@@ -124,8 +150,9 @@ export function exportDesignModel(
 
 /**
  * Import design model (FR-072)
+ * Pass `hostBits: 'REJECT'` to refuse CIDRs such as 10.0.0.5/24 instead of accepting them.
  */
-export function importDesignModel(json: string): DesignModel {
+export function importDesignModel(json: string, options: CidrParseOptions = {}): DesignModel {
   const model = JSON.parse(json) as DesignModel;
   
   // Validate version
@@ -140,10 +167,10 @@ export function importDesignModel(json: string): DesignModel {
 
   // Validate each subnet can be parsed
   for (const subnet of model.subnets) {
-    try {
-      parseCidr(subnet.cidr);
-    } catch (err) {
-      throw new Error(`Invalid CIDR in design model: ${subnet.cidr}`);
+    const parsed = parseCidrSafe(subnet.cidr, options);
+    if (!parsed.ok) {
+      const reason = parsed.error.code === 'HOST_BITS_SET' ? ` (${parsed.error.message})` : '';
+      throw new Error(`Invalid CIDR in design model: ${subnet.cidr}${reason}`);
     }
   }
 
@@ -154,14 +181,202 @@ export function importDesignModel(json: string): DesignModel {
  * Export IaC-friendly artifacts (FR-073)
  * Terraform variable format
  */
-export function exportToTerraform(cidrs: NormalisedCidr[], varName = 'subnets'): string {
+export function exportToTerraform(cidrs: NormalisedCidr[], varName = 'subnets', options: ExportOptions = {}): string {
   const lines = [`variable "${varName}" {`, '  type = list(object({', '    cidr = string', '  }))', '  default = ['];
 
   for (const cidr of cidrs) {
-    lines.push(`    { cidr = "${formatCidr(cidr.version, cidr.network, cidr.prefix)}" },`);
+    lines.push(`    { cidr = "${formatCidr(cidr.version, cidr.network, cidr.prefix, prefixFormat(options.addressFormat))}" },`);
   }
 
   lines.push('  ]', '}');
   return lines.join('\n');
 }
 
+
+/**
+ * SOA values for generated zones
+ */
+export type ZoneSoa = {
+  /** Primary name server (defaults to the first name server). */
+  primary?: string;
+  /** Responsible mailbox, as hostmaster.example.com or first.last@example.com (local-part dots are escaped). */
+  contact?: string;
+  /** Unsigned 32-bit serial (RFC 1982); defaults to 1. */
+  serial?: number;
+  refresh?: number;
+  retry?: number;
+  expire?: number;
+  minimum?: number;
+};
+
+/**
+ * Leaf subnet for zone generation
+ * `hostnamePattern` overrides the default pattern from ZoneFileOptions.
+ */
+export type ZoneSubnet = {
+  cidr: NormalisedCidr;
+  hostnamePattern?: string;
+};
+
+/**
+ * Options for BIND zone file generation
+ */
+export type ZoneFileOptions = {
+  nameservers: string[];
+  soa?: ZoneSoa;
+  /** Default $TTL (seconds). */
+  ttl?: number;
+  /**
+   * Hostname pattern for PTR targets and forward records. Tokens: {ip} (address with
+   * '-' separators, IPv6 expanded), {a} {b} {c} {d} (IPv4 octets), {host} (offset in the subnet).
+   * Names without a trailing dot are relative to `forwardZone`, or fully qualified if it is unset.
+   */
+  hostnamePattern?: string;
+  /** Forward zone to emit A/AAAA stubs for; reverse zones only when unset. */
+  forwardZone?: string;
+  /** Subnets with more usable addresses than this get a comment instead of records. */
+  maxRecordsPerSubnet?: number;
+  /** Provider/site address reservations; reserved addresses get no records. */
+  reservationProfile?: ReservationProfile;
+};
+
+export type ZoneFile = {
+  zone: string;
+  kind: 'REVERSE' | 'FORWARD';
+  content: string;
+};
+
+const DEFAULT_HOSTNAME_PATTERN = 'ip-{ip}';
+const DEFAULT_MAX_ZONE_RECORDS = 4096;
+
+function fqdn(name: string): string {
+  return name.endsWith('.') ? name : `${name}.`;
+}
+
+function expandHostname(pattern: string, cidr: NormalisedCidr, ip: bigint, forwardZone?: string): string {
+  const octets = cidr.version === 4 ? bigIntToIpv4(ip).split('.') : [];
+  const dashed =
+    cidr.version === 4 ? octets.join('-') : formatAddress(6, ip, { notation: 'expanded' }).replace(/:/g, '-');
+  const name = pattern
+    .replace(/\{ip\}/g, dashed)
+    .replace(/\{host\}/g, (ip - cidr.network).toString())
+    .replace(/\{([abcd])\}/g, (_, octet: string) => octets['abcd'.indexOf(octet)] ?? '');
+  if (name.endsWith('.')) return name;
+  return forwardZone ? `${name}.${fqdn(forwardZone)}` : fqdn(name);
+}
+
+// Reverse zone holding a subnet's PTR records: the enclosing octet zone up to /24, nibble zone up to /64.
+// Subnets longer than /24 stay in the /24 zone rather than an RFC 2317 child zone: these files are for
+// the operator of the parent zone, and delegating to a child zone is planned with reverseDnsDelegation.
+function coveringReverseZone(cidr: NormalisedCidr): string {
+  const step = cidr.version === 4 ? 8 : 4;
+  if (cidr.prefix < step) {
+    throw new Error(`Subnet ${formatCidr(cidr.version, cidr.network, cidr.prefix)} spans several reverse zones`);
+  }
+  const zonePrefix = Math.min(Math.floor(cidr.prefix / step) * step, cidr.version === 4 ? 24 : 64);
+  const zoneNetwork = cidr.network & ~((1n << BigInt(cidr.bits - zonePrefix)) - 1n);
+  return reverseDnsZone(zoneNetwork, zonePrefix, cidr.version, cidr.bits);
+}
+
+function relativeOwner(name: string, zone: string): string {
+  const origin = fqdn(zone);
+  const absolute = fqdn(name);
+  if (absolute === origin) return '@';
+  return absolute.endsWith(`.${origin}`) ? absolute.slice(0, -origin.length - 1) : absolute;
+}
+
+// RNAME form of a mailbox: dots in the local part are escaped before the '@' becomes a label separator
+function soaMailbox(contact: string): string {
+  const at = contact.lastIndexOf('@');
+  if (at === -1) return contact;
+  return `${contact.slice(0, at).replace(/\./g, '\\.')}.${contact.slice(at + 1)}`;
+}
+
+function zoneHeader(zone: string, options: ZoneFileOptions): string[] {
+  const soa = options.soa ?? {};
+  const primary = fqdn(soa.primary ?? options.nameservers[0]!);
+  const contact = fqdn(soaMailbox(soa.contact ?? `hostmaster.${primary.slice(primary.indexOf('.') + 1)}`));
+  return [
+    `$ORIGIN ${fqdn(zone)}`,
+    `$TTL ${options.ttl ?? 3600}`,
+    `@ IN SOA ${primary} ${contact} (`,
+    `    ${soa.serial ?? 1} ; serial`,
+    `    ${soa.refresh ?? 3600} ; refresh`,
+    `    ${soa.retry ?? 900} ; retry`,
+    `    ${soa.expire ?? 1209600} ; expire`,
+    `    ${soa.minimum ?? 300} ) ; minimum`,
+    ...options.nameservers.map((ns) => `@ IN NS ${fqdn(ns)}`),
+  ];
+}
+
+/**
+ * Build BIND zone files for a plan's leaf subnets
+ * One reverse zone per covering in-addr.arpa/ip6.arpa zone, plus a forward zone when
+ * `forwardZone` is set. PTR and A/AAAA records cover each subnet's usable addresses; PTRs for
+ * IPv4 subnets from /25 to /31 go in the enclosing /24 zone, not an RFC 2317 classless child zone.
+ */
+export function buildZoneFiles(subnets: ZoneSubnet[], options: ZoneFileOptions): ZoneFile[] {
+  if (options.nameservers.length === 0) {
+    throw new Error('At least one name server is required');
+  }
+  const serial = options.soa?.serial;
+  if (serial !== undefined) {
+    assertIntegerInRange(serial, 0, 0xffffffff, `Invalid SOA serial '${serial}' (expected 0..4294967295)`);
+  }
+  const maxRecords = BigInt(options.maxRecordsPerSubnet ?? DEFAULT_MAX_ZONE_RECORDS);
+  const reverse = new Map<string, string[]>();
+  const forward: string[] = [];
+
+  const sorted = [...subnets].sort((a, b) =>
+    a.cidr.version !== b.cidr.version
+      ? a.cidr.version - b.cidr.version
+      : a.cidr.network < b.cidr.network ? -1 : a.cidr.network > b.cidr.network ? 1 : 0
+  );
+
+  for (const { cidr, hostnamePattern } of sorted) {
+    const zone = coveringReverseZone(cidr);
+    const records = reverse.get(zone) ?? [];
+    reverse.set(zone, records);
+
+    const profile = options.reservationProfile;
+    const meta = subnetMeta(cidr.network, cidr.prefix, cidr.version, cidr.bits, undefined, profile);
+    records.push('', `; ${meta.cidr}`);
+    if (meta.usableCount > maxRecords) {
+      records.push(`; ${meta.usableCount} usable addresses exceed the record limit (${maxRecords}); records omitted`);
+      continue;
+    }
+
+    const pattern = hostnamePattern ?? options.hostnamePattern ?? DEFAULT_HOSTNAME_PATTERN;
+    const { first, last } = usableRange(cidr.network, cidr.prefix, cidr.version, cidr.bits, profile);
+    const reserved = new Set(reservedAddresses(cidr.network, cidr.prefix, cidr.version, cidr.bits, profile).map((r) => r.value));
+    for (let ip = first; ip <= last; ip++) {
+      if (reserved.has(ip)) continue;
+      const address = formatAddress(cidr.version, ip);
+      const hostname = expandHostname(pattern, cidr, ip, options.forwardZone);
+      records.push(`${relativeOwner(ptrName(address), zone)} IN PTR ${hostname}`);
+      if (options.forwardZone) {
+        forward.push(`${relativeOwner(hostname, options.forwardZone)} IN ${cidr.version === 4 ? 'A' : 'AAAA'} ${address}`);
+      }
+    }
+  }
+
+  const files: ZoneFile[] = [...reverse].map(([zone, records]) => ({
+    zone,
+    kind: 'REVERSE',
+    content: [...zoneHeader(zone, options), ...records].join('\n'),
+  }));
+  if (options.forwardZone) {
+    const zone = options.forwardZone.replace(/\.$/, '');
+    files.push({ zone, kind: 'FORWARD', content: [...zoneHeader(zone, options), '', ...forward].join('\n') });
+  }
+  return files;
+}
+
+/**
+ * Export BIND zone files as a single document, one section per zone
+ */
+export function exportToZoneFile(subnets: ZoneSubnet[], options: ZoneFileOptions): string {
+  return buildZoneFiles(subnets, options)
+    .map((file) => `; ---- ${file.zone} (${file.kind.toLowerCase()}) ----\n${file.content}`)
+    .join('\n\n');
+}
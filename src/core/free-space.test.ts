@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { findFreeSpace, firstFreeBlock } from './free-space';
+import { formatCidr, parseCidr } from './parser';
+import type { NormalisedCidr } from './types';
+
+const fmt = (c: NormalisedCidr | null) => c && formatCidr(c.version, c.network, c.prefix);
+const parseAll = (list: string[]) => list.map((c) => parseCidr(c));
+
+describe('Free space', () => {
+  const parent = parseCidr('10.0.0.0/16');
+  const used = parseAll(['10.0.0.0/24', '10.0.1.0/25', '10.0.4.0/22', '10.0.128.0/17']);
+
+  it('should list free space as minimal prefixes', () => {
+    const space = findFreeSpace(parent, used);
+
+    expect(space.free.map(fmt)).toEqual([
+      '10.0.1.128/25',
+      '10.0.2.0/23',
+      '10.0.8.0/21',
+      '10.0.16.0/20',
+      '10.0.32.0/19',
+      '10.0.64.0/18',
+    ]);
+    expect(space.usedAddresses).toBe(256n + 128n + 1024n + 32768n);
+    expect(space.freeAddresses + space.usedAddresses).toBe(65536n);
+    expect(fmt(space.largest)).toBe('10.0.64.0/18');
+  });
+
+  it('should ignore overlaps and prefixes outside the parent', () => {
+    const space = findFreeSpace(parseCidr('10.0.0.0/24'), parseAll(['10.0.0.0/25', '10.0.0.0/26', '10.1.0.0/16', '2001:db8::/32']));
+
+    expect(space.free.map(fmt)).toEqual(['10.0.0.128/25']);
+    expect(space.usedAddresses).toBe(128n);
+  });
+
+  it('should report a full parent', () => {
+    const space = findFreeSpace(parseCidr('10.0.0.0/24'), parseAll(['10.0.0.0/8']));
+
+    expect(space.free).toEqual([]);
+    expect(space.largest).toBeNull();
+  });
+
+  it('should find the first free block of a length', () => {
+    expect(fmt(firstFreeBlock(parent, used, 24))).toBe('10.0.2.0/24');
+    expect(fmt(firstFreeBlock(parent, used, 25))).toBe('10.0.1.128/25');
+    expect(fmt(firstFreeBlock(parent, used, 18))).toBe('10.0.64.0/18');
+    expect(firstFreeBlock(parent, used, 17)).toBeNull();
+    expect(() => firstFreeBlock(parent, used, 15)).toThrow('Invalid prefix length');
+  });
+});
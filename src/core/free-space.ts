@@ -0,0 +1,52 @@
+/**
+ * Free-space finder: what a set of existing allocations leaves unused in a parent prefix
+ */
+
+import type { NormalisedCidr } from './types';
+import { PrefixSet } from './prefix-set';
+import { assertIntegerInRange } from './utils';
+
+export type FreeSpace = {
+  parent: NormalisedCidr;
+  /** Unused address space as minimal prefixes, in address order. */
+  free: NormalisedCidr[];
+  freeAddresses: bigint;
+  /** Addresses of the parent covered by the used prefixes (overlaps counted once). */
+  usedAddresses: bigint;
+  /** Largest free prefix (lowest address on ties), or null when the parent is full. */
+  largest: NormalisedCidr | null;
+};
+
+/**
+ * Free space left in `parent` by the used prefixes
+ * Used prefixes outside the parent (or of the other family) are ignored.
+ */
+export function findFreeSpace(parent: NormalisedCidr, used: NormalisedCidr[]): FreeSpace {
+  const freeSet = PrefixSet.from(used).complement(parent);
+  const free = freeSet.toPrefixes();
+  const freeAddresses = freeSet.addressCount();
+
+  let largest: NormalisedCidr | null = null;
+  for (const block of free) {
+    if (!largest || block.prefix < largest.prefix) largest = block;
+  }
+
+  return {
+    parent,
+    free,
+    freeAddresses,
+    usedAddresses: (1n << BigInt(parent.bits - parent.prefix)) - freeAddresses,
+    largest,
+  };
+}
+
+/**
+ * Lowest free block of length `prefix` in `parent`, or null if none is left
+ * Any aligned free block lies inside one of the minimal free prefixes, so the first one
+ * at least that large holds it.
+ */
+export function firstFreeBlock(parent: NormalisedCidr, used: NormalisedCidr[], prefix: number): NormalisedCidr | null {
+  assertIntegerInRange(prefix, parent.prefix, parent.bits, `Invalid prefix length (expected ${parent.prefix}..${parent.bits})`);
+  const fit = findFreeSpace(parent, used).free.find((block) => block.prefix <= prefix);
+  return fit ? { ...fit, prefix } : null;
+}
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import {
+  toIpv4Mapped,
+  fromIpv4Mapped,
+  to6to4Prefix,
+  from6to4,
+  toTeredo,
+  fromTeredo,
+  toNat64,
+  fromNat64,
+  nat64SubnetPrefix,
+  extractEmbeddedIpv4,
+} from './ipv6-transition';
+import { parseCidr, formatCidr } from './parser';
+
+describe('IPv6 transition addresses', () => {
+  describe('IPv4-mapped', () => {
+    it('should embed and extract', () => {
+      expect(toIpv4Mapped('192.0.2.1')).toBe('::ffff:192.0.2.1');
+      expect(fromIpv4Mapped('::ffff:c000:201')).toBe('192.0.2.1');
+      expect(() => fromIpv4Mapped('2001:db8::1')).toThrow('Not an IPv4-mapped');
+    });
+  });
+
+  describe('6to4', () => {
+    it('should build the site prefix and extract', () => {
+      const site = to6to4Prefix('192.0.2.4');
+      expect(formatCidr(site.version, site.network, site.prefix)).toBe('2002:c000:204::/48');
+      expect(from6to4('2002:c000:204:1::1')).toBe('192.0.2.4');
+      expect(() => from6to4('2001:db8::1')).toThrow('Not a 6to4');
+    });
+  });
+
+  describe('Teredo', () => {
+    const address = '2001:0:4136:e378:8000:63bf:3fff:fdd2';
+
+    it('should decode server, flags, port and client', () => {
+      expect(fromTeredo(address)).toEqual({ server: '65.54.227.120', flags: 0x8000, port: 40000, client: '192.0.2.45' });
+    });
+
+    it('should encode', () => {
+      expect(toTeredo({ server: '65.54.227.120', client: '192.0.2.45', port: 40000, flags: 0x8000 })).toBe(address);
+      expect(() => toTeredo({ server: '65.54.227.120', client: '192.0.2.45', port: 70000 })).toThrow('port');
+    });
+  });
+
+  describe('NAT64 (RFC 6052)', () => {
+    // RFC 6052 section 2.4 examples for 192.0.2.33
+    const examples: Array<[string, string]> = [
+      ['2001:db8::/32', '2001:db8:c000:221::'],
+      ['2001:db8:100::/40', '2001:db8:1c0:2:21::'],
+      ['2001:db8:122::/48', '2001:db8:122:c000:2:2100::'],
+      ['2001:db8:122:300::/56', '2001:db8:122:3c0:0:221::'],
+      ['2001:db8:122:344::/64', '2001:db8:122:344:c0:2:2100:0'],
+      ['2001:db8:122:344::/96', '2001:db8:122:344::c000:221'],
+    ];
+
+    it.each(examples)('should embed and extract with %s', (prefix, expected) => {
+      const nat64 = parseCidr(prefix);
+      expect(toNat64('192.0.2.33', nat64)).toBe(expected);
+      expect(fromNat64(expected, nat64)).toBe('192.0.2.33');
+    });
+
+    it('should default to the well-known prefix with mixed notation', () => {
+      expect(toNat64('192.0.2.33')).toBe('64:ff9b::192.0.2.33');
+      expect(fromNat64('64:ff9b::c000:221')).toBe('192.0.2.33');
+    });
+
+    it('should reject unsupported prefix lengths and foreign addresses', () => {
+      expect(() => toNat64('192.0.2.33', parseCidr('2001:db8::/36'))).toThrow('Invalid NAT64 prefix');
+      expect(() => fromNat64('2001:db8::1')).toThrow('not within the NAT64 prefix');
+    });
+
+    it('should map whole IPv4 subnets', () => {
+      const wk = nat64SubnetPrefix(parseCidr('198.51.100.0/24'));
+      expect(formatCidr(wk.version, wk.network, wk.prefix)).toBe('64:ff9b::c633:6400/120');
+
+      const split = nat64SubnetPrefix(parseCidr('192.0.2.0/28'), parseCidr('2001:db8:100::/40'));
+      expect(formatCidr(split.version, split.network, split.prefix)).toBe('2001:db8:1c0:2::/76');
+    });
+  });
+
+  describe('extractEmbeddedIpv4', () => {
+    it('should detect the transition mechanism', () => {
+      expect(extractEmbeddedIpv4('::ffff:10.0.0.1')).toEqual({ kind: 'MAPPED', ipv4: '10.0.0.1' });
+      expect(extractEmbeddedIpv4('2002:c000:204::1')).toEqual({ kind: '6TO4', ipv4: '192.0.2.4' });
+      expect(extractEmbeddedIpv4('2001:0:4136:e378:8000:63bf:3fff:fdd2')).toEqual({ kind: 'TEREDO', ipv4: '192.0.2.45' });
+      expect(extractEmbeddedIpv4('64:ff9b::192.0.2.33')).toEqual({ kind: 'NAT64', ipv4: '192.0.2.33' });
+      expect(extractEmbeddedIpv4('2001:db8:c000:221::', [parseCidr('2001:db8::/32')])).toEqual({
+        kind: 'NAT64',
+        ipv4: '192.0.2.33',
+      });
+      expect(extractEmbeddedIpv4('2001:db8::1')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * IPv6 transition addresses: IPv4-mapped, 6to4, Teredo and NAT64 (RFC 4291, 3056, 4380, 6052)
+ */
+
+import type { NormalisedCidr } from './types';
+import { bigIntToIpv4, bigIntToIpv6, ipv4ToBigInt, ipv6ToBigInt, parseCidr } from './parser';
+
+export type TeredoInfo = {
+  server: string;
+  client: string;
+  port: number;
+  flags: number;
+};
+
+export type EmbeddedIpv4Kind = 'MAPPED' | '6TO4' | 'TEREDO' | 'NAT64';
+
+export type EmbeddedIpv4 = {
+  kind: EmbeddedIpv4Kind;
+  ipv4: string;
+};
+
+/** RFC 6052 well-known prefix 64:ff9b::/96 */
+export const NAT64_WELL_KNOWN_PREFIX: NormalisedCidr = parseCidr('64:ff9b::/96');
+
+const NAT64_PREFIX_LENGTHS: number[] = [32, 40, 48, 56, 64, 96];
+const MAPPED_PREFIX = 0xffffn << 32n;
+const SIX_TO_FOUR_PREFIX = 0x2002n;
+const TEREDO_PREFIX = 0x20010000n;
+
+function format(n: bigint): string {
+  return bigIntToIpv6(n, { mixedIpv4: true });
+}
+
+/**
+ * Embed IPv4 in IPv4-mapped form (::ffff:a.b.c.d)
+ */
+export function toIpv4Mapped(ipv4: string): string {
+  return format(MAPPED_PREFIX | ipv4ToBigInt(ipv4));
+}
+
+/**
+ * Extract IPv4 from an IPv4-mapped address
+ */
+export function fromIpv4Mapped(ipv6: string): string {
+  const n = ipv6ToBigInt(ipv6);
+  if (n >> 32n !== 0xffffn) throw new Error('Not an IPv4-mapped address (::ffff:0:0/96)');
+  return bigIntToIpv4(n & 0xffffffffn);
+}
+
+/**
+ * 6to4 site prefix (2002:V4ADDR::/48) for a public IPv4 address
+ */
+export function to6to4Prefix(ipv4: string): NormalisedCidr {
+  const network = (SIX_TO_FOUR_PREFIX << 112n) | (ipv4ToBigInt(ipv4) << 80n);
+  return { version: 6, bits: 128, network, prefix: 48 };
+}
+
+/**
+ * Extract the IPv4 address from a 6to4 address
+ */
+export function from6to4(ipv6: string): string {
+  const n = ipv6ToBigInt(ipv6);
+  if (n >> 112n !== SIX_TO_FOUR_PREFIX) throw new Error('Not a 6to4 address (2002::/16)');
+  return bigIntToIpv4((n >> 80n) & 0xffffffffn);
+}
+
+/**
+ * Build a Teredo address (2001::/32): server, flags, and obfuscated port and client
+ */
+export function toTeredo(info: { server: string; client: string; port: number; flags?: number }): string {
+  if (!Number.isInteger(info.port) || info.port < 0 || info.port > 0xffff) {
+    throw new Error('Invalid Teredo port (expected 0..65535)');
+  }
+  const flags = info.flags ?? 0;
+  if (!Number.isInteger(flags) || flags < 0 || flags > 0xffff) {
+    throw new Error('Invalid Teredo flags (expected 0..65535)');
+  }
+
+  const n =
+    (TEREDO_PREFIX << 96n) |
+    (ipv4ToBigInt(info.server) << 64n) |
+    (BigInt(flags) << 48n) |
+    (BigInt(info.port ^ 0xffff) << 32n) |
+    (ipv4ToBigInt(info.client) ^ 0xffffffffn);
+  return format(n);
+}
+
+/**
+ * Decode a Teredo address
+ */
+export function fromTeredo(ipv6: string): TeredoInfo {
+  const n = ipv6ToBigInt(ipv6);
+  if (n >> 96n !== TEREDO_PREFIX) throw new Error('Not a Teredo address (2001::/32)');
+
+  return {
+    server: bigIntToIpv4((n >> 64n) & 0xffffffffn),
+    flags: Number((n >> 48n) & 0xffffn),
+    port: Number((n >> 32n) & 0xffffn) ^ 0xffff,
+    client: bigIntToIpv4((n & 0xffffffffn) ^ 0xffffffffn),
+  };
+}
+
+function assertNat64Prefix(nat64Prefix: NormalisedCidr): void {
+  if (nat64Prefix.version !== 6 || !NAT64_PREFIX_LENGTHS.includes(nat64Prefix.prefix)) {
+    throw new Error('Invalid NAT64 prefix (expected IPv6 /32, /40, /48, /56, /64 or /96)');
+  }
+}
+
+// RFC 6052 section 2.2: IPv4 bits follow the prefix, skipping bits 64..71 (the "u" octet)
+function nat64BitPosition(prefixLength: number, ipv4Bit: number): number {
+  const pos = prefixLength + ipv4Bit;
+  return prefixLength < 96 && pos >= 64 ? pos + 8 : pos;
+}
+
+function embedNat64(ipv4: bigint, nat64Prefix: NormalisedCidr): bigint {
+  let n = nat64Prefix.network;
+  for (let i = 0; i < 32; i++) {
+    if (((ipv4 >> BigInt(31 - i)) & 1n) === 1n) {
+      n |= 1n << BigInt(127 - nat64BitPosition(nat64Prefix.prefix, i));
+    }
+  }
+  return n;
+}
+
+/**
+ * Synthesise the NAT64 IPv6 address for an IPv4 address (RFC 6052)
+ */
+export function toNat64(ipv4: string, nat64Prefix: NormalisedCidr = NAT64_WELL_KNOWN_PREFIX): string {
+  assertNat64Prefix(nat64Prefix);
+  return format(embedNat64(ipv4ToBigInt(ipv4), nat64Prefix));
+}
+
+/**
+ * Extract the IPv4 address from a NAT64 synthesised address (RFC 6052)
+ */
+export function fromNat64(ipv6: string, nat64Prefix: NormalisedCidr = NAT64_WELL_KNOWN_PREFIX): string {
+  assertNat64Prefix(nat64Prefix);
+
+  const n = ipv6ToBigInt(ipv6);
+  const shift = BigInt(128 - nat64Prefix.prefix);
+  if (n >> shift !== nat64Prefix.network >> shift) {
+    throw new Error('Address is not within the NAT64 prefix');
+  }
+
+  let ipv4 = 0n;
+  for (let i = 0; i < 32; i++) {
+    const bit = (n >> BigInt(127 - nat64BitPosition(nat64Prefix.prefix, i))) & 1n;
+    ipv4 = (ipv4 << 1n) | bit;
+  }
+  return bigIntToIpv4(ipv4);
+}
+
+/**
+ * IPv6 prefix holding the NAT64 synthesised addresses of a whole IPv4 subnet
+ * The returned prefix also spans non-zero suffix bits, which RFC 6052 leaves unused.
+ */
+export function nat64SubnetPrefix(
+  ipv4Cidr: NormalisedCidr,
+  nat64Prefix: NormalisedCidr = NAT64_WELL_KNOWN_PREFIX
+): NormalisedCidr {
+  assertNat64Prefix(nat64Prefix);
+  if (ipv4Cidr.version !== 4) throw new Error('Expected an IPv4 CIDR');
+
+  const prefix =
+    ipv4Cidr.prefix === 0 ? nat64Prefix.prefix : nat64BitPosition(nat64Prefix.prefix, ipv4Cidr.prefix - 1) + 1;
+
+  return { version: 6, bits: 128, network: embedNat64(ipv4Cidr.network, nat64Prefix), prefix };
+}
+
+/**
+ * Detect and extract an IPv4 address embedded in a transition address
+ * NAT64 is only recognised for the given prefixes (well-known prefix by default).
+ */
+export function extractEmbeddedIpv4(
+  ipv6: string,
+  nat64Prefixes: NormalisedCidr[] = [NAT64_WELL_KNOWN_PREFIX]
+): EmbeddedIpv4 | null {
+  const n = ipv6ToBigInt(ipv6);
+
+  if (n >> 32n === 0xffffn) return { kind: 'MAPPED', ipv4: fromIpv4Mapped(ipv6) };
+  if (n >> 112n === SIX_TO_FOUR_PREFIX) return { kind: '6TO4', ipv4: from6to4(ipv6) };
+  if (n >> 96n === TEREDO_PREFIX) return { kind: 'TEREDO', ipv4: fromTeredo(ipv6).client };
+
+  for (const nat64Prefix of nat64Prefixes) {
+    const shift = BigInt(128 - nat64Prefix.prefix);
+    if (n >> shift === nat64Prefix.network >> shift) {
+      return { kind: 'NAT64', ipv4: fromNat64(ipv6, nat64Prefix) };
+    }
+  }
+
+  return null;
+}
@@ -7,12 +7,20 @@ import {
   parseCidr,
   parseCidrWithNetmask,
   rangeToMinimalPrefixes,
+  prefixesForRange,
   classifyAddress,
   parseCidrSafe,
   formatCidr,
+  formatAddress,
   maskFromPrefix,
+  extractCidrs,
+  parseAny,
+  CidrParseError,
+  classifyAddressDetailed,
+  classifyPrefix,
 } from './parser';
 import { AddressClass } from './types';
+import type { NormalisedCidr } from './types';
 
 describe('IPv4 parsing', () => {
   it('should parse valid IPv4 addresses', () => {
@@ -57,6 +65,19 @@ describe('IPv6 parsing', () => {
     expect(bigIntToIpv6(0n)).toBe('::');
   });
 
+  it('should parse embedded IPv4 after a compressed run', () => {
+    expect(ipv6ToBigInt('::ffff:192.0.2.1')).toBe(0xffffc0000201n);
+    expect(ipv6ToBigInt('64:ff9b::192.0.2.33')).toBe(0x64ff9b0000000000000000c0000221n);
+    expect(ipv6ToBigInt('::192.0.2.1')).toBe(0xc0000201n);
+  });
+
+  it('should optionally format embedded IPv4 in mixed notation', () => {
+    expect(bigIntToIpv6(0xffffc0000201n)).toBe('::ffff:c000:201');
+    expect(bigIntToIpv6(0xffffc0000201n, { mixedIpv4: true })).toBe('::ffff:192.0.2.1');
+    expect(bigIntToIpv6(ipv6ToBigInt('64:ff9b::c000:221'), { mixedIpv4: true })).toBe('64:ff9b::192.0.2.33');
+    expect(bigIntToIpv6(ipv6ToBigInt('2001:db8::1'), { mixedIpv4: true })).toBe('2001:db8::1');
+  });
+
   it('should handle full IPv6 addresses', () => {
     const full = '2001:0db8:0000:0000:0000:0000:0000:0001';
     const compressed = '2001:db8::1';
@@ -70,6 +91,46 @@ describe('IPv6 parsing', () => {
   });
 });
 
+describe('Address formatting options', () => {
+  const v6 = ipv6ToBigInt('2001:db8::ff00:42:8329');
+
+  it('should format IPv6 expanded and padded', () => {
+    expect(bigIntToIpv6(v6, { notation: 'expanded' })).toBe('2001:db8:0:0:0:ff00:42:8329');
+    expect(bigIntToIpv6(v6, { notation: 'padded' })).toBe('2001:0db8:0000:0000:0000:ff00:0042:8329');
+  });
+
+  it('should format IPv6 uppercase', () => {
+    expect(bigIntToIpv6(v6, { uppercase: true })).toBe('2001:DB8::FF00:42:8329');
+  });
+
+  it('should format IPv6 nibbles', () => {
+    expect(bigIntToIpv6(ipv6ToBigInt('2001:db8::1'), { notation: 'nibble' })).toBe(
+      '1.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.8.b.d.0.1.0.0.2'
+    );
+  });
+
+  it('should combine mixed IPv4 with padding', () => {
+    expect(bigIntToIpv6(0xffffc0000201n, { notation: 'padded', mixedIpv4: true })).toBe(
+      '0000:0000:0000:0000:0000:ffff:192.0.2.1'
+    );
+  });
+
+  it('should format IPv4 padded and reversed', () => {
+    expect(bigIntToIpv4(0x0a000102n, { notation: 'padded' })).toBe('010.000.001.002');
+    expect(bigIntToIpv4(0x0a000102n, { notation: 'nibble' })).toBe('2.1.0.10');
+    expect(bigIntToIpv4(0x0a000102n, { notation: 'expanded', uppercase: true })).toBe('10.0.1.2');
+  });
+
+  it('should thread options through formatAddress and formatCidr', () => {
+    expect(formatAddress(6, 1n, { notation: 'expanded' })).toBe('0:0:0:0:0:0:0:1');
+    expect(formatCidr(6, v6, 128, { uppercase: true })).toBe('2001:DB8::FF00:42:8329/128');
+  });
+
+  it('should reject nibble notation for CIDRs', () => {
+    expect(() => formatCidr(4, 0x0a000100n, 24, { notation: 'nibble' })).toThrow('Nibble notation');
+  });
+});
+
 describe('CIDR parsing', () => {
   it('should parse IPv4 CIDR notation', () => {
     const cidr = parseCidr('192.168.1.0/24');
@@ -108,6 +169,93 @@ describe('CIDR parsing', () => {
   });
 });
 
+describe('Structured parse errors', () => {
+  it('should throw CidrParseError with code and span', () => {
+    try {
+      parseCidr('  10.0.0.0/40');
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(CidrParseError);
+      const e = error as CidrParseError;
+      expect(e.code).toBe('PREFIX_OUT_OF_RANGE');
+      expect(e.input.slice(e.start, e.end)).toBe('40');
+      expect(e.suggestion).toContain('0 and 32');
+    }
+  });
+
+  it('should point at the bad address', () => {
+    const result = parseCidrSafe('10.0.300.0/24');
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error.code).toBe('INVALID_ADDRESS');
+      expect(result.error.input.slice(result.error.start, result.error.end)).toBe('10.0.300.0');
+    }
+  });
+
+  it('should suggest a prefix when missing', () => {
+    const result = parseCidrSafe('192.168.1.1');
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error.code).toBe('MISSING_PREFIX');
+      expect(result.error.suggestion).toContain('192.168.1.1/32');
+    }
+  });
+
+  it('should reject host bits in strict mode', () => {
+    expect(parseCidr('10.0.0.5/24').network).toBe(0x0a000000n);
+    const result = parseCidrSafe('10.0.0.5/24', { hostBits: 'REJECT' });
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error.code).toBe('HOST_BITS_SET');
+      expect(result.error.suggestion).toContain('10.0.0.0/24');
+    }
+  });
+
+  it('should reject host bits in netmask notation in strict mode', () => {
+    expect(parseCidrWithNetmask('10.0.0.5', '255.255.255.0').network).toBe(0x0a000000n);
+    try {
+      parseCidrWithNetmask('10.0.0.5', '255.255.255.0', { hostBits: 'REJECT' });
+      expect.unreachable();
+    } catch (error) {
+      const e = error as CidrParseError;
+      expect(e.code).toBe('HOST_BITS_SET');
+      expect(e.input.slice(e.start, e.end)).toBe('10.0.0.5');
+      expect(e.suggestion).toContain('10.0.0.0/24');
+    }
+  });
+
+  it('should raise CidrParseError from netmask, range and other notations', () => {
+    const failure = (fn: () => unknown) => {
+      try {
+        fn();
+      } catch (error) {
+        expect(error).toBeInstanceOf(CidrParseError);
+        const e = error as CidrParseError;
+        return [e.code, e.input.slice(e.start, e.end)];
+      }
+      return expect.unreachable();
+    };
+
+    expect(failure(() => parseCidrWithNetmask('10.0.0.0', '255.0.255.0'))).toEqual(['INVALID_NETMASK', '255.0.255.0']);
+    expect(failure(() => rangeToMinimalPrefixes('10.0.0.1', '10.0.0.300'))).toEqual(['INVALID_ADDRESS', '10.0.0.300']);
+    expect(failure(() => parseAny(' 10.0.0.0  255.255.0.1'))).toEqual(['INVALID_NETMASK', '255.255.0.1']);
+    expect(failure(() => parseAny('10.0.0.9/255.255.255.0', { hostBits: 'REJECT' }))).toEqual(['HOST_BITS_SET', '10.0.0.9']);
+    expect(failure(() => parseAny('10.0.0.1 - 10.0.0.0'))).toEqual(['INVALID_RANGE', '10.0.0.1 - 10.0.0.0']);
+    expect(failure(() => parseAny('10.0.0.1-300'))).toEqual(['INVALID_RANGE', '300']);
+    expect(failure(() => parseAny('10.*.1.*'))).toEqual(['INVALID_WILDCARD', '10.*.1.*']);
+    expect(failure(() => parseAny('10.0.0.1 to 10.0.0.9'))).toEqual(['UNRECOGNISED_NOTATION', '10.0.0.1 to 10.0.0.9']);
+    expect(failure(() => parseAny('  10.0.0.256'))).toEqual(['INVALID_ADDRESS', '10.0.0.256']);
+  });
+
+  it('should warn on host bits when asked', () => {
+    const result = parseCidrSafe('10.0.0.5/24', { hostBits: 'WARN' });
+    expect(result.ok).toBe(true);
+    expect(result.warnings).toHaveLength(1);
+    expect(result.warnings[0]!.code).toBe('HOST_BITS_SET');
+    expect(parseCidrSafe('10.0.0.0/24', { hostBits: 'WARN' }).warnings).toEqual([]);
+  });
+});
+
 describe('Netmask parsing', () => {
   it('should parse IPv4 with netmask', () => {
     const cidr = parseCidrWithNetmask('192.168.1.0', '255.255.255.0');
@@ -140,6 +288,18 @@ describe('Range to prefixes conversion', () => {
     expect(prefixes).toHaveLength(1);
     expect(prefixes[0]!.prefix).toBe(32);
   });
+
+  it('should cover integer ranges with the largest aligned blocks', () => {
+    const fmt = (list: NormalisedCidr[]) => list.map((c) => formatCidr(c.version, c.network, c.prefix));
+    expect(fmt(prefixesForRange(4, 0n, 0xffffffffn))).toEqual(['0.0.0.0/0']);
+    expect(fmt(prefixesForRange(4, 0x0a000001n, 0x0a000006n))).toEqual([
+      '10.0.0.1/32',
+      '10.0.0.2/31',
+      '10.0.0.4/31',
+      '10.0.0.6/32',
+    ]);
+    expect(fmt(prefixesForRange(6, 1n << 96n, (3n << 96n) - 1n))).toEqual(['0:1::/32', '0:2::/32']);
+  });
 });
 
 describe('Address classification', () => {
@@ -163,5 +323,193 @@ describe('Address classification', () => {
     expect(classifyAddress('ff02::1')).toContain(AddressClass.MULTICAST);
     expect(classifyAddress('2001:db8::1')).toContain(AddressClass.DOCUMENTATION);
   });
+
+  it('should classify ranges from the IANA special-purpose registries', () => {
+    expect(classifyAddress('100.64.1.1')).toEqual([AddressClass.SHARED]);
+    expect(classifyAddress('198.19.255.1')).toEqual([AddressClass.BENCHMARKING]);
+    expect(classifyAddress('192.0.0.1')).toContain(AddressClass.PROTOCOL_ASSIGNMENT);
+    expect(classifyAddress('192.88.99.1')).toContain(AddressClass.TRANSITION);
+    expect(classifyAddress('64:ff9b::192.0.2.1')).toEqual([AddressClass.TRANSITION]);
+    expect(classifyAddress('2001::1')).toEqual([AddressClass.TRANSITION]);
+    expect(classifyAddress('2002:c000:204::1')).toEqual([AddressClass.TRANSITION]);
+    expect(classifyAddress('100::1')).toEqual([AddressClass.DISCARD]);
+    expect(classifyAddress('3fff::1')).toEqual([AddressClass.DOCUMENTATION]);
+  });
+
+  it('should keep public and reserved fallbacks', () => {
+    expect(classifyAddress('8.8.8.8')).toEqual([AddressClass.PUBLIC]);
+    expect(classifyAddress('2606:4700::1')).toEqual([AddressClass.GLOBAL_UNICAST, AddressClass.PUBLIC]);
+    expect(classifyAddress('4000::1')).toEqual([AddressClass.RESERVED]);
+    expect(classifyAddress('0.0.0.0')).toEqual([AddressClass.UNSPECIFIED]);
+    expect(classifyAddress('not an address')).toEqual([]);
+  });
+
+  it('should report registry attributes from the most specific entry', () => {
+    const pcp = classifyAddressDetailed('192.0.0.9');
+    expect(pcp.ranges.map((r) => r.cidr)).toEqual(['192.0.0.0/24', '192.0.0.9/32']);
+    expect(pcp.globallyReachable).toBe(true);
+    expect(pcp.classes).toEqual([AddressClass.ANYCAST]);
+
+    const loopback = classifyAddressDetailed('127.0.0.1');
+    expect(loopback).toMatchObject({ source: false, destination: false, forwardable: false, reservedByProtocol: true });
+    expect(loopback.ranges[0]!.rfc).toEqual(['RFC 1122']);
+
+    const teredo = classifyAddressDetailed('2001:0:4136:e378:8000:63bf:3fff:fdd2');
+    expect(teredo.globallyReachable).toBeNull();
+
+    expect(classifyAddressDetailed('8.8.8.8')).toMatchObject({ ranges: [], globallyReachable: true, forwardable: true });
+    expect(() => classifyAddressDetailed('300.1.1.1')).toThrow();
+  });
+});
+
+
+describe('classifyPrefix', () => {
+  it('should classify prefixes within a special-purpose range', () => {
+    const result = classifyPrefix(parseCidr('10.1.0.0/16'));
+    expect(result.classes).toEqual([AddressClass.PRIVATE]);
+    expect(result.partialClasses).toEqual([]);
+    expect(result.matches).toEqual([expect.objectContaining({ relation: 'WITHIN', range: expect.objectContaining({ cidr: '10.0.0.0/8' }) })]);
+  });
+
+  it('should report partial overlap when a prefix contains special-purpose ranges', () => {
+    const result = classifyPrefix(parseCidr('172.0.0.0/10'));
+    expect(result.classes).toEqual([]);
+    expect(result.partialClasses).toEqual([AddressClass.PUBLIC, AddressClass.PRIVATE]);
+    expect(result.matches.map((m) => [m.range.cidr, m.relation])).toEqual([['172.16.0.0/12', 'CONTAINS']]);
+  });
+
+  it('should combine enclosing and contained ranges', () => {
+    const result = classifyPrefix(parseCidr('192.0.0.0/24'));
+    expect(result.matches[0]).toMatchObject({ relation: 'WITHIN', range: { cidr: '192.0.0.0/24' } });
+    expect(result.matches.slice(1).every((m) => m.relation === 'CONTAINS')).toBe(true);
+    expect(result.partialClasses).toContain(AddressClass.ANYCAST);
+  });
+
+  it('should fall back to public and reserved space', () => {
+    expect(classifyPrefix(parseCidr('8.8.8.0/24'))).toEqual({ classes: [AddressClass.PUBLIC], partialClasses: [], matches: [] });
+    expect(classifyPrefix(parseCidr('2606:4700::/32')).classes).toEqual([AddressClass.GLOBAL_UNICAST, AddressClass.PUBLIC]);
+    expect(classifyPrefix(parseCidr('6000::/3')).classes).toEqual([AddressClass.RESERVED]);
+
+    const everything = classifyPrefix(parseCidr('::/0'));
+    expect(everything.classes).toEqual([]);
+    expect(everything.partialClasses).toEqual(expect.arrayContaining([AddressClass.GLOBAL_UNICAST, AddressClass.RESERVED, AddressClass.LOOPBACK]));
+  });
+});
+
+describe('parseAny', () => {
+  it('should detect CIDR and netmask notations', () => {
+    expect(parseAny('10.0.0.0/24')).toMatchObject({ notation: 'CIDR' });
+    const slash = parseAny('10.0.0.0/255.255.0.0');
+    expect(slash.notation).toBe('NETMASK');
+    expect(slash.cidrs[0]!.prefix).toBe(16);
+    expect(parseAny('10.0.0.0 255.255.255.0').cidrs[0]!.prefix).toBe(24);
+  });
+
+  it('should parse bare addresses as host prefixes', () => {
+    expect(parseAny('10.0.0.1')).toEqual({
+      notation: 'ADDRESS',
+      cidrs: [{ version: 4, bits: 32, network: 0x0a000001n, prefix: 32 }],
+    });
+    expect(parseAny('2001:db8::1').cidrs[0]!.prefix).toBe(128);
+  });
+
+  it('should parse full ranges into minimal prefixes', () => {
+    const parsed = parseAny('10.0.0.0-10.0.1.255');
+    expect(parsed.notation).toBe('RANGE');
+    expect(parsed.cidrs.map((c) => formatCidr(c.version, c.network, c.prefix))).toEqual(['10.0.0.0/23']);
+  });
+
+  it('should parse shorthand ranges', () => {
+    const parsed = parseAny('10.0.0.1-50');
+    expect(parsed.notation).toBe('SHORTHAND_RANGE');
+    expect(formatCidr(4, parsed.cidrs[0]!.network, parsed.cidrs[0]!.prefix)).toBe('10.0.0.1/32');
+    expect(formatCidr(4, parsed.cidrs[parsed.cidrs.length - 1]!.network, parsed.cidrs[parsed.cidrs.length - 1]!.prefix)).toBe('10.0.0.50/32');
+
+    const v6 = parseAny('2001:db8::100-1ff');
+    expect(v6.cidrs).toHaveLength(1);
+    expect(v6.cidrs[0]!.prefix).toBe(120);
+  });
+
+  it('should parse trailing wildcards', () => {
+    const parsed = parseAny('10.1.*.*');
+    expect(parsed.notation).toBe('WILDCARD');
+    expect(formatCidr(4, parsed.cidrs[0]!.network, parsed.cidrs[0]!.prefix)).toBe('10.1.0.0/16');
+    expect(parseAny('*.*.*.*').cidrs[0]!.prefix).toBe(0);
+  });
+
+  it('should reject malformed input', () => {
+    expect(() => parseAny('')).toThrow('empty');
+    expect(() => parseAny('10.*.1.*')).toThrow('only trailing octets');
+    expect(() => parseAny('10.0.0.1-300')).toThrow('last octet');
+    expect(() => parseAny('10.0.0.50-1')).toThrow('start must be <= end');
+  });
 });
 
+describe('Free-text extraction', () => {
+  it('should extract CIDRs with offsets', () => {
+    const text = 'permit 10.0.0.0/24 and 2001:db8::/32';
+    const found = extractCidrs(text);
+    expect(found).toHaveLength(2);
+    expect(found[0]).toMatchObject({ kind: 'CIDR', text: '10.0.0.0/24', start: 7, end: 18, hostBitsSet: false });
+    expect(found[1]!.kind).toBe('CIDR');
+    expect(found[1]!.cidrs[0]!.prefix).toBe(32);
+    expect(text.slice(found[1]!.start, found[1]!.end)).toBe('2001:db8::/32');
+  });
+
+  it('should keep the prefix before trailing punctuation in prose', () => {
+    const found = extractCidrs('Please route 10.0.0.5/24. Then add 2001:db8::/48, and 192.168.0.0/16!');
+    expect(found.map((f) => f.text)).toEqual(['10.0.0.5/24', '2001:db8::/48', '192.168.0.0/16']);
+    expect(found.map((f) => f.kind)).toEqual(['CIDR', 'CIDR', 'CIDR']);
+  });
+
+  it('should flag host bits set', () => {
+    const [found] = extractCidrs('gateway 192.168.1.5/24');
+    expect(found!.hostBitsSet).toBe(true);
+    expect(formatCidr(4, found!.cidrs[0]!.network, 24)).toBe('192.168.1.0/24');
+  });
+
+  it('should extract netmask pairs', () => {
+    const found = extractCidrs(' ip address 10.1.2.3 255.255.255.0\ninet 172.16.0.9 netmask 255.255.0.0');
+    expect(found.map((f) => f.kind)).toEqual(['NETMASK', 'NETMASK']);
+    expect(found[0]!.text).toBe('10.1.2.3 255.255.255.0');
+    expect(found[0]!.cidrs[0]!.prefix).toBe(24);
+    expect(found[0]!.hostBitsSet).toBe(true);
+    expect(found[1]!.cidrs[0]!.prefix).toBe(16);
+  });
+
+  it('should extract slash netmask notation', () => {
+    const [found] = extractCidrs('192.168.0.0/255.255.255.0');
+    expect(found).toMatchObject({ kind: 'NETMASK', hostBitsSet: false });
+    expect(found!.cidrs[0]!.prefix).toBe(24);
+  });
+
+  it('should not treat wildcard masks as netmasks', () => {
+    const found = extractCidrs('access-list 10 permit 10.0.0.0 0.0.0.255');
+    expect(found.map((f) => f.kind)).toEqual(['ADDRESS', 'ADDRESS']);
+  });
+
+  it('should extract ranges as minimal prefixes', () => {
+    const [found] = extractCidrs('pool 10.0.0.0 - 10.0.1.255;');
+    expect(found!.kind).toBe('RANGE');
+    expect(found!.text).toBe('10.0.0.0 - 10.0.1.255');
+    expect(found!.cidrs).toHaveLength(1);
+    expect(found!.cidrs[0]!.prefix).toBe(23);
+  });
+
+  it('should extract bare addresses as host prefixes', () => {
+    const found = extractCidrs('Jan 12 10:11:12 sshd: Failed password from 203.0.113.7:52144 via fe80::1%eth0.');
+    expect(found.map((f) => f.text)).toEqual(['203.0.113.7', 'fe80::1']);
+    expect(found[0]!.cidrs[0]!.prefix).toBe(32);
+    expect(found[1]!.cidrs[0]!.prefix).toBe(128);
+  });
+
+  it('should ignore things that only look like addresses', () => {
+    expect(extractCidrs('version 1.2.3.4.5, mac aa:bb:cc:dd:ee:ff, std::string, 999.1.1.1')).toEqual([]);
+  });
+
+  it('should handle embedded IPv4 in IPv6', () => {
+    const [found] = extractCidrs('nat64 ::ffff:192.0.2.1 seen');
+    expect(found!.text).toBe('::ffff:192.0.2.1');
+    expect(found!.cidrs[0]!.network).toBe(0xffffc0000201n);
+  });
+});
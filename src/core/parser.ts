@@ -2,10 +2,75 @@
  * Input parsing and normalisation (FR-001 to FR-005)
  */
 
-import type { IpVersion, NormalisedCidr, Result } from './types';
+import type {
+  AddressClassification,
+  AddressFormatOptions,
+  ExtractedPrefix,
+  IpVersion,
+  NormalisedCidr,
+  ParsedInput,
+  PrefixClassification,
+  Result,
+  SpecialPurposeAttributes,
+  SpecialPurposeRange,
+} from './types';
 import { AddressClass } from './types';
+import type { SubnetWarning } from './warnings';
+import { IPV4_SPECIAL_PURPOSE_REGISTRY, IPV6_SPECIAL_PURPOSE_REGISTRY } from './special-purpose';
 import { assertIntegerInRange } from './utils';
 
+export type CidrParseErrorCode =
+  | 'EMPTY_INPUT'
+  | 'MISSING_PREFIX'
+  | 'INVALID_PREFIX'
+  | 'PREFIX_OUT_OF_RANGE'
+  | 'INVALID_ADDRESS'
+  | 'INVALID_NETMASK'
+  | 'INVALID_RANGE'
+  | 'INVALID_WILDCARD'
+  | 'UNRECOGNISED_NOTATION'
+  | 'HOST_BITS_SET';
+
+/**
+ * Parse failure with a stable code, the offending span of the input and a suggested fix
+ */
+export class CidrParseError extends Error {
+  readonly code: CidrParseErrorCode;
+  readonly input: string;
+  /** Character offsets of the offending part: `input.slice(start, end)`. */
+  readonly start: number;
+  readonly end: number;
+  readonly suggestion?: string;
+
+  constructor(
+    code: CidrParseErrorCode,
+    message: string,
+    details: { input: string; start: number; end: number; suggestion?: string }
+  ) {
+    super(message);
+    this.name = 'CidrParseError';
+    this.code = code;
+    this.input = details.input;
+    this.start = details.start;
+    this.end = details.end;
+    this.suggestion = details.suggestion;
+  }
+}
+
+/**
+ * How `parseCidr` treats addresses with bits set beyond the prefix (e.g. 10.0.0.5/24)
+ *  - NORMALISE: silently mask to the network address (default)
+ *  - WARN: normalise, and report a warning from `parseCidrSafe`
+ *  - REJECT: fail with a HOST_BITS_SET error
+ */
+export type HostBitsPolicy = 'NORMALISE' | 'WARN' | 'REJECT';
+
+export type CidrParseOptions = {
+  hostBits?: HostBitsPolicy;
+};
+
+export type CidrParseResult = Result<NormalisedCidr, CidrParseError> & { warnings: SubnetWarning[] };
+
 function isLikelyIpv6(s: string): boolean {
   return s.includes(':');
 }
@@ -29,15 +94,20 @@ export function ipv4ToBigInt(ip: string): bigint {
   return n;
 }
 
-export function bigIntToIpv4(n: bigint): string {
+export function bigIntToIpv4(n: bigint, options: AddressFormatOptions = {}): string {
   if (n < 0n || n > 0xffffffffn) throw new Error('IPv4 value out of range');
   // Convert to number first to avoid BigInt mixing issues in some environments
   const num = Number(n);
-  const a = (num >>> 24) & 0xff;
-  const b = (num >>> 16) & 0xff;
-  const c = (num >>> 8) & 0xff;
-  const d = num & 0xff;
-  return `${a}.${b}.${c}.${d}`;
+  const octets = [(num >>> 24) & 0xff, (num >>> 16) & 0xff, (num >>> 8) & 0xff, num & 0xff];
+
+  switch (options.notation) {
+    case 'padded':
+      return octets.map((o) => String(o).padStart(3, '0')).join('.');
+    case 'nibble':
+      return octets.reverse().join('.');
+    default:
+      return octets.join('.');
+  }
 }
 
 function expandEmbeddedIpv4(ipv6: string): string {
@@ -46,18 +116,15 @@ function expandEmbeddedIpv4(ipv6: string): string {
   const lastColon = ipv6.lastIndexOf(':');
   if (lastColon === -1) throw new Error('Invalid IPv6 address');
 
-  const head = ipv6.slice(0, lastColon);
+  // Keep the separator so a preceding '::' survives (e.g. 64:ff9b::192.0.2.33)
+  const head = ipv6.slice(0, lastColon + 1);
   const tail = ipv6.slice(lastColon + 1);
 
   const v4 = ipv4ToBigInt(tail);
   const hi = Number((v4 >> 16n) & 0xffffn);
   const lo = Number(v4 & 0xffffn);
 
-  const hiStr = hi.toString(16);
-  const loStr = lo.toString(16);
-
-  const sep = head.endsWith(':') ? '' : ':';
-  return `${head}${sep}${hiStr}:${loStr}`;
+  return `${head}${hi.toString(16)}:${lo.toString(16)}`;
 }
 
 export function ipv6ToBigInt(ip: string): bigint {
@@ -103,23 +170,21 @@ function hextetsToBigInt(hextets: string[]): bigint {
   return n;
 }
 
-export function bigIntToIpv6(n: bigint): string {
-  if (n < 0n || n > ((1n << 128n) - 1n)) throw new Error('IPv6 value out of range');
+// /96 ranges whose low 32 bits are an embedded IPv4 address
+const MIXED_NOTATION_PREFIXES: bigint[] = [0xffffn, 0xffff0000n, 0x0064ff9b0000000000000000n];
 
-  const hextets: number[] = new Array(8);
-  let x = n;
-  for (let i = 7; i >= 0; i--) {
-    hextets[i] = Number(x & 0xffffn);
-    x >>= 16n;
-  }
+function isMixedNotationAddress(n: bigint): boolean {
+  return MIXED_NOTATION_PREFIXES.includes(n >> 32n);
+}
 
+function compressHextets(hextets: number[]): string {
   let bestStart = -1;
   let bestLen = 0;
 
-  for (let i = 0; i < 8; ) {
+  for (let i = 0; i < hextets.length; ) {
     if (hextets[i] === 0) {
       let j = i;
-      while (j < 8 && hextets[j] === 0) j++;
+      while (j < hextets.length && hextets[j] === 0) j++;
       const len = j - i;
       if (len >= 2 && len > bestLen) {
         bestStart = i;
@@ -150,6 +215,41 @@ export function bigIntToIpv6(n: bigint): string {
   return `${left}::${right}`;
 }
 
+export function bigIntToIpv6(n: bigint, options: AddressFormatOptions = {}): string {
+  if (n < 0n || n > ((1n << 128n) - 1n)) throw new Error('IPv6 value out of range');
+
+  const notation = options.notation ?? 'compressed';
+  const out = notation === 'nibble' ? ipv6Nibbles(n) : ipv6Hextets(n, notation, !!options.mixedIpv4);
+  return options.uppercase ? out.toUpperCase() : out;
+}
+
+function ipv6Nibbles(n: bigint): string {
+  return n.toString(16).padStart(32, '0').split('').reverse().join('.');
+}
+
+function ipv6Hextets(n: bigint, notation: 'compressed' | 'expanded' | 'padded', mixedIpv4: boolean): string {
+  const hextets: number[] = new Array(8);
+  let x = n;
+  for (let i = 7; i >= 0; i--) {
+    hextets[i] = Number(x & 0xffffn);
+    x >>= 16n;
+  }
+
+  const join = (groups: number[]): string => {
+    if (notation === 'compressed') return compressHextets(groups);
+    const digits = notation === 'padded' ? 4 : 1;
+    return groups.map((h) => h.toString(16).padStart(digits, '0')).join(':');
+  };
+
+  if (mixedIpv4 && isMixedNotationAddress(n)) {
+    const head = join(hextets.slice(0, 6));
+    const v4 = bigIntToIpv4(n & 0xffffffffn);
+    return head.endsWith('::') ? `${head}${v4}` : `${head}:${v4}`;
+  }
+
+  return join(hextets);
+}
+
 export function maskFromPrefix(prefix: number, bits: 32 | 128): bigint {
   assertIntegerInRange(prefix, 0, bits, `Invalid prefix (expected 0..${bits})`);
 
@@ -170,47 +270,98 @@ export function wildcardFromPrefix(prefix: number, bits: 32 | 128): bigint {
 
 /**
  * Parse CIDR notation (FR-001, FR-002, FR-004)
+ * @throws CidrParseError
  */
-export function parseCidr(input: string): NormalisedCidr {
+export function parseCidr(input: string, options: CidrParseOptions = {}): NormalisedCidr {
+  const offset = input.length - input.trimStart().length;
   const trimmed = input.trim();
-  const parts = trimmed.split('/');
-  if (parts.length !== 2) throw new Error('Invalid CIDR (expected address/prefix)');
+  const span = (start: number, end: number, suggestion?: string) => ({
+    input,
+    start: offset + start,
+    end: offset + end,
+    suggestion,
+  });
+
+  if (trimmed.length === 0) {
+    throw new CidrParseError('EMPTY_INPUT', 'Invalid CIDR (expected address/prefix)', span(0, 0));
+  }
+
+  const slash = trimmed.indexOf('/');
+  if (slash === -1) {
+    const hostPrefix = isLikelyIpv6(trimmed) ? 128 : 32;
+    throw new CidrParseError(
+      'MISSING_PREFIX',
+      'Invalid CIDR (expected address/prefix)',
+      span(0, trimmed.length, `Append a prefix length, e.g. ${trimmed}/${hostPrefix}`)
+    );
+  }
+  const extraSlash = trimmed.indexOf('/', slash + 1);
+  if (extraSlash !== -1) {
+    throw new CidrParseError('INVALID_PREFIX', 'Invalid CIDR (expected address/prefix)', span(extraSlash, trimmed.length));
+  }
 
-  const addrStr = parts[0]?.trim();
-  const prefixStr = parts[1]?.trim();
-  if (!addrStr || !prefixStr) throw new Error('Invalid CIDR (expected address/prefix)');
-  if (!/^\d+$/.test(prefixStr)) throw new Error('Invalid CIDR prefix');
+  const rawAddr = trimmed.slice(0, slash);
+  const rawPrefix = trimmed.slice(slash + 1);
+  const addrStr = rawAddr.trim();
+  const prefixStr = rawPrefix.trim();
+  const addrStart = rawAddr.length - rawAddr.trimStart().length;
+  const prefixStart = slash + 1 + rawPrefix.length - rawPrefix.trimStart().length;
+
+  if (!addrStr || !prefixStr) {
+    throw new CidrParseError('MISSING_PREFIX', 'Invalid CIDR (expected address/prefix)', span(0, trimmed.length));
+  }
+  if (!/^\d+$/.test(prefixStr)) {
+    throw new CidrParseError('INVALID_PREFIX', 'Invalid CIDR prefix', span(prefixStart, prefixStart + prefixStr.length));
+  }
 
   const prefix = Number(prefixStr);
   const version: IpVersion = isLikelyIpv6(addrStr) ? 6 : 4;
   const bits: 32 | 128 = version === 6 ? 128 : 32;
-  assertIntegerInRange(prefix, 0, bits, `Invalid CIDR prefix (expected 0..${bits})`);
+  if (prefix > bits) {
+    throw new CidrParseError(
+      'PREFIX_OUT_OF_RANGE',
+      `Invalid CIDR prefix (expected 0..${bits})`,
+      span(prefixStart, prefixStart + prefixStr.length, `Use a prefix between 0 and ${bits}`)
+    );
+  }
 
-  const ip = version === 6 ? ipv6ToBigInt(addrStr) : ipv4ToBigInt(addrStr);
+  const ip = parseAddressAt(input, addrStr, offset + addrStart, version);
   const mask = maskFromPrefix(prefix, bits);
   const network = ip & mask;
 
+  if (network !== ip && options.hostBits === 'REJECT') {
+    throw new CidrParseError(
+      'HOST_BITS_SET',
+      `Host bits set in ${addrStr}/${prefix}`,
+      span(addrStart, addrStart + addrStr.length, hostBitsSuggestion(version, network, prefix, bits))
+    );
+  }
+
   return { version, bits, network, prefix };
 }
 
-/**
- * Parse netmask notation and convert to prefix (FR-001)
- */
-export function parseCidrWithNetmask(address: string, netmask: string): NormalisedCidr {
-  const version: IpVersion = isLikelyIpv6(address) ? 6 : 4;
-  const bits: 32 | 128 = version === 6 ? 128 : 32;
+// Parse one address of a larger input, reporting a failure against its span
+function parseAddressAt(input: string, address: string, start: number, version: IpVersion): bigint {
+  try {
+    return version === 6 ? ipv6ToBigInt(address) : ipv4ToBigInt(address);
+  } catch (error) {
+    throw new CidrParseError('INVALID_ADDRESS', (error as Error).message, { input, start, end: start + address.length });
+  }
+}
 
-  const ip = version === 6 ? ipv6ToBigInt(address) : ipv4ToBigInt(address);
-  const maskValue = version === 6 ? ipv6ToBigInt(netmask) : ipv4ToBigInt(netmask);
+function hostBitsSuggestion(version: IpVersion, network: bigint, prefix: number, bits: 32 | 128): string {
+  return `Use ${formatCidr(version, network, prefix)}, or /${bits} for a single host`;
+}
 
-  // Convert mask to prefix length by counting leading ones
+/**
+ * Convert a netmask to its prefix length, or null if the mask is not contiguous
+ */
+function netmaskToPrefix(maskValue: bigint, bits: 32 | 128): number | null {
+  // Count leading ones
   let prefix = 0;
-  let temp = maskValue;
   const maxBit = 1n << BigInt(bits - 1);
-
-  // Count leading ones
   for (let i = 0; i < bits; i++) {
-    if ((temp & (maxBit >> BigInt(i))) !== 0n) {
+    if ((maskValue & (maxBit >> BigInt(i))) !== 0n) {
       prefix++;
     } else {
       break;
@@ -218,185 +369,498 @@ export function parseCidrWithNetmask(address: string, netmask: string): Normalis
   }
 
   // Verify remaining bits are all zeros (contiguous mask)
-  const expectedMask = maskFromPrefix(prefix, bits);
-  if (maskValue !== expectedMask) {
-    throw new Error('Invalid netmask (must be contiguous ones)');
+  return maskValue === maskFromPrefix(prefix, bits) ? prefix : null;
+}
+
+/**
+ * Parse netmask notation and convert to prefix (FR-001)
+ * `options.hostBits` applies as for CIDRs; errors point into "address netmask".
+ * @throws CidrParseError
+ */
+export function parseCidrWithNetmask(address: string, netmask: string, options: CidrParseOptions = {}): NormalisedCidr {
+  return parseNetmaskAt(`${address} ${netmask}`, address, 0, netmask, address.length + 1, options);
+}
+
+function parseNetmaskAt(
+  input: string,
+  address: string,
+  addressStart: number,
+  netmask: string,
+  netmaskStart: number,
+  options: CidrParseOptions
+): NormalisedCidr {
+  const version: IpVersion = isLikelyIpv6(address) ? 6 : 4;
+  const bits: 32 | 128 = version === 6 ? 128 : 32;
+  const maskSpan = { input, start: netmaskStart, end: netmaskStart + netmask.length };
+
+  const ip = parseAddressAt(input, address, addressStart, version);
+  let maskValue: bigint;
+  try {
+    maskValue = version === 6 ? ipv6ToBigInt(netmask) : ipv4ToBigInt(netmask);
+  } catch (error) {
+    throw new CidrParseError('INVALID_NETMASK', `Invalid netmask: ${(error as Error).message}`, maskSpan);
+  }
+
+  const prefix = netmaskToPrefix(maskValue, bits);
+  if (prefix === null) {
+    throw new CidrParseError('INVALID_NETMASK', 'Invalid netmask (must be contiguous ones)', maskSpan);
   }
 
   const network = ip & maskValue;
+  if (network !== ip && options.hostBits === 'REJECT') {
+    throw new CidrParseError('HOST_BITS_SET', `Host bits set in ${address} ${netmask}`, {
+      input,
+      start: addressStart,
+      end: addressStart + address.length,
+      suggestion: hostBitsSuggestion(version, network, prefix, bits),
+    });
+  }
 
   return { version, bits, network, prefix };
 }
 
 /**
  * Convert IP range to minimal covering prefixes (FR-003)
+ * Errors point into "start-end".
+ * @throws CidrParseError
  */
 export function rangeToMinimalPrefixes(start: string, end: string): NormalisedCidr[] {
-  const version: IpVersion = isLikelyIpv6(start) ? 6 : 4;
-  const bits: 32 | 128 = version === 6 ? 128 : 32;
+  return parseRangeAt(`${start}-${end}`, start, 0, end, start.length + 1);
+}
+
+function parseRangeAt(input: string, first: string, firstStart: number, last: string, lastStart: number): NormalisedCidr[] {
+  const version: IpVersion = isLikelyIpv6(first) ? 6 : 4;
 
-  const startInt = version === 6 ? ipv6ToBigInt(start) : ipv4ToBigInt(start);
-  const endInt = version === 6 ? ipv6ToBigInt(end) : ipv4ToBigInt(end);
+  const startInt = parseAddressAt(input, first, firstStart, version);
+  const endInt = parseAddressAt(input, last, lastStart, version);
 
   if (startInt > endInt) {
-    throw new Error('Invalid range: start must be <= end');
+    throw new CidrParseError('INVALID_RANGE', 'Invalid range: start must be <= end', {
+      input,
+      start: firstStart,
+      end: lastStart + last.length,
+    });
   }
 
+  return prefixesForRange(version, startInt, endInt);
+}
+
+/**
+ * Minimal prefixes exactly covering the inclusive range start..end of integer addresses
+ */
+export function prefixesForRange(version: IpVersion, start: bigint, end: bigint): NormalisedCidr[] {
+  const bits: 32 | 128 = version === 6 ? 128 : 32;
   const result: NormalisedCidr[] = [];
-  let current = startInt;
-
-  while (current <= endInt) {
-    // Find the largest prefix that starts at current and doesn't exceed endInt
-    let prefix: number = bits;
-
-    // Find the number of trailing zeros in current (determines alignment)
-    let trailingZeros = 0;
-    let temp = current;
-    while (trailingZeros < bits && (temp & 1n) === 0n) {
-      trailingZeros++;
-      temp >>= 1n;
+  let current = start;
+
+  while (current <= end) {
+    // Largest block aligned at current that does not run past end
+    let prefix = bits;
+    while (prefix > 0) {
+      const size = 1n << BigInt(bits - prefix + 1);
+      if (current % size !== 0n || current + size - 1n > end) break;
+      prefix--;
     }
 
-    // Try progressively smaller prefixes
-    for (let p = bits - trailingZeros; p <= bits; p++) {
-      const blockSize = 1n << BigInt(bits - p);
-      const blockEnd = current + blockSize - 1n;
+    result.push({ version, bits, network: current, prefix });
+    current += 1n << BigInt(bits - prefix);
+  }
 
-      if (blockEnd <= endInt) {
-        prefix = p;
-        break;
-      }
+  return result;
+}
+
+export function formatAddress(version: IpVersion, n: bigint, options?: AddressFormatOptions): string {
+  return version === 6 ? bigIntToIpv6(n, options) : bigIntToIpv4(n, options);
+}
+
+/**
+ * Address format for CIDR, netmask and wildcard fields: the same options with nibble notation dropped
+ */
+export function prefixFormat(options?: AddressFormatOptions): AddressFormatOptions | undefined {
+  return options?.notation === 'nibble' ? { ...options, notation: undefined } : options;
+}
+
+/**
+ * Format network/prefix; nibble notation is rejected since a reversed network is not a CIDR
+ */
+export function formatCidr(version: IpVersion, network: bigint, prefix: number, options?: AddressFormatOptions): string {
+  if (options?.notation === 'nibble') throw new Error('Nibble notation applies to single addresses, not CIDRs');
+  return `${formatAddress(version, network, options)}/${prefix}`;
+}
+
+function parseIpv4Wildcard(input: string, start: number, text: string): NormalisedCidr {
+  const span = { input, start, end: start + text.length };
+  const parts = text.split('.');
+  if (parts.length !== 4) throw new CidrParseError('INVALID_WILDCARD', 'Invalid wildcard (expected a.b.*.*)', span);
+
+  const firstStar = parts.indexOf('*');
+  if (parts.slice(firstStar).some((p) => p !== '*')) {
+    throw new CidrParseError('INVALID_WILDCARD', 'Invalid wildcard (only trailing octets may be *)', span);
+  }
+
+  const octets = parts.map((p) => (p === '*' ? '0' : p));
+  const prefix = firstStar * 8;
+  return { version: 4, bits: 32, network: parseAddressAt(input, octets.join('.'), start, 4), prefix };
+}
+
+// Full end address for a shorthand range end (last octet or hextet), or null if malformed
+function expandShorthandRangeEnd(first: bigint, version: IpVersion, last: string): bigint | null {
+  if (version === 6) {
+    return /^[0-9a-f]{1,4}$/i.test(last) ? (first & ~0xffffn) | BigInt(parseInt(last, 16)) : null;
+  }
+  return /^\d{1,3}$/.test(last) && Number(last) <= 255 ? (first & ~0xffn) | BigInt(Number(last)) : null;
+}
+
+/**
+ * Parse any supported notation: CIDR, netmask, range, shorthand range, wildcard or bare address
+ * `options.hostBits` applies to CIDR and netmask notation.
+ * @throws CidrParseError
+ */
+export function parseAny(input: string, options: CidrParseOptions = {}): ParsedInput {
+  const offset = input.length - input.trimStart().length;
+  const trimmed = input.trim();
+  // Offset in `input` of a part of `trimmed`, searching from `from`
+  const at = (part: string, from = 0) => offset + trimmed.indexOf(part, from);
+
+  if (trimmed.length === 0) {
+    throw new CidrParseError('EMPTY_INPUT', 'Invalid input (empty)', { input, start: 0, end: input.length });
+  }
+
+  if (trimmed.includes('*')) {
+    return { notation: 'WILDCARD', cidrs: [parseIpv4Wildcard(input, offset, trimmed)] };
+  }
+
+  const dash = trimmed.indexOf('-');
+  if (dash !== -1) {
+    const first = trimmed.slice(0, dash).trim();
+    const last = trimmed.slice(dash + 1).trim();
+    if (!first || !last) {
+      throw new CidrParseError('INVALID_RANGE', 'Invalid range (expected start-end)', {
+        input,
+        start: offset,
+        end: offset + trimmed.length,
+      });
     }
 
-    result.push({ version, bits, network: current, prefix: prefix as typeof bits });
-    const blockSize = 1n << BigInt(bits - prefix);
-    current += blockSize;
+    const isFullAddress = isLikelyIpv6(first) ? isLikelyIpv6(last) : last.includes('.');
+    if (isFullAddress) {
+      return { notation: 'RANGE', cidrs: parseRangeAt(input, first, at(first), last, at(last, dash + 1)) };
+    }
 
-    if (current === 0n) break; // Overflow protection
+    const version: IpVersion = isLikelyIpv6(first) ? 6 : 4;
+    const start = parseAddressAt(input, first, at(first), version);
+    const end = expandShorthandRangeEnd(start, version, last);
+    const lastStart = at(last, dash + 1);
+    if (end === null) {
+      const expected = version === 6 ? 'last hextet' : 'last octet 0-255';
+      throw new CidrParseError('INVALID_RANGE', `Invalid range end (expected address or ${expected})`, {
+        input,
+        start: lastStart,
+        end: lastStart + last.length,
+      });
+    }
+    if (start > end) {
+      throw new CidrParseError('INVALID_RANGE', 'Invalid range: start must be <= end', {
+        input,
+        start: offset,
+        end: offset + trimmed.length,
+      });
+    }
+    return { notation: 'SHORTHAND_RANGE', cidrs: prefixesForRange(version, start, end) };
   }
 
-  return result;
+  const slash = trimmed.indexOf('/');
+  if (slash !== -1) {
+    const address = trimmed.slice(0, slash).trim();
+    const suffix = trimmed.slice(slash + 1).trim();
+    if (suffix.includes('.') || suffix.includes(':')) {
+      const cidr = parseNetmaskAt(input, address, at(address), suffix, at(suffix, slash + 1), options);
+      return { notation: 'NETMASK', cidrs: [cidr] };
+    }
+    return { notation: 'CIDR', cidrs: [parseCidr(input, options)] };
+  }
+
+  const words = trimmed.split(/\s+/);
+  if (words.length === 2) {
+    const [address, netmask] = words as [string, string];
+    const cidr = parseNetmaskAt(input, address, at(address), netmask, at(netmask, address.length), options);
+    return { notation: 'NETMASK', cidrs: [cidr] };
+  }
+  if (words.length > 2) {
+    throw new CidrParseError('UNRECOGNISED_NOTATION', 'Invalid input (unrecognised notation)', {
+      input,
+      start: offset,
+      end: offset + trimmed.length,
+    });
+  }
+
+  const version: IpVersion = isLikelyIpv6(trimmed) ? 6 : 4;
+  const bits: 32 | 128 = version === 6 ? 128 : 32;
+  return { notation: 'ADDRESS', cidrs: [{ version, bits, network: parseAddressAt(input, trimmed, offset, version), prefix: bits }] };
 }
 
-export function formatAddress(version: IpVersion, n: bigint): string {
-  return version === 6 ? bigIntToIpv6(n) : bigIntToIpv4(n);
+type AddressToken = {
+  start: number;
+  end: number;
+  version: IpVersion;
+  value: bigint;
+};
+
+// IPv6 (optionally with embedded IPv4) first so its hextets are not mistaken for IPv4 octets
+const ADDRESS_TOKEN =
+  /(?<![\w:.])(?:[0-9a-f]{0,4}:){2,7}(?:\d{1,3}(?:\.\d{1,3}){3}|[0-9a-f]{0,4})(?![\w:]|\.\w)|(?<![\w.])\d{1,3}(?:\.\d{1,3}){3}(?!\w|\.\d)/gi;
+const PREFIX_SUFFIX = /^\/(\d{1,3})(?!\w|\.\d)/;
+const RANGE_SEPARATOR = /^\s*-\s*$/;
+const NETMASK_SEPARATOR = /^(?:\/|\s+(?:(?:net)?mask\s+)?)$/i;
+
+function scanAddressTokens(text: string): AddressToken[] {
+  const tokens: AddressToken[] = [];
+
+  for (const match of text.matchAll(ADDRESS_TOKEN)) {
+    const raw = match[0];
+    const start = match.index ?? 0;
+    const version: IpVersion = isLikelyIpv6(raw) ? 6 : 4;
+
+    try {
+      const value = version === 6 ? ipv6ToBigInt(raw) : ipv4ToBigInt(raw);
+      tokens.push({ start, end: start + raw.length, version, value });
+    } catch {
+      // Looks like an address (timestamp, MAC, version string...) but is not one
+    }
+  }
+
+  return tokens;
 }
 
-export function formatCidr(version: IpVersion, network: bigint, prefix: number): string {
-  return `${formatAddress(version, network)}/${prefix}`;
+function toExtractedPrefix(
+  text: string,
+  kind: ExtractedPrefix['kind'],
+  start: number,
+  end: number,
+  address: AddressToken,
+  prefix: number
+): ExtractedPrefix {
+  const bits: 32 | 128 = address.version === 6 ? 128 : 32;
+  const network = address.value & maskFromPrefix(prefix, bits);
+
+  return {
+    kind,
+    text: text.slice(start, end),
+    start,
+    end,
+    cidrs: [{ version: address.version, bits, network, prefix }],
+    hostBitsSet: network !== address.value,
+  };
 }
 
 /**
- * Classify special address ranges (FR-006)
+ * Extract every address, CIDR, netmask pair and range from free text
+ *
+ * Recognises `10.0.0.0/24`, `10.0.0.1 255.255.255.0` (also with `mask`/`netmask`
+ * keywords or `/`), `10.0.0.1-10.0.0.50` and bare IPv4/IPv6 addresses (as /32 or /128).
+ * Matches are returned in input order and never overlap.
  */
-export function classifyAddress(address: string): AddressClass[] {
-  const classes: AddressClass[] = [];
-
-  try {
-    if (isLikelyIpv6(address)) {
-      const ip = ipv6ToBigInt(address);
+export function extractCidrs(text: string): ExtractedPrefix[] {
+  const tokens = scanAddressTokens(text);
+  const results: ExtractedPrefix[] = [];
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i]!;
+    const next = tokens[i + 1];
+    const bits = token.version === 6 ? 128 : 32;
+    const rest = text.slice(token.end);
+
+    // address/prefix
+    const prefixMatch = PREFIX_SUFFIX.exec(rest);
+    if (prefixMatch && Number(prefixMatch[1]) <= bits) {
+      const end = token.end + prefixMatch[0].length;
+      results.push(toExtractedPrefix(text, 'CIDR', token.start, end, token, Number(prefixMatch[1])));
+      continue;
+    }
 
-      // Unspecified ::/128
-      if (ip === 0n) {
-        classes.push(AddressClass.UNSPECIFIED);
-      }
-      // Loopback ::1/128
-      else if (ip === 1n) {
-        classes.push(AddressClass.LOOPBACK);
-      }
-      // Multicast ff00::/8 (check before unique local)
-      else if ((ip >> 120n) === 0xffn) {
-        classes.push(AddressClass.MULTICAST);
-      }
-      // Link-local fe80::/10
-      else if ((ip >> 118n) === 0x3fan) {
-        classes.push(AddressClass.LINK_LOCAL);
+    if (next && next.version === token.version) {
+      const gap = text.slice(token.end, next.start);
+
+      // start-end
+      if (RANGE_SEPARATOR.test(gap) && token.value <= next.value) {
+        const first = formatAddress(token.version, token.value);
+        const last = formatAddress(next.version, next.value);
+        results.push({
+          kind: 'RANGE',
+          text: text.slice(token.start, next.end),
+          start: token.start,
+          end: next.end,
+          cidrs: rangeToMinimalPrefixes(first, last),
+          hostBitsSet: false,
+        });
+        i++;
+        continue;
       }
-      // Unique local fc00::/7
-      else if ((ip >> 121n) === 0x7en || (ip >> 121n) === 0x7fn) {
-        classes.push(AddressClass.UNIQUE_LOCAL);
-        classes.push(AddressClass.PRIVATE);
-      }
-      // Documentation 2001:db8::/32
-      else if ((ip >> 96n) === 0x20010db8n) {
-        classes.push(AddressClass.DOCUMENTATION);
-      }
-      // Global unicast (2000::/3)
-      else if ((ip >> 125n) === 0x1n) {
-        classes.push(AddressClass.GLOBAL_UNICAST);
-        classes.push(AddressClass.PUBLIC);
-      }
-      // Reserved
-      else {
-        classes.push(AddressClass.RESERVED);
-      }
-    } else {
-      const ip = ipv4ToBigInt(address);
 
-      // Unspecified 0.0.0.0
-      if (ip === 0n) {
-        classes.push(AddressClass.UNSPECIFIED);
-      }
-      // Loopback 127.0.0.0/8
-      else if ((ip >> 24n) === 127n) {
-        classes.push(AddressClass.LOOPBACK);
-      }
-      // Multicast 224.0.0.0/4 (check before private ranges)
-      else if ((ip >> 28n) === 0xen) {
-        classes.push(AddressClass.MULTICAST);
-      }
-      // Reserved (240.0.0.0/4 except broadcast, check before private)
-      else if ((ip >> 28n) === 0xfn && ip !== 0xffffffffn) {
-        classes.push(AddressClass.RESERVED);
-      }
-      // Broadcast 255.255.255.255
-      else if (ip === 0xffffffffn) {
-        classes.push(AddressClass.BROADCAST);
-      }
-      // Private 10.0.0.0/8
-      else if ((ip >> 24n) === 10n) {
-        classes.push(AddressClass.PRIVATE);
-      }
-      // Private 172.16.0.0/12 (172.16.0.0 - 172.31.255.255)
-      else if ((ip >> 20n) === 0xac1n) {
-        classes.push(AddressClass.PRIVATE);
-      }
-      // Private 192.168.0.0/16
-      else if ((ip >> 16n) === 0xc0a8n) {
-        classes.push(AddressClass.PRIVATE);
-      }
-      // Link-local 169.254.0.0/16
-      else if ((ip >> 16n) === 0xa9fen) {
-        classes.push(AddressClass.LINK_LOCAL);
-      }
-      // Documentation 192.0.2.0/24, 198.51.100.0/24, 203.0.113.0/24
-      else if (
-        (ip >> 8n) === 0xc00002n ||
-        (ip >> 8n) === 0xc63364n ||
-        (ip >> 8n) === 0xcb0071n
-      ) {
-        classes.push(AddressClass.DOCUMENTATION);
-      }
-      // Public
-      else {
-        classes.push(AddressClass.PUBLIC);
+      // address/netmask or address netmask (Cisco / ifconfig style)
+      if (token.version === 4 && NETMASK_SEPARATOR.test(gap)) {
+        const prefix = netmaskToPrefix(next.value, 32);
+        if (prefix !== null) {
+          results.push(toExtractedPrefix(text, 'NETMASK', token.start, next.end, token, prefix));
+          i++;
+          continue;
+        }
       }
     }
+
+    results.push(toExtractedPrefix(text, 'ADDRESS', token.start, token.end, token, bits));
+  }
+
+  return results;
+}
+
+type CompiledRange = { cidr: NormalisedCidr; range: SpecialPurposeRange };
+
+let compiledRegistry: { 4: CompiledRange[]; 6: CompiledRange[] } | null = null;
+
+// Parsed on first use; sorted least to most specific
+function specialPurposeRanges(version: IpVersion): CompiledRange[] {
+  if (!compiledRegistry) {
+    const compile = (ranges: readonly SpecialPurposeRange[]) =>
+      ranges
+        .map((range) => ({ cidr: parseCidr(range.cidr), range }))
+        .sort((a, b) => a.cidr.prefix - b.cidr.prefix);
+    compiledRegistry = {
+      4: compile(IPV4_SPECIAL_PURPOSE_REGISTRY),
+      6: compile(IPV6_SPECIAL_PURPOSE_REGISTRY),
+    };
+  }
+  return compiledRegistry[version];
+}
+
+const PUBLIC_ATTRIBUTES: SpecialPurposeAttributes = {
+  source: true,
+  destination: true,
+  forwardable: true,
+  globallyReachable: true,
+  reservedByProtocol: false,
+};
+
+const UNKNOWN_ATTRIBUTES: SpecialPurposeAttributes = {
+  source: null,
+  destination: null,
+  forwardable: null,
+  globallyReachable: null,
+  reservedByProtocol: null,
+};
+
+/**
+ * Classify an address against the IANA special-purpose registries (FR-006)
+ * @throws Error if the address is invalid
+ */
+export function classifyAddressDetailed(address: string): AddressClassification {
+  const version: IpVersion = isLikelyIpv6(address) ? 6 : 4;
+  const bits = version === 6 ? 128 : 32;
+  const ip = version === 6 ? ipv6ToBigInt(address) : ipv4ToBigInt(address);
+
+  const ranges = specialPurposeRanges(version)
+    .filter(({ cidr }) => ip >> BigInt(bits - cidr.prefix) === cidr.network >> BigInt(bits - cidr.prefix))
+    .map(({ range }) => range);
+
+  const mostSpecific = ranges[ranges.length - 1];
+  if (mostSpecific) {
+    const { source, destination, forwardable, globallyReachable, reservedByProtocol } = mostSpecific;
+    return { classes: [...mostSpecific.classes], ranges, source, destination, forwardable, globallyReachable, reservedByProtocol };
+  }
+
+  // Not special-purpose: IPv4 is public; IPv6 is public only within global unicast 2000::/3
+  if (version === 4 || ip >> 125n === 0x1n) {
+    const classes = version === 6 ? [AddressClass.GLOBAL_UNICAST, AddressClass.PUBLIC] : [AddressClass.PUBLIC];
+    return { classes, ranges, ...PUBLIC_ATTRIBUTES };
+  }
+  return { classes: [AddressClass.RESERVED], ranges, ...UNKNOWN_ATTRIBUTES };
+}
+
+/**
+ * Classify special address ranges (FR-006)
+ * Returns an empty list for invalid addresses.
+ */
+export function classifyAddress(address: string): AddressClass[] {
+  try {
+    return classifyAddressDetailed(address).classes;
   } catch {
-    // Invalid address
+    return [];
+  }
+}
+
+// Classes of the space outside every registry entry: full for the whole block, partial where it straddles 2000::/3
+function unregisteredClasses(cidr: NormalisedCidr): { full: AddressClass[]; partial: AddressClass[] } {
+  if (cidr.version === 4) return { full: [AddressClass.PUBLIC], partial: [] };
+  const globalUnicast = [AddressClass.GLOBAL_UNICAST, AddressClass.PUBLIC];
+  if (cidr.prefix < 3) return { full: [], partial: [...globalUnicast, AddressClass.RESERVED] };
+  return cidr.network >> 125n === 0x1n ? { full: globalUnicast, partial: [] } : { full: [AddressClass.RESERVED], partial: [] };
+}
+
+/**
+ * Classify a prefix against the IANA special-purpose registries
+ * `classes` hold for every address in the prefix; `partialClasses` only for some,
+ * e.g. 172.0.0.0/10 is partly PRIVATE because it contains 172.16.0.0/12.
+ */
+export function classifyPrefix(cidr: NormalisedCidr): PrefixClassification {
+  const shift = (prefix: number) => BigInt(cidr.bits - prefix);
+  const matches: PrefixClassification['matches'] = [];
+  const within: SpecialPurposeRange[] = [];
+  const contained: SpecialPurposeRange[] = [];
+
+  for (const { cidr: entry, range } of specialPurposeRanges(cidr.version)) {
+    if (entry.prefix <= cidr.prefix) {
+      if (cidr.network >> shift(entry.prefix) !== entry.network >> shift(entry.prefix)) continue;
+      within.push(range);
+      matches.push({ range, relation: 'WITHIN' });
+    } else {
+      if (entry.network >> shift(cidr.prefix) !== cidr.network >> shift(cidr.prefix)) continue;
+      contained.push(range);
+      matches.push({ range, relation: 'CONTAINS' });
+    }
   }
 
-  return classes;
+  const mostSpecific = within[within.length - 1];
+  const base = mostSpecific ? { full: mostSpecific.classes, partial: [] } : unregisteredClasses(cidr);
+  if (contained.length === 0) {
+    return { classes: [...base.full], partialClasses: [...base.partial], matches };
+  }
+
+  // Addresses inside a contained entry take its classes instead of the base ones
+  const classes = base.full.filter((c) => contained.every((range) => range.classes.includes(c)));
+  const partialClasses = [...new Set([...base.full, ...base.partial, ...contained.flatMap((r) => r.classes)])].filter(
+    (c) => !classes.includes(c)
+  );
+  return { classes, partialClasses, matches };
 }
 
 /**
  * Safe parsing with Result type
+ * Never throws; with `hostBits: 'WARN'` a normalised address is reported in `warnings`.
  */
-export function parseCidrSafe(input: string): Result<NormalisedCidr> {
+export function parseCidrSafe(input: string, options: CidrParseOptions = {}): CidrParseResult {
   try {
-    return { ok: true, value: parseCidr(input) };
+    const value = parseCidr(input, options);
+    const warnings: SubnetWarning[] = [];
+
+    if (options.hostBits === 'WARN') {
+      const addrStr = input.trim().split('/')[0]!.trim();
+      const ip = value.version === 6 ? ipv6ToBigInt(addrStr) : ipv4ToBigInt(addrStr);
+      if (ip !== value.network) {
+        warnings.push({
+          level: 'WARNING',
+          code: 'HOST_BITS_SET',
+          message: `Host bits set in ${input.trim()}; normalised to ${formatCidr(value.version, value.network, value.prefix)}`,
+          suggestion: hostBitsSuggestion(value.version, value.network, value.prefix, value.bits),
+        });
+      }
+    }
+
+    return { ok: true, value, warnings };
   } catch (error) {
-    return { ok: false, error: error as Error };
+    const parseError =
+      error instanceof CidrParseError
+        ? error
+        : new CidrParseError('INVALID_ADDRESS', (error as Error).message, { input, start: 0, end: input.length });
+    return { ok: false, error: parseError, warnings: [] };
   }
 }
-
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { PrefixSet } from './prefix-set';
+import { parseCidr } from './parser';
+
+const set = (...list: string[]) => PrefixSet.from(list.map((c) => parseCidr(c)));
+
+describe('PrefixSet', () => {
+  it('should normalise duplicates, overlaps and adjacent prefixes', () => {
+    const s = set('10.0.1.0/24', '10.0.0.0/24', '10.0.0.128/25', '10.0.1.0/24');
+
+    expect(s.toString()).toBe('10.0.0.0/23');
+    expect(s.addressCount()).toBe(512n);
+  });
+
+  it('should list IPv4 before IPv6', () => {
+    const s = set('2001:db8::/32', '10.0.0.0/8');
+
+    expect(s.toString()).toBe('10.0.0.0/8, 2001:db8::/32');
+    expect(s.addressCount(4)).toBe(1n << 24n);
+    expect(s.addressCount(6)).toBe(1n << 96n);
+  });
+
+  it('should combine sets', () => {
+    const a = set('10.0.0.0/22');
+    const b = set('10.0.2.0/23', '10.0.4.0/24');
+
+    expect(a.union(b).toString()).toBe('10.0.0.0/22, 10.0.4.0/24');
+    expect(a.intersection(b).toString()).toBe('10.0.2.0/23');
+    expect(a.difference(b).toString()).toBe('10.0.0.0/23');
+    expect(a.symmetricDifference(b).toString()).toBe('10.0.0.0/23, 10.0.4.0/24');
+  });
+
+  it('should split around several holes', () => {
+    const s = set('10.0.0.0/24').difference(set('10.0.0.0/32', '10.0.0.255/32', '10.0.0.64/26'));
+
+    expect(s.toString()).toBe(
+      '10.0.0.1/32, 10.0.0.2/31, 10.0.0.4/30, 10.0.0.8/29, 10.0.0.16/28, 10.0.0.32/27, 10.0.0.128/26, ' +
+        '10.0.0.192/27, 10.0.0.224/28, 10.0.0.240/29, 10.0.0.248/30, 10.0.0.252/31, 10.0.0.254/32'
+    );
+    expect(s.addressCount()).toBe(190n);
+  });
+
+  it('should complement within a universe', () => {
+    const s = set('10.0.0.0/25', '10.0.1.0/24');
+
+    expect(s.complement(parseCidr('10.0.0.0/23')).toString()).toBe('10.0.0.128/25');
+    expect(s.complement(parseCidr('2001:db8::/64')).toString()).toBe('2001:db8::/64');
+  });
+
+  it('should test coverage and overlap', () => {
+    const s = set('10.0.0.0/23');
+
+    expect(s.covers(parseCidr('10.0.1.0/24'))).toBe(true);
+    expect(s.covers(parseCidr('10.0.0.0/22'))).toBe(false);
+    expect(s.overlaps(parseCidr('10.0.0.0/22'))).toBe(true);
+    expect(s.overlaps(parseCidr('10.0.2.0/24'))).toBe(false);
+    expect(s.isEmpty()).toBe(false);
+    expect(s.difference(s).isEmpty()).toBe(true);
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Exact set algebra over prefix lists, as sorted disjoint address ranges per family
+ */
+
+import type { IpVersion, NormalisedCidr } from './types';
+import { formatCidr, prefixesForRange } from './parser';
+
+type AddressRange = { start: bigint; end: bigint };
+type FamilyRanges = Record<IpVersion, AddressRange[]>;
+
+const FAMILIES: IpVersion[] = [4, 6];
+
+function lastAddress(cidr: NormalisedCidr): bigint {
+  return cidr.network + (1n << BigInt(cidr.bits - cidr.prefix)) - 1n;
+}
+
+// Sort and coalesce overlapping or touching ranges
+function normalise(ranges: AddressRange[]): AddressRange[] {
+  const sorted = [...ranges].sort((a, b) => (a.start < b.start ? -1 : a.start > b.start ? 1 : 0));
+  const merged: AddressRange[] = [];
+  for (const range of sorted) {
+    const previous = merged[merged.length - 1];
+    if (previous && range.start <= previous.end + 1n) {
+      if (range.end > previous.end) previous.end = range.end;
+    } else {
+      merged.push({ ...range });
+    }
+  }
+  return merged;
+}
+
+function intersect(a: AddressRange[], b: AddressRange[]): AddressRange[] {
+  const result: AddressRange[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    const x = a[i]!;
+    const y = b[j]!;
+    const start = x.start > y.start ? x.start : y.start;
+    const end = x.end < y.end ? x.end : y.end;
+    if (start <= end) result.push({ start, end });
+    if (x.end < y.end) i++;
+    else j++;
+  }
+  return result;
+}
+
+function subtract(a: AddressRange[], b: AddressRange[]): AddressRange[] {
+  const result: AddressRange[] = [];
+  let j = 0;
+  for (const range of a) {
+    let cursor = range.start;
+    while (j < b.length && b[j]!.end < cursor) j++;
+    for (let k = j; k < b.length && b[k]!.start <= range.end; k++) {
+      const cut = b[k]!;
+      if (cut.start > cursor) result.push({ start: cursor, end: cut.start - 1n });
+      if (cut.end + 1n > cursor) cursor = cut.end + 1n;
+    }
+    if (cursor <= range.end) result.push({ start: cursor, end: range.end });
+  }
+  return result;
+}
+
+/**
+ * Immutable set of IPv4 and IPv6 addresses built from prefixes
+ * Operations are exact; results convert back to minimal CIDR lists with `toPrefixes`.
+ */
+export class PrefixSet {
+  private constructor(private readonly ranges: FamilyRanges) {}
+
+  /**
+   * Set covering every address of the given prefixes (duplicates and overlaps allowed)
+   */
+  static from(cidrs: Iterable<NormalisedCidr>): PrefixSet {
+    const ranges: FamilyRanges = { 4: [], 6: [] };
+    for (const cidr of cidrs) {
+      ranges[cidr.version].push({ start: cidr.network, end: lastAddress(cidr) });
+    }
+    return new PrefixSet({ 4: normalise(ranges[4]), 6: normalise(ranges[6]) });
+  }
+
+  private combine(other: PrefixSet, op: (a: AddressRange[], b: AddressRange[]) => AddressRange[]): PrefixSet {
+    return new PrefixSet({ 4: op(this.ranges[4], other.ranges[4]), 6: op(this.ranges[6], other.ranges[6]) });
+  }
+
+  /** Addresses in either set. */
+  union(other: PrefixSet): PrefixSet {
+    return this.combine(other, (a, b) => normalise([...a, ...b]));
+  }
+
+  /** Addresses in both sets. */
+  intersection(other: PrefixSet): PrefixSet {
+    return this.combine(other, intersect);
+  }
+
+  /** Addresses in this set but not the other. */
+  difference(other: PrefixSet): PrefixSet {
+    return this.combine(other, subtract);
+  }
+
+  /** Addresses in exactly one of the sets. */
+  symmetricDifference(other: PrefixSet): PrefixSet {
+    return this.difference(other).union(other.difference(this));
+  }
+
+  /** Addresses of `universe` not in this set. */
+  complement(universe: NormalisedCidr): PrefixSet {
+    return PrefixSet.from([universe]).difference(this);
+  }
+
+  /** True if every address of the prefix is in the set. */
+  covers(cidr: NormalisedCidr): boolean {
+    const end = lastAddress(cidr);
+    return this.ranges[cidr.version].some((r) => r.start <= cidr.network && r.end >= end);
+  }
+
+  /** True if any address of the prefix is in the set. */
+  overlaps(cidr: NormalisedCidr): boolean {
+    const end = lastAddress(cidr);
+    return this.ranges[cidr.version].some((r) => r.start <= end && r.end >= cidr.network);
+  }
+
+  isEmpty(): boolean {
+    return this.ranges[4].length === 0 && this.ranges[6].length === 0;
+  }
+
+  /** Number of addresses in the set, optionally for one family. */
+  addressCount(version?: IpVersion): bigint {
+    const families = version === undefined ? FAMILIES : [version];
+    return families.reduce(
+      (sum, v) => this.ranges[v].reduce((acc, r) => acc + r.end - r.start + 1n, sum),
+      0n
+    );
+  }
+
+  /** Minimal prefixes covering exactly the set, IPv4 first, in address order. */
+  toPrefixes(): NormalisedCidr[] {
+    return FAMILIES.flatMap((version) =>
+      this.ranges[version].flatMap(({ start, end }) => prefixesForRange(version, start, end))
+    );
+  }
+
+  toString(): string {
+    return this.toPrefixes()
+      .map((c) => formatCidr(c.version, c.network, c.prefix))
+      .join(', ');
+  }
+}
@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import { PrefixTrie, cachedIndex, indexPrefixes } from './prefix-trie';
+import { containsPrefix } from './set-operations';
+import { formatCidr, parseCidr } from './parser';
+import type { NormalisedCidr } from './types';
+
+const fmt = (c: NormalisedCidr) => formatCidr(c.version, c.network, c.prefix);
+
+function build(list: string[]): PrefixTrie<string> {
+  const trie = new PrefixTrie<string>();
+  for (const c of list) trie.insert(parseCidr(c), c);
+  return trie;
+}
+
+describe('PrefixTrie', () => {
+  const routes = ['0.0.0.0/0', '10.0.0.0/8', '10.1.0.0/16', '10.1.2.0/24', '10.1.3.0/24', '2001:db8::/32', '2001:db8:1::/48'];
+
+  it('should store, replace and look up exact prefixes', () => {
+    const trie = build(routes);
+
+    expect(trie.size).toBe(7);
+    expect(trie.get(parseCidr('10.1.0.0/16'))).toBe('10.1.0.0/16');
+    expect(trie.get(parseCidr('10.1.0.0/17'))).toBeUndefined();
+    expect(trie.has(parseCidr('2001:db8::/32'))).toBe(true);
+
+    trie.insert(parseCidr('10.1.0.0/16'), 'replaced');
+    expect(trie.size).toBe(7);
+    expect(trie.get(parseCidr('10.1.0.0/16'))).toBe('replaced');
+  });
+
+  it('should find the longest match for addresses and prefixes', () => {
+    const trie = build(routes);
+
+    expect(trie.longestMatch('10.1.2.3')?.value).toBe('10.1.2.0/24');
+    expect(trie.longestMatch('10.1.4.1')?.value).toBe('10.1.0.0/16');
+    expect(trie.longestMatch('192.0.2.1')?.value).toBe('0.0.0.0/0');
+    expect(trie.longestMatch(parseCidr('10.1.2.0/23'))?.value).toBe('10.1.0.0/16');
+    expect(trie.longestMatch('2001:db8:1:2::1')?.value).toBe('2001:db8:1::/48');
+    expect(trie.longestMatch('2001:db9::1')).toBeNull();
+  });
+
+  it('should list covering and covered prefixes', () => {
+    const trie = build(routes);
+
+    expect(trie.covering(parseCidr('10.1.2.128/25')).map((e) => e.value)).toEqual([
+      '0.0.0.0/0',
+      '10.0.0.0/8',
+      '10.1.0.0/16',
+      '10.1.2.0/24',
+    ]);
+    expect(trie.covered(parseCidr('10.0.0.0/8')).map((e) => e.value)).toEqual([
+      '10.0.0.0/8',
+      '10.1.0.0/16',
+      '10.1.2.0/24',
+      '10.1.3.0/24',
+    ]);
+    expect(trie.covered(parseCidr('10.1.2.0/23')).map((e) => e.value)).toEqual(['10.1.2.0/24', '10.1.3.0/24']);
+    expect(trie.covered(parseCidr('10.2.0.0/16'))).toEqual([]);
+  });
+
+  it('should enumerate overlapping pairs', () => {
+    const pairs = build(['10.0.0.0/8', '10.1.0.0/16', '192.168.0.0/24', '10.1.1.0/24']).overlaps();
+
+    expect(pairs.map(([a, b]) => `${a.value} > ${b.value}`)).toEqual([
+      '10.0.0.0/8 > 10.1.0.0/16',
+      '10.0.0.0/8 > 10.1.1.0/24',
+      '10.1.0.0/16 > 10.1.1.0/24',
+    ]);
+  });
+
+  it('should delete prefixes and keep the remaining structure intact', () => {
+    const trie = build(routes);
+
+    expect(trie.delete(parseCidr('10.1.0.0/16'))).toBe(true);
+    expect(trie.delete(parseCidr('10.1.0.0/16'))).toBe(false);
+    expect(trie.delete(parseCidr('10.9.0.0/16'))).toBe(false);
+    expect(trie.size).toBe(6);
+    expect(trie.longestMatch('10.1.4.1')?.value).toBe('10.0.0.0/8');
+    expect(trie.longestMatch('10.1.3.1')?.value).toBe('10.1.3.0/24');
+
+    for (const c of routes) trie.delete(parseCidr(c));
+    expect(trie.size).toBe(0);
+    expect([...trie.entries()]).toEqual([]);
+  });
+
+  it('should agree with a linear scan on random prefixes', () => {
+    // Deterministic LCG so failures reproduce
+    let seed = 12345;
+    const random = (n: number) => {
+      seed = (seed * 1103515245 + 12345) % 2147483648;
+      return seed % n;
+    };
+    const cidrs = Array.from({ length: 300 }, () => {
+      const prefix = 8 + random(17);
+      const network = (BigInt(10 * 2 ** 24 + random(2 ** 16) * 256) >> BigInt(32 - prefix)) << BigInt(32 - prefix);
+      return { version: 4, bits: 32, network, prefix } as NormalisedCidr;
+    });
+    const trie = indexPrefixes(cidrs);
+
+    for (const probe of cidrs.slice(0, 50)) {
+      const covered = cidrs.filter((c) => containsPrefix(probe, c)).map(fmt).sort();
+      const covering = cidrs.filter((c) => containsPrefix(c, probe)).map(fmt).sort();
+      expect([...new Set(covered)]).toEqual(trie.covered(probe).map((e) => fmt(e.cidr)).sort());
+      expect([...new Set(covering)]).toEqual(trie.covering(probe).map((e) => fmt(e.cidr)).sort());
+    }
+    expect(trie.size).toBe(new Set(cidrs.map(fmt)).size);
+  });
+
+  it('should reuse the cached index until the list changes', () => {
+    const cidrs = ['10.0.0.0/8', '10.1.0.0/16'].map((c) => parseCidr(c));
+    const trie = cachedIndex(cidrs);
+    expect(cachedIndex(cidrs)).toBe(trie);
+
+    cidrs.push(parseCidr('10.1.2.0/24'));
+    const rebuilt = cachedIndex(cidrs);
+    expect(rebuilt).not.toBe(trie);
+    expect(rebuilt.longestMatch('10.1.2.3')!.value).toEqual([2]);
+
+    cidrs[2] = parseCidr('10.1.3.0/24');
+    expect(cachedIndex(cidrs).longestMatch('10.1.2.3')!.value).toEqual([1]);
+  });
+});
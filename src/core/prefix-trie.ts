@@ -0,0 +1,249 @@
+/**
+ * Path-compressed binary (Patricia) trie over prefixes, one per address family
+ */
+
+import type { IpVersion, NormalisedCidr } from './types';
+import { ipv4ToBigInt, ipv6ToBigInt } from './parser';
+
+export type TrieEntry<T> = {
+  cidr: NormalisedCidr;
+  value: T;
+};
+
+type TrieNode<T> = {
+  /** Network with host bits cleared. */
+  network: bigint;
+  prefix: number;
+  entry?: TrieEntry<T>;
+  children: [TrieNode<T> | undefined, TrieNode<T> | undefined];
+};
+
+function familyBits(version: IpVersion): 32 | 128 {
+  return version === 6 ? 128 : 32;
+}
+
+function maskNetwork(network: bigint, prefix: number, bits: number): bigint {
+  return (network >> BigInt(bits - prefix)) << BigInt(bits - prefix);
+}
+
+// Bit `index` of an address, counting from the most significant (0)
+function bitAt(network: bigint, index: number, bits: number): 0 | 1 {
+  return ((network >> BigInt(bits - 1 - index)) & 1n) === 1n ? 1 : 0;
+}
+
+// True if the node's prefix covers (or equals) network/prefix
+function nodeCovers<T>(node: TrieNode<T>, network: bigint, prefix: number, bits: number): boolean {
+  return node.prefix <= prefix && maskNetwork(network, node.prefix, bits) === node.network;
+}
+
+// Length of the common leading bits of two networks, capped at `limit`
+function commonLength(a: bigint, b: bigint, limit: number, bits: number): number {
+  let length = 0;
+  while (length < limit && bitAt(a, length, bits) === bitAt(b, length, bits)) length++;
+  return length;
+}
+
+function emptyNode<T>(network: bigint, prefix: number): TrieNode<T> {
+  return { network, prefix, children: [undefined, undefined] };
+}
+
+function toTarget(target: NormalisedCidr | string): { version: IpVersion; network: bigint; prefix: number } {
+  if (typeof target !== 'string') return target;
+  return target.includes(':')
+    ? { version: 6, network: ipv6ToBigInt(target), prefix: 128 }
+    : { version: 4, network: ipv4ToBigInt(target), prefix: 32 };
+}
+
+/**
+ * Prefix-keyed map with longest-prefix match and containment queries
+ * Lookups walk at most one node per stored prefix length, whatever the number of entries.
+ */
+export class PrefixTrie<T> {
+  private readonly roots: Record<IpVersion, TrieNode<T>> = { 4: emptyNode(0n, 0), 6: emptyNode(0n, 0) };
+  private count = 0;
+
+  /** Number of stored prefixes. */
+  get size(): number {
+    return this.count;
+  }
+
+  /**
+   * Store a value under a prefix, replacing any value already stored there
+   */
+  insert(cidr: NormalisedCidr, value: T): this {
+    const bits = familyBits(cidr.version);
+    const network = maskNetwork(cidr.network, cidr.prefix, bits);
+    let node = this.roots[cidr.version];
+
+    for (;;) {
+      if (node.prefix === cidr.prefix) {
+        if (!node.entry) this.count++;
+        node.entry = { cidr, value };
+        return this;
+      }
+
+      const bit = bitAt(network, node.prefix, bits);
+      const child = node.children[bit];
+      if (!child) {
+        const leaf = emptyNode<T>(network, cidr.prefix);
+        leaf.entry = { cidr, value };
+        node.children[bit] = leaf;
+        this.count++;
+        return this;
+      }
+
+      const common = commonLength(child.network, network, Math.min(child.prefix, cidr.prefix), bits);
+      if (common === child.prefix) {
+        node = child;
+        continue;
+      }
+
+      // Split the edge: the new prefix (or a glue node) goes between node and child
+      const between = emptyNode<T>(maskNetwork(network, common, bits), common);
+      between.children[bitAt(child.network, common, bits)] = child;
+      node.children[bit] = between;
+      node = between;
+    }
+  }
+
+  /**
+   * Remove a prefix; returns false if it was not stored
+   */
+  delete(cidr: NormalisedCidr): boolean {
+    const path = this.path(cidr);
+    const node = path[path.length - 1];
+    if (!node || node.prefix !== cidr.prefix || !node.entry) return false;
+
+    node.entry = undefined;
+    this.count--;
+
+    // Drop or bypass nodes left without an entry and with fewer than two children
+    for (let i = path.length - 1; i > 0; i--) {
+      const current = path[i]!;
+      const parent = path[i - 1]!;
+      if (current.entry) break;
+      const [left, right] = current.children;
+      if (left && right) break;
+      const slot = parent.children[0] === current ? 0 : 1;
+      parent.children[slot] = left ?? right;
+    }
+    return true;
+  }
+
+  /** Value stored under exactly this prefix. */
+  get(cidr: NormalisedCidr): T | undefined {
+    const node = this.path(cidr).pop();
+    return node?.prefix === cidr.prefix ? node.entry?.value : undefined;
+  }
+
+  has(cidr: NormalisedCidr): boolean {
+    const node = this.path(cidr).pop();
+    return node?.prefix === cidr.prefix && !!node.entry;
+  }
+
+  /**
+   * Most specific stored prefix covering an address or prefix, or null
+   */
+  longestMatch(target: NormalisedCidr | string): TrieEntry<T> | null {
+    const covering = this.covering(target);
+    return covering[covering.length - 1] ?? null;
+  }
+
+  /**
+   * Every stored prefix covering an address or prefix (including the prefix itself), shortest first
+   */
+  covering(target: NormalisedCidr | string): TrieEntry<T>[] {
+    return this.path(target).flatMap((node) => (node.entry ? [node.entry] : []));
+  }
+
+  /**
+   * Every stored prefix inside a prefix (including the prefix itself), in address order
+   */
+  covered(cidr: NormalisedCidr): TrieEntry<T>[] {
+    const bits = familyBits(cidr.version);
+    const network = maskNetwork(cidr.network, cidr.prefix, bits);
+    let node: TrieNode<T> | undefined = this.roots[cidr.version];
+
+    while (node && node.prefix < cidr.prefix) {
+      node = node.children[bitAt(network, node.prefix, bits)];
+    }
+    if (!node || maskNetwork(node.network, cidr.prefix, bits) !== network) return [];
+    return [...this.walk(node)];
+  }
+
+  /**
+   * Every pair of stored prefixes where the first covers the second
+   */
+  overlaps(): Array<[TrieEntry<T>, TrieEntry<T>]> {
+    const pairs: Array<[TrieEntry<T>, TrieEntry<T>]> = [];
+    const visit = (node: TrieNode<T>, ancestors: TrieEntry<T>[]) => {
+      const inner = node.entry ? [...ancestors, node.entry] : ancestors;
+      if (node.entry) {
+        for (const ancestor of ancestors) pairs.push([ancestor, node.entry]);
+      }
+      for (const child of node.children) {
+        if (child) visit(child, inner);
+      }
+    };
+    visit(this.roots[4], []);
+    visit(this.roots[6], []);
+    return pairs;
+  }
+
+  /** Every entry, IPv4 first, in address order (covering prefixes before the prefixes they cover). */
+  *entries(): Generator<TrieEntry<T>> {
+    yield* this.walk(this.roots[4]);
+    yield* this.walk(this.roots[6]);
+  }
+
+  private *walk(node: TrieNode<T>): Generator<TrieEntry<T>> {
+    if (node.entry) yield node.entry;
+    for (const child of node.children) {
+      if (child) yield* this.walk(child);
+    }
+  }
+
+  // Nodes from the root down to the deepest one covering the target
+  private path(target: NormalisedCidr | string): TrieNode<T>[] {
+    const { version, network, prefix } = toTarget(target);
+    const bits = familyBits(version);
+    const path: TrieNode<T>[] = [];
+    let node: TrieNode<T> | undefined = this.roots[version];
+
+    while (node && nodeCovers(node, network, prefix, bits)) {
+      path.push(node);
+      if (node.prefix === prefix) break;
+      node = node.children[bitAt(network, node.prefix, bits)];
+    }
+    return path;
+  }
+}
+
+/**
+ * Index a prefix list by prefix, keeping the positions of every occurrence
+ */
+export function indexPrefixes(cidrs: NormalisedCidr[]): PrefixTrie<number[]> {
+  const trie = new PrefixTrie<number[]>();
+  cidrs.forEach((cidr, i) => {
+    const positions = trie.get(cidr);
+    if (positions) positions.push(i);
+    else trie.insert(cidr, [i]);
+  });
+  return trie;
+}
+
+const indexCache = new WeakMap<NormalisedCidr[], { snapshot: NormalisedCidr[]; trie: PrefixTrie<number[]> }>();
+
+/**
+ * `indexPrefixes`, reused across calls while the list still holds the same prefix objects
+ * The trie is shared between callers, so treat it as read-only.
+ */
+export function cachedIndex(cidrs: NormalisedCidr[]): PrefixTrie<number[]> {
+  const cached = indexCache.get(cidrs);
+  if (cached && cached.snapshot.length === cidrs.length && cached.snapshot.every((c, i) => c === cidrs[i])) {
+    return cached.trie;
+  }
+  const trie = indexPrefixes(cidrs);
+  indexCache.set(cidrs, { snapshot: [...cidrs], trie });
+  return trie;
+}
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { RESERVATION_PROFILES, parseReservationProfile, reservedAddresses } from './reservations';
+import { subnetMeta, usableRange } from './calculations';
+import { parseCidr } from './parser';
+
+describe('Reservation profiles', () => {
+  it('should keep network and broadcast as the default reservations', () => {
+    const cidr = parseCidr('10.0.0.0/24');
+    expect(reservedAddresses(cidr.network, 24, 4, 32).map((r) => r.reason)).toEqual(['Network address', 'Broadcast address']);
+    expect(reservedAddresses(cidr.network, 31, 4, 32)).toEqual([]);
+    expect(reservedAddresses(0n, 64, 6, 128)).toEqual([]);
+    expect(subnetMeta(cidr.network, 24, 4, 32).reserved).toEqual([
+      { address: '10.0.0.0', reason: 'Network address' },
+      { address: '10.0.0.255', reason: 'Broadcast address' },
+    ]);
+  });
+
+  it('should apply the AWS, Azure and GCP reservations', () => {
+    const { network } = parseCidr('10.0.1.0/24');
+    const aws = subnetMeta(network, 24, 4, 32, undefined, RESERVATION_PROFILES.aws);
+    expect(aws).toMatchObject({ usableCount: 251n, firstUsable: '10.0.1.4', lastUsable: '10.0.1.254', reservationProfile: 'AWS' });
+    expect(aws.reserved.map((r) => r.address)).toEqual(['10.0.1.0', '10.0.1.1', '10.0.1.2', '10.0.1.3', '10.0.1.255']);
+    expect(aws.reserved[2]!.reason).toBe('Amazon-provided DNS');
+
+    expect(usableRange(network, 24, 4, 32, RESERVATION_PROFILES.azure).count).toBe(251n);
+
+    const gcp = subnetMeta(network, 28, 4, 32, undefined, RESERVATION_PROFILES.gcp);
+    expect(gcp).toMatchObject({ usableCount: 12n, firstUsable: '10.0.1.2', lastUsable: '10.0.1.13' });
+  });
+
+  it('should apply profiles to IPv6 subnets', () => {
+    const { network } = parseCidr('2001:db8:0:1::/64');
+    const aws = subnetMeta(network, 64, 6, 128, undefined, RESERVATION_PROFILES.aws);
+    expect(aws.usableCount).toBe((1n << 64n) - 5n);
+    expect(aws.firstUsable).toBe('2001:db8:0:1::4');
+    expect(aws.lastUsable).toBe('2001:db8:0:1:ffff:ffff:ffff:fffe');
+  });
+
+  it('should leave nothing usable when a subnet is smaller than the profile', () => {
+    const { network } = parseCidr('10.0.0.0/30');
+    const meta = subnetMeta(network, 30, 4, 32, undefined, RESERVATION_PROFILES.aws);
+    expect(meta).toMatchObject({ usableCount: 0n, firstUsable: null, lastUsable: null });
+    expect(meta.reserved).toHaveLength(4);
+  });
+
+  it('should parse profile names and custom offsets', () => {
+    expect(parseReservationProfile('HSRP')).toBe(RESERVATION_PROFILES.hsrp);
+    const custom = parseReservationProfile('0,1,-1');
+    expect(custom.reserved.map((r) => r.offset)).toEqual([0, 1, -1]);
+    expect(usableRange(0x0a000000n, 24, 4, 32, custom)).toEqual({ first: 0x0a000002n, last: 0x0a0000fen, count: 253n });
+    expect(() => parseReservationProfile('oracle')).toThrow("Unknown reservation profile 'oracle'");
+  });
+
+  it('should count reserved addresses inside the usable range', () => {
+    const gapped = { name: 'Gapped', reserved: [{ offset: 0, reason: 'Network' }, { offset: 2, reason: 'Printer' }] };
+    expect(usableRange(0n, 29, 4, 32, gapped)).toEqual({ first: 1n, last: 7n, count: 6n });
+  });
+});
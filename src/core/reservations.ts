@@ -0,0 +1,108 @@
+/**
+ * Address reservation profiles: addresses providers and sites hold back in every subnet
+ * https://docs.aws.amazon.com/vpc/latest/userguide/subnet-sizing.html
+ * https://learn.microsoft.com/azure/virtual-network/virtual-networks-faq
+ * https://cloud.google.com/vpc/docs/subnets#unusable-ip-addresses-in-every-subnet
+ */
+
+import type { IpVersion, ReservationProfile, ReservedOffset } from './types';
+
+const NETWORK: ReservedOffset = { offset: 0, reason: 'Network address' };
+const BROADCAST: ReservedOffset = { offset: -1, reason: 'Broadcast address' };
+
+export const RESERVATION_PROFILES: Readonly<Record<string, ReservationProfile>> = {
+  aws: {
+    name: 'AWS',
+    description: 'Amazon VPC: network, VPC router, DNS, future use and broadcast',
+    reserved: [
+      NETWORK,
+      { offset: 1, reason: 'VPC router' },
+      { offset: 2, reason: 'Amazon-provided DNS' },
+      { offset: 3, reason: 'Reserved by AWS for future use' },
+      { offset: -1, reason: 'Network broadcast address (reserved by AWS)' },
+    ],
+  },
+  azure: {
+    name: 'Azure',
+    description: 'Azure virtual network: network, default gateway, DNS mapping and broadcast',
+    reserved: [
+      NETWORK,
+      { offset: 1, reason: 'Default gateway' },
+      { offset: 2, reason: 'Azure DNS mapping' },
+      { offset: 3, reason: 'Azure DNS mapping' },
+      { offset: -1, reason: 'Network broadcast address (reserved by Azure)' },
+    ],
+  },
+  gcp: {
+    name: 'GCP',
+    description: 'Google Cloud VPC: network, default gateway, second-to-last and broadcast',
+    reserved: [
+      NETWORK,
+      { offset: 1, reason: 'Default gateway' },
+      { offset: -2, reason: 'Reserved by Google Cloud for future use' },
+      { offset: -1, reason: 'Broadcast address (reserved by Google Cloud)' },
+    ],
+  },
+  gateway: {
+    name: 'Gateway',
+    description: 'Network, default gateway on the first host address, and broadcast',
+    reserved: [NETWORK, { offset: 1, reason: 'Default gateway' }, BROADCAST],
+  },
+  hsrp: {
+    name: 'HSRP',
+    description: 'Network, HSRP virtual gateway, active and standby routers, and broadcast',
+    reserved: [
+      NETWORK,
+      { offset: 1, reason: 'HSRP virtual gateway' },
+      { offset: 2, reason: 'Active router' },
+      { offset: 3, reason: 'Standby router' },
+      BROADCAST,
+    ],
+  },
+};
+
+/**
+ * Look up a built-in profile by key (case-insensitive), or build a custom one from a
+ * comma-separated offset list such as "0,1,2,-1"
+ * @throws Error for unknown names or invalid offsets
+ */
+export function parseReservationProfile(spec: string): ReservationProfile {
+  const key = spec.trim().toLowerCase();
+  const builtIn = RESERVATION_PROFILES[key];
+  if (builtIn) return builtIn;
+
+  if (!/^-?\d+(,-?\d+)*$/.test(key)) {
+    const names = Object.keys(RESERVATION_PROFILES).join('|');
+    throw new Error(`Unknown reservation profile '${spec}' (expected ${names} or offsets such as 0,1,-1)`);
+  }
+  return {
+    name: 'Custom',
+    reserved: key.split(',').map((offset) => ({ offset: Number(offset), reason: 'Reserved' })),
+  };
+}
+
+/**
+ * Addresses reserved in a subnet, in address order
+ * Without a profile: IPv4 network and broadcast (none for /31 and /32), nothing for IPv6.
+ * Offsets that fall outside a small subnet are ignored; the first reason given for an address wins.
+ */
+export function reservedAddresses(
+  network: bigint,
+  prefix: number,
+  version: IpVersion,
+  bits: 32 | 128,
+  profile?: ReservationProfile
+): Array<{ value: bigint; reason: string }> {
+  const size = 1n << BigInt(bits - prefix);
+  const rules = profile?.reserved ?? (version === 4 && prefix < 31 ? [NETWORK, BROADCAST] : []);
+
+  const reserved = new Map<bigint, string>();
+  for (const { offset, reason } of rules) {
+    const index = offset >= 0 ? BigInt(offset) : size + BigInt(offset);
+    if (index < 0n || index >= size) continue;
+    if (!reserved.has(network + index)) reserved.set(network + index, reason);
+  }
+  return [...reserved]
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([value, reason]) => ({ value, reason }));
+}
@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import { ptrName, parseReverseName, ptrNameToAddress, reverseDnsDelegation, classlessZoneName } from './reverse-dns';
+import { formatCidr, parseCidr } from './parser';
+import type { NormalisedCidr } from './types';
+
+const cidrString = (cidr: NormalisedCidr) => formatCidr(cidr.version, cidr.network, cidr.prefix);
+
+describe('Reverse DNS names', () => {
+  it('should build PTR owner names', () => {
+    expect(ptrName('192.0.2.1')).toBe('1.2.0.192.in-addr.arpa');
+    expect(ptrName('2001:db8::1')).toBe('1.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.8.b.d.0.1.0.0.2.ip6.arpa');
+    expect(() => ptrName('300.0.0.1')).toThrow();
+  });
+
+  it('should round-trip full PTR names', () => {
+    for (const address of ['192.0.2.1', '10.0.0.0', '2001:db8::1', 'fe80::21a:2bff:fe3c:4d5e']) {
+      expect(ptrNameToAddress(ptrName(address))).toBe(address);
+    }
+    expect(ptrNameToAddress('1.2.0.192.IN-ADDR.ARPA.')).toBe('192.0.2.1');
+  });
+
+  it('should parse partial reverse zones into prefixes', () => {
+    expect(cidrString(parseReverseName('2.0.192.in-addr.arpa'))).toBe('192.0.2.0/24');
+    expect(cidrString(parseReverseName('10.in-addr.arpa'))).toBe('10.0.0.0/8');
+    expect(cidrString(parseReverseName('8.b.d.0.1.0.0.2.ip6.arpa'))).toBe('2001:db8::/32');
+    expect(cidrString(parseReverseName('ip6.arpa'))).toBe('::/0');
+    expect(() => ptrNameToAddress('2.0.192.in-addr.arpa')).toThrow('not a single address');
+  });
+
+  it('should parse RFC 2317 classless delegation labels', () => {
+    expect(cidrString(parseReverseName('64/26.2.0.192.in-addr.arpa'))).toBe('192.0.2.64/26');
+    expect(cidrString(parseReverseName('128-25.2.0.192.in-addr.arpa'))).toBe('192.0.2.128/25');
+    expect(() => parseReverseName('65/26.2.0.192.in-addr.arpa')).toThrow('Invalid classless');
+  });
+
+  it('should parse hosts under RFC 2317 child zones', () => {
+    expect(cidrString(parseReverseName('65.64/26.2.0.192.in-addr.arpa.'))).toBe('192.0.2.65/32');
+    expect(ptrNameToAddress('40.32-27.2.0.192.in-addr.arpa')).toBe('192.0.2.40');
+    expect(() => parseReverseName('130.64/26.2.0.192.in-addr.arpa')).toThrow('outside the classless block');
+    expect(() => parseReverseName('1.1.1.2.0.192.in-addr.arpa')).toThrow('Too many labels');
+  });
+
+  it('should reject malformed names', () => {
+    expect(() => parseReverseName('example.com')).toThrow('Not a reverse DNS name');
+    expect(() => parseReverseName('256.2.0.192.in-addr.arpa')).toThrow('Invalid octet');
+    expect(() => parseReverseName('01.2.0.192.in-addr.arpa')).toThrow('Invalid octet');
+    expect(() => parseReverseName('1.1.2.0.192.in-addr.arpa')).toThrow('Too many labels');
+    expect(() => parseReverseName('g.8.b.d.0.1.0.0.2.ip6.arpa')).toThrow('Invalid nibble');
+  });
+});
+
+describe('Reverse DNS delegation', () => {
+  const plan = (cidr: string, nameservers?: string[]) => {
+    const { network, prefix, version, bits } = parseCidr(cidr);
+    return reverseDnsDelegation(network, prefix, version, bits, { nameservers });
+  };
+
+  it('should plan RFC 2317 classless delegation', () => {
+    const result = plan('192.0.2.64/26', ['ns1.customer.example.', 'ns2.customer.example.']);
+    expect(result.childZone).toBe('64/26.2.0.192.in-addr.arpa');
+    expect(result.parentZone).toBe('2.0.192.in-addr.arpa');
+    expect(result.zones).toEqual(['64/26.2.0.192.in-addr.arpa']);
+    expect(result.cnames).toHaveLength(64);
+    expect(result.cnames[0]).toEqual({ owner: '64.2.0.192.in-addr.arpa', type: 'CNAME', value: '64.64/26.2.0.192.in-addr.arpa' });
+    expect(result.cnames[63]!.owner).toBe('127.2.0.192.in-addr.arpa');
+    expect(result.ns).toEqual([
+      { owner: '64/26.2.0.192.in-addr.arpa', type: 'NS', value: 'ns1.customer.example.' },
+      { owner: '64/26.2.0.192.in-addr.arpa', type: 'NS', value: 'ns2.customer.example.' },
+    ]);
+  });
+
+  it('should round-trip classless CNAME targets to the addresses they alias', () => {
+    for (const separator of ['/', '-'] as const) {
+      const { network, prefix, version, bits } = parseCidr('192.0.2.64/26');
+      const { cnames } = reverseDnsDelegation(network, prefix, version, bits, { classlessSeparator: separator });
+      for (const record of cnames) {
+        expect(ptrNameToAddress(record.value)).toBe(ptrNameToAddress(record.owner));
+      }
+    }
+  });
+
+  it('should support hyphenated child zone labels', () => {
+    const { network, prefix, version, bits } = parseCidr('192.0.2.32/27');
+    const result = reverseDnsDelegation(network, prefix, version, bits, { classlessSeparator: '-' });
+    expect(result.childZone).toBe('32-27.2.0.192.in-addr.arpa');
+    expect(result.ns).toEqual([]);
+    expect(classlessZoneName(network, prefix)).toBe('32/27.2.0.192.in-addr.arpa');
+    expect(() => classlessZoneName(network, 24)).toThrow('/25 to /31');
+  });
+
+  it('should delegate boundary-aligned prefixes directly', () => {
+    const result = plan('192.0.2.0/24', ['ns1.example.']);
+    expect(result).toMatchObject({ zones: ['2.0.192.in-addr.arpa'], parentZone: '0.192.in-addr.arpa', childZone: null, cnames: [] });
+    expect(result.ns).toEqual([{ owner: '2.0.192.in-addr.arpa', type: 'NS', value: 'ns1.example.' }]);
+    expect(plan('192.0.2.1/32').zones).toEqual(['1.2.0.192.in-addr.arpa']);
+    expect(plan('0.0.0.0/0').parentZone).toBeNull();
+  });
+
+  it('should list covering zones for IPv4 and non-nibble IPv6 prefixes', () => {
+    expect(plan('10.0.0.0/23').zones).toEqual(['0.0.10.in-addr.arpa', '1.0.10.in-addr.arpa']);
+    const v6 = plan('2001:db8::/33');
+    expect(v6.zones).toEqual([
+      '0.8.b.d.0.1.0.0.2.ip6.arpa',
+      '1.8.b.d.0.1.0.0.2.ip6.arpa',
+      '2.8.b.d.0.1.0.0.2.ip6.arpa',
+      '3.8.b.d.0.1.0.0.2.ip6.arpa',
+      '4.8.b.d.0.1.0.0.2.ip6.arpa',
+      '5.8.b.d.0.1.0.0.2.ip6.arpa',
+      '6.8.b.d.0.1.0.0.2.ip6.arpa',
+      '7.8.b.d.0.1.0.0.2.ip6.arpa',
+    ]);
+    expect(v6.parentZone).toBe('8.b.d.0.1.0.0.2.ip6.arpa');
+    expect(plan('2001:db8::/48').zones).toEqual(['0.0.0.0.8.b.d.0.1.0.0.2.ip6.arpa']);
+  });
+});
@@ -0,0 +1,205 @@
+/**
+ * PTR owner names, reverse zone parsing and delegation (in-addr.arpa, ip6.arpa, RFC 2317)
+ */
+
+import type { IpVersion, NormalisedCidr } from './types';
+import { formatAddress, ipv4ToBigInt, ipv6ToBigInt } from './parser';
+
+export type ReverseDnsRecord = {
+  owner: string;
+  type: 'CNAME' | 'NS';
+  value: string;
+};
+
+export type ReverseDelegationOptions = {
+  /** Name servers the prefix is delegated to. */
+  nameservers?: string[];
+  /** Separator in RFC 2317 child zone labels: 64/26 (default) or 64-26. */
+  classlessSeparator?: '/' | '-';
+};
+
+/**
+ * Reverse DNS delegation plan for a prefix
+ *  - On an octet/nibble boundary: the prefix's own zone.
+ *  - IPv4 /25 to /31: an RFC 2317 child zone plus CNAMEs in the enclosing /24 zone.
+ *  - Otherwise: the boundary-aligned zones that together cover the prefix.
+ */
+export type ReverseDelegationPlan = {
+  /** Zones to delegate, each holding PTR records for the prefix. */
+  zones: string[];
+  /** Zone that carries the delegation records; null when delegating an arpa root. */
+  parentZone: string | null;
+  /** RFC 2317 child zone name (IPv4 /25 to /31 only). */
+  childZone: string | null;
+  /** CNAME records the parent zone must carry (RFC 2317 only). */
+  cnames: ReverseDnsRecord[];
+  /** NS records the parent zone must carry. */
+  ns: ReverseDnsRecord[];
+};
+
+const IPV4_SUFFIX = 'in-addr.arpa';
+const IPV6_SUFFIX = 'ip6.arpa';
+
+// RFC 2317 child zone label: "<first>/<prefix>" or "<first>-<prefix>"
+const CLASSLESS_LABEL = /^(\d{1,3})[/-](\d{1,2})$/;
+const OCTET_LABEL = /^(0|[1-9]\d{0,2})$/;
+const NIBBLE_LABEL = /^[0-9a-f]$/;
+
+/**
+ * PTR owner name for an address, e.g. 192.0.2.1 -> 1.2.0.192.in-addr.arpa
+ */
+export function ptrName(address: string): string {
+  const version: IpVersion = address.includes(':') ? 6 : 4;
+  const ip = version === 6 ? ipv6ToBigInt(address) : ipv4ToBigInt(address);
+  const suffix = version === 6 ? IPV6_SUFFIX : IPV4_SUFFIX;
+  return `${formatAddress(version, ip, { notation: 'nibble' })}.${suffix}`;
+}
+
+function splitReverseName(name: string): { version: IpVersion; labels: string[] } {
+  const lower = name.trim().toLowerCase().replace(/\.$/, '');
+  for (const [version, suffix] of [[4, IPV4_SUFFIX], [6, IPV6_SUFFIX]] as const) {
+    if (lower === suffix) return { version, labels: [] };
+    if (lower.endsWith(`.${suffix}`)) {
+      return { version, labels: lower.slice(0, -suffix.length - 1).split('.').reverse() };
+    }
+  }
+  throw new Error(`Not a reverse DNS name (expected .${IPV4_SUFFIX} or .${IPV6_SUFFIX}): ${name}`);
+}
+
+function parseIpv4Labels(name: string, labels: string[]): NormalisedCidr {
+  // RFC 2317 CNAME target: a host label under a classless child zone, e.g. 65.64/26.2.0.192
+  if (labels.length === 5 && CLASSLESS_LABEL.test(labels[3]!)) {
+    const block = parseIpv4Labels(name, labels.slice(0, 4));
+    const host = labels[4]!;
+    if (!OCTET_LABEL.test(host) || Number(host) > 255) {
+      throw new Error(`Invalid octet label '${host}' in ${name}`);
+    }
+    const network = (block.network & ~0xffn) | BigInt(host);
+    if (network >> BigInt(32 - block.prefix) !== block.network >> BigInt(32 - block.prefix)) {
+      throw new Error(`Host ${host} is outside the classless block '${labels[3]}' in ${name}`);
+    }
+    return { version: 4, bits: 32, network, prefix: 32 };
+  }
+  if (labels.length > 4) throw new Error(`Too many labels in reverse DNS name: ${name}`);
+
+  let network = 0n;
+  let prefix = 0;
+  labels.forEach((label, i) => {
+    const classless = i === 3 ? CLASSLESS_LABEL.exec(label) : null;
+    if (classless) {
+      const first = Number(classless[1]);
+      prefix = Number(classless[2]);
+      if (prefix < 25 || prefix > 32 || first > 255 || first % (1 << (32 - prefix)) !== 0) {
+        throw new Error(`Invalid classless delegation label '${label}' in ${name}`);
+      }
+      network |= BigInt(first);
+      return;
+    }
+    if (!OCTET_LABEL.test(label) || Number(label) > 255) {
+      throw new Error(`Invalid octet label '${label}' in ${name}`);
+    }
+    network |= BigInt(label) << BigInt(24 - i * 8);
+    prefix += 8;
+  });
+
+  return { version: 4, bits: 32, network, prefix };
+}
+
+function parseIpv6Labels(name: string, labels: string[]): NormalisedCidr {
+  if (labels.length > 32) throw new Error(`Too many labels in reverse DNS name: ${name}`);
+
+  let network = 0n;
+  labels.forEach((label, i) => {
+    if (!NIBBLE_LABEL.test(label)) throw new Error(`Invalid nibble label '${label}' in ${name}`);
+    network |= BigInt(`0x${label}`) << BigInt(124 - i * 4);
+  });
+
+  return { version: 6, bits: 128, network, prefix: labels.length * 4 };
+}
+
+/**
+ * Parse a PTR name or reverse zone back into the prefix it covers
+ * Full names, including RFC 2317 CNAME targets such as 65.64/26.2.0.192.in-addr.arpa, give a
+ * /32 or /128; partial zones (and RFC 2317 labels such as 0/26.2.0.192.in-addr.arpa) give the
+ * delegated prefix.
+ * @throws Error if the name is not a valid reverse DNS name
+ */
+export function parseReverseName(name: string): NormalisedCidr {
+  const { version, labels } = splitReverseName(name);
+  return version === 4 ? parseIpv4Labels(name, labels) : parseIpv6Labels(name, labels);
+}
+
+/**
+ * Address named by a full PTR owner name
+ * @throws Error if the name is a partial zone
+ */
+export function ptrNameToAddress(name: string): string {
+  const cidr = parseReverseName(name);
+  if (cidr.prefix !== cidr.bits) {
+    throw new Error(`Reverse DNS name covers a /${cidr.prefix}, not a single address: ${name}`);
+  }
+  return formatAddress(cidr.version, cidr.network);
+}
+
+// Labels per zone step: octets for in-addr.arpa, nibbles for ip6.arpa
+function labelBits(version: IpVersion): number {
+  return version === 6 ? 4 : 8;
+}
+
+// Name of the boundary-aligned zone for network/prefix
+function zoneName(version: IpVersion, network: bigint, prefix: number): string {
+  const suffix = version === 6 ? IPV6_SUFFIX : IPV4_SUFFIX;
+  const labels = formatAddress(version, network, { notation: 'nibble' }).split('.');
+  const kept = labels.slice(labels.length - prefix / labelBits(version));
+  return [...kept, suffix].join('.');
+}
+
+/**
+ * RFC 2317 child zone name for an IPv4 /25 to /31, e.g. 64/26.2.0.192.in-addr.arpa
+ */
+export function classlessZoneName(network: bigint, prefix: number, separator: '/' | '-' = '/'): string {
+  if (prefix < 25 || prefix > 31) throw new Error('Classless delegation applies to IPv4 /25 to /31');
+  return `${network & 0xffn}${separator}${prefix}.${zoneName(4, network, 24)}`;
+}
+
+/**
+ * Plan the reverse DNS delegation of a prefix (RFC 2317 for IPv4 /25 to /31)
+ */
+export function reverseDnsDelegation(
+  network: bigint,
+  prefix: number,
+  version: IpVersion,
+  bits: 32 | 128,
+  options: ReverseDelegationOptions = {}
+): ReverseDelegationPlan {
+  const nameservers = options.nameservers ?? [];
+  const nsRecords = (owner: string) => nameservers.map((value): ReverseDnsRecord => ({ owner, type: 'NS', value }));
+
+  if (version === 4 && prefix > 24 && prefix < 32) {
+    const parentZone = zoneName(4, network, 24);
+    const childZone = classlessZoneName(network, prefix, options.classlessSeparator);
+    const first = network & 0xffn;
+    const cnames: ReverseDnsRecord[] = [];
+    for (let host = first; host < first + (1n << BigInt(32 - prefix)); host++) {
+      cnames.push({ owner: `${host}.${parentZone}`, type: 'CNAME', value: `${host}.${childZone}` });
+    }
+    return { zones: [childZone], parentZone, childZone, cnames, ns: nsRecords(childZone) };
+  }
+
+  // Round down to the enclosing boundary for the parent, up for the delegated zones
+  const step = labelBits(version);
+  const zonePrefix = Math.ceil(prefix / step) * step;
+  const parentPrefix = zonePrefix - step;
+  const zones: string[] = [];
+  for (let i = 0n; i < 1n << BigInt(zonePrefix - prefix); i++) {
+    zones.push(zoneName(version, network | (i << BigInt(bits - zonePrefix)), zonePrefix));
+  }
+
+  return {
+    zones,
+    parentZone: parentPrefix < 0 ? null : zoneName(version, network, parentPrefix),
+    childZone: null,
+    cnames: [],
+    ns: zones.flatMap(nsRecords),
+  };
+}
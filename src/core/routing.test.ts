@@ -0,0 +1,209 @@
+import { describe, it, expect } from 'vitest';
+import { RoutingTable, parseIpRouteJson, parseCiscoShowIpRoute } from './routing';
+import type { Route } from './routing';
+import { formatCidr, parseCidr } from './parser';
+
+const dest = (r: Route) => formatCidr(r.destination.version, r.destination.network, r.destination.prefix);
+
+describe('RoutingTable', () => {
+  const table = () =>
+    new RoutingTable([
+      { destination: parseCidr('10.0.0.0/24'), interface: 'eth0' },
+      { destination: parseCidr('0.0.0.0/0'), nextHop: '10.0.0.1' },
+      { destination: parseCidr('172.16.0.0/16'), nextHop: '10.0.0.2', protocol: 'OSPF', metric: 20 },
+      { destination: parseCidr('172.16.0.0/16'), nextHop: '10.0.0.3', protocol: 'OSPF', metric: 20 },
+      { destination: parseCidr('172.16.0.0/16'), nextHop: '10.0.0.4', protocol: 'OSPF', metric: 30 },
+      { destination: parseCidr('172.16.0.0/16'), nextHop: '10.0.0.5', protocol: 'RIP', metric: 1 },
+      { destination: parseCidr('172.16.5.0/24'), nextHop: '10.0.0.9' },
+    ]);
+
+  it('should fill in protocol, distance and metric defaults', () => {
+    const routes = table().routes;
+
+    expect(routes[0]).toMatchObject({ protocol: 'STATIC', adminDistance: 1, metric: 0, nextHop: '10.0.0.1' });
+    expect(routes[1]).toMatchObject({ protocol: 'CONNECTED', adminDistance: 0, interface: 'eth0' });
+  });
+
+  it('should select the longest match, preferring distance then metric, with ECMP', () => {
+    const lookup = table().lookup('172.16.1.1')!;
+
+    expect(formatCidr(4, lookup.prefix.network, lookup.prefix.prefix)).toBe('172.16.0.0/16');
+    expect(lookup.paths.map((r) => r.nextHop)).toEqual(['10.0.0.2', '10.0.0.3']);
+    expect(lookup.backups.map((r) => r.nextHop)).toEqual(['10.0.0.4', '10.0.0.5']);
+
+    expect(table().lookup('172.16.5.1')!.paths.map((r) => r.nextHop)).toEqual(['10.0.0.9']);
+    expect(table().lookup('8.8.8.8')!.paths.map(dest)).toEqual(['0.0.0.0/0']);
+    expect(table().lookup('2001:db8::1')).toBeNull();
+  });
+
+  it('should add and remove routes', () => {
+    const t = new RoutingTable();
+    const route = t.add({ destination: parseCidr('10.0.0.0/8'), nextHop: '192.0.2.1' });
+
+    expect(t.lookup('10.1.1.1')?.paths).toEqual([route]);
+    expect(t.remove(route)).toBe(true);
+    expect(t.remove(route)).toBe(false);
+    expect(t.lookup('10.1.1.1')).toBeNull();
+  });
+
+  it('should report routes beaten for their prefix', () => {
+    const { shadowed } = table().analyse();
+
+    expect(shadowed.map((s) => `${s.route.nextHop} ${s.reason} ${s.by.map((r) => r.nextHop).join(',')}`)).toEqual([
+      '10.0.0.4 PREFERRED_ROUTE 10.0.0.2,10.0.0.3',
+      '10.0.0.5 PREFERRED_ROUTE 10.0.0.2,10.0.0.3',
+    ]);
+  });
+
+  it('should report routes fully covered by more specifics', () => {
+    const t = new RoutingTable([
+      { destination: parseCidr('10.0.0.0/23'), nextHop: '192.0.2.1' },
+      { destination: parseCidr('10.0.0.0/24'), nextHop: '192.0.2.2' },
+      { destination: parseCidr('10.0.1.0/24'), nextHop: '192.0.2.3' },
+      { destination: parseCidr('10.0.1.0/25'), nextHop: '192.0.2.4' },
+      { destination: parseCidr('192.0.2.0/24'), interface: 'eth0' },
+    ]);
+    const { shadowed } = t.analyse();
+
+    expect(shadowed).toHaveLength(1);
+    expect(dest(shadowed[0]!.route)).toBe('10.0.0.0/23');
+    expect(shadowed[0]!.reason).toBe('MORE_SPECIFICS');
+    expect(shadowed[0]!.by.map((r) => r.nextHop)).toEqual(['192.0.2.2', '192.0.2.3']);
+  });
+
+  it('should report next hops that cannot be resolved', () => {
+    const t = new RoutingTable([
+      { destination: parseCidr('10.0.0.0/24'), interface: 'eth0' },
+      { destination: parseCidr('172.16.0.0/16'), nextHop: '10.0.0.2' },
+      { destination: parseCidr('192.168.0.0/16'), nextHop: '172.16.0.1' },
+      { destination: parseCidr('198.51.100.0/24'), nextHop: '203.0.113.1' },
+      { destination: parseCidr('203.0.0.0/8'), nextHop: '203.0.113.1' },
+    ]);
+    const { unreachable } = t.analyse();
+
+    expect(unreachable.map((u) => `${dest(u.route)} ${u.reason}`)).toEqual([
+      '198.51.100.0/24 NO_ROUTE_TO_NEXT_HOP',
+      '203.0.0.0/8 RECURSIVE_LOOP',
+    ]);
+  });
+});
+
+describe('Linux ip -j route import', () => {
+  const json = JSON.stringify([
+    { dst: 'default', gateway: '192.168.1.1', dev: 'eth0', protocol: 'dhcp', metric: 100, flags: [] },
+    { dst: '10.8.0.0/16', protocol: 'bgp', metric: 20, flags: [], nexthops: [
+      { gateway: '192.168.1.2', dev: 'eth0', weight: 1, flags: [] },
+      { gateway: '192.168.1.3', dev: 'eth0', weight: 1, flags: [] },
+    ] },
+    { dst: '192.168.1.0/24', dev: 'eth0', protocol: 'kernel', scope: 'link', prefsrc: '192.168.1.10', flags: [] },
+    { dst: '192.168.1.50', gateway: '192.168.1.1', dev: 'eth0', flags: [] },
+    { type: 'broadcast', dst: '192.168.1.255', dev: 'eth0', protocol: 'kernel', flags: [] },
+  ]);
+
+  it('should import routes, multipath next hops and host routes', () => {
+    const routes = parseIpRouteJson(json);
+
+    expect(routes.map((r) => `${dest(r)} ${r.protocol} ${r.nextHop ?? '-'} ${r.interface} ${r.metric}`)).toEqual([
+      '0.0.0.0/0 STATIC 192.168.1.1 eth0 100',
+      '10.8.0.0/16 BGP 192.168.1.2 eth0 20',
+      '10.8.0.0/16 BGP 192.168.1.3 eth0 20',
+      '192.168.1.0/24 CONNECTED - eth0 0',
+      '192.168.1.50/32 STATIC 192.168.1.1 eth0 0',
+    ]);
+    expect(routes.every((r) => r.adminDistance === 0)).toBe(true);
+    expect(new RoutingTable(routes).lookup('10.8.1.1')!.paths).toHaveLength(2);
+  });
+
+  it('should import discard routes that win longest-prefix match', () => {
+    const routes = parseIpRouteJson([
+      { dst: '10.0.0.0/8', protocol: 'bgp', metric: 20, nexthops: [{ gateway: '192.168.1.2', dev: 'eth0' }, { gateway: '192.168.1.3', dev: 'eth0' }] },
+      { type: 'blackhole', dst: '10.9.0.0/16', protocol: 'static', flags: [] },
+      { type: 'unreachable', dst: '10.10.0.0/16', metric: 5, flags: [] },
+      { type: 'prohibit', dst: '10.11.0.0/16', flags: [] },
+      { type: 'local', dst: '10.0.0.1', dev: 'eth0', protocol: 'kernel', flags: [] },
+      { dst: '192.168.1.0/24', dev: 'eth0', protocol: 'kernel', flags: [] },
+    ]);
+    expect(routes.map((r) => `${dest(r)} ${r.discard ?? 'FORWARD'}`)).toEqual([
+      '10.0.0.0/8 FORWARD',
+      '10.0.0.0/8 FORWARD',
+      '10.9.0.0/16 BLACKHOLE',
+      '10.10.0.0/16 UNREACHABLE',
+      '10.11.0.0/16 PROHIBIT',
+      '192.168.1.0/24 FORWARD',
+    ]);
+
+    const t = new RoutingTable(routes);
+    const dropped = t.lookup('10.9.1.1')!;
+    expect(dropped).toMatchObject({ discard: 'BLACKHOLE', prefix: parseCidr('10.9.0.0/16') });
+    expect(dropped.paths.map((r) => r.nextHop)).toEqual([undefined]);
+    expect(t.lookup('10.8.1.1')!.discard).toBeUndefined();
+    expect(t.lookup('10.8.1.1')!.paths).toHaveLength(2);
+    expect(t.toString()).toContain('10.9.0.0/16 [0/0] static blackhole');
+  });
+
+  it('should not resolve next hops through discard routes', () => {
+    const t = new RoutingTable([
+      { destination: parseCidr('172.16.0.0/12'), nextHop: '10.9.0.1' },
+      { destination: parseCidr('10.9.0.0/16'), discard: 'BLACKHOLE' },
+    ]);
+    expect(t.analyse().unreachable.map((u) => [dest(u.route), u.reason])).toEqual([['172.16.0.0/12', 'NO_ROUTE_TO_NEXT_HOP']]);
+  });
+
+  it('should import IPv6 defaults', () => {
+    const routes = parseIpRouteJson([{ dst: 'default', gateway: 'fe80::1', dev: 'eth0', protocol: 'ra' }]);
+    expect(dest(routes[0]!)).toBe('::/0');
+    expect(dest(parseIpRouteJson([{ dst: 'default', dev: 'wg0' }], 6)[0]!)).toBe('::/0');
+  });
+
+  it('should reject malformed input', () => {
+    expect(() => parseIpRouteJson('{}')).toThrow('expected an array');
+    expect(() => parseIpRouteJson([{ gateway: '10.0.0.1' }])).toThrow('entry 1');
+  });
+});
+
+describe('Cisco show ip route import', () => {
+  const output = `
+Codes: L - local, C - connected, S - static, R - RIP, M - mobile, B - BGP
+       D - EIGRP, EX - EIGRP external, O - OSPF, IA - OSPF inter area
+       E1 - OSPF external type 1, E2 - OSPF external type 2
+Gateway of last resort is 10.0.0.1 to network 0.0.0.0
+
+S*    0.0.0.0/0 [1/0] via 10.0.0.1
+      10.0.0.0/8 is variably subnetted, 4 subnets, 3 masks
+C        10.0.0.0/24 is directly connected, GigabitEthernet0/0
+L        10.0.0.2/32 is directly connected, GigabitEthernet0/0
+O IA     10.1.0.0/16 [110/20] via 10.0.0.5, 00:01:02, GigabitEthernet0/0
+                     [110/20] via 10.0.0.6, 00:01:02, GigabitEthernet0/1
+O E2     10.2.0.0/16
+           [110/20] via 10.0.0.5, 2d01h, GigabitEthernet0/0
+      172.16.0.0/24 is subnetted, 2 subnets
+D EX     172.16.1.0 [170/2816] via 10.0.0.7, 1w2d, GigabitEthernet0/2
+B        172.16.2.0 [20/0] via 203.0.113.1, 00:10:00
+`;
+
+  it('should import routes with distances, metrics and ECMP paths', () => {
+    const routes = parseCiscoShowIpRoute(output);
+
+    expect(routes.map((r) => `${dest(r)} ${r.protocol} [${r.adminDistance}/${r.metric}] ${r.nextHop ?? '-'} ${r.interface ?? '-'}`)).toEqual([
+      '0.0.0.0/0 STATIC [1/0] 10.0.0.1 -',
+      '10.0.0.0/24 CONNECTED [0/0] - GigabitEthernet0/0',
+      '10.0.0.2/32 CONNECTED [0/0] - GigabitEthernet0/0',
+      '10.1.0.0/16 OSPF [110/20] 10.0.0.5 GigabitEthernet0/0',
+      '10.1.0.0/16 OSPF [110/20] 10.0.0.6 GigabitEthernet0/1',
+      '10.2.0.0/16 OSPF [110/20] 10.0.0.5 GigabitEthernet0/0',
+      '172.16.1.0/24 EIGRP [170/2816] 10.0.0.7 GigabitEthernet0/2',
+      '172.16.2.0/24 BGP [20/0] 203.0.113.1 -',
+    ]);
+  });
+
+  it('should resolve next hops through connected and default routes', () => {
+    const analysis = new RoutingTable(parseCiscoShowIpRoute(output)).analyse();
+
+    expect(analysis.unreachable).toEqual([]);
+    expect(analysis.shadowed).toEqual([]);
+  });
+
+  it('should reject classful routes without a mask', () => {
+    expect(() => parseCiscoShowIpRoute('C    10.0.0.0 is directly connected, Ethernet0')).toThrow('without a mask');
+  });
+});
@@ -0,0 +1,394 @@
+/**
+ * Routing table simulation: route selection, ECMP, shadowed and unreachable routes, and
+ * import from Linux `ip -j route` and Cisco `show ip route`
+ */
+
+import type { IpVersion, NormalisedCidr } from './types';
+import { formatCidr, parseCidr } from './parser';
+import { PrefixTrie } from './prefix-trie';
+import { PrefixSet } from './prefix-set';
+import { containsPrefix } from './set-operations';
+
+export type RouteProtocol = 'CONNECTED' | 'STATIC' | 'RIP' | 'OSPF' | 'ISIS' | 'EIGRP' | 'BGP' | 'OTHER';
+
+/**
+ * What a discard route does with matching packets
+ *  - BLACKHOLE: drops them silently
+ *  - UNREACHABLE: drops them with ICMP destination unreachable
+ *  - PROHIBIT: drops them with ICMP administratively prohibited
+ */
+export type RouteDiscard = 'BLACKHOLE' | 'UNREACHABLE' | 'PROHIBIT';
+
+/**
+ * Cisco administrative distances (eBGP for BGP); OTHER ranks below every routing protocol
+ */
+export const DEFAULT_ADMIN_DISTANCE: Readonly<Record<RouteProtocol, number>> = {
+  CONNECTED: 0,
+  STATIC: 1,
+  BGP: 20,
+  EIGRP: 90,
+  OSPF: 110,
+  ISIS: 115,
+  RIP: 120,
+  OTHER: 250,
+};
+
+export type Route = {
+  destination: NormalisedCidr;
+  /** Next-hop address; absent for connected and interface-only routes. */
+  nextHop?: string;
+  interface?: string;
+  protocol: RouteProtocol;
+  /** Preference between sources, lower wins. */
+  adminDistance: number;
+  /** Preference between routes of one source, lower wins. */
+  metric: number;
+  /** Set for routes that drop traffic instead of forwarding it; they still win longest-prefix match. */
+  discard?: RouteDiscard;
+};
+
+/**
+ * A route to add: protocol defaults to STATIC with a next hop or discard and CONNECTED otherwise,
+ * the distance to the protocol's default and the metric to 0
+ */
+export type RouteSpec = Omit<Route, 'protocol' | 'adminDistance' | 'metric'> &
+  Partial<Pick<Route, 'protocol' | 'adminDistance' | 'metric'>>;
+
+export type RouteLookup = {
+  address: string;
+  /** Longest matching prefix. */
+  prefix: NormalisedCidr;
+  /** Selected routes: every route sharing the best distance and metric (more than one is ECMP). */
+  paths: Route[];
+  /** Remaining routes for the prefix, in preference order. */
+  backups: Route[];
+  /** Set when the selected route drops the traffic. */
+  discard?: RouteDiscard;
+};
+
+/**
+ * A route that never forwards traffic
+ *  - PREFERRED_ROUTE: a route for the same prefix wins on distance or metric
+ *  - MORE_SPECIFICS: more specific routes cover every address of the prefix
+ */
+export type ShadowedRoute = {
+  route: Route;
+  reason: 'PREFERRED_ROUTE' | 'MORE_SPECIFICS';
+  by: Route[];
+};
+
+/**
+ * A route whose next hop cannot be resolved
+ *  - NO_ROUTE_TO_NEXT_HOP: no other route covers the next hop
+ *  - RECURSIVE_LOOP: the next hop only resolves back through this route
+ */
+export type UnreachableRoute = {
+  route: Route;
+  reason: 'NO_ROUTE_TO_NEXT_HOP' | 'RECURSIVE_LOOP';
+};
+
+export type RouteAnalysis = {
+  shadowed: ShadowedRoute[];
+  unreachable: UnreachableRoute[];
+};
+
+function toRoute(spec: RouteSpec): Route {
+  const protocol = spec.protocol ?? (spec.nextHop || spec.discard ? 'STATIC' : 'CONNECTED');
+  return {
+    ...spec,
+    protocol,
+    adminDistance: spec.adminDistance ?? DEFAULT_ADMIN_DISTANCE[protocol],
+    metric: spec.metric ?? 0,
+  };
+}
+
+function byPreference(a: Route, b: Route): number {
+  return a.adminDistance - b.adminDistance || a.metric - b.metric;
+}
+
+// Routes for one prefix split into the selected (ECMP) group and backups
+function select(routes: Route[]): { paths: Route[]; backups: Route[] } {
+  const sorted = [...routes].sort(byPreference);
+  const best = sorted[0];
+  const paths = sorted.filter((r) => best && byPreference(r, best) === 0);
+  return { paths, backups: sorted.slice(paths.length) };
+}
+
+function label(cidr: NormalisedCidr): string {
+  return formatCidr(cidr.version, cidr.network, cidr.prefix);
+}
+
+/**
+ * Routing table with longest-prefix-match lookup
+ * Routes for the same prefix are ranked by administrative distance, then metric; ties are
+ * installed together as equal-cost paths.
+ */
+export class RoutingTable {
+  private readonly trie = new PrefixTrie<Route[]>();
+
+  constructor(routes: Iterable<RouteSpec> = []) {
+    for (const route of routes) this.add(route);
+  }
+
+  /** Add a route, returning it with defaults filled in. */
+  add(spec: RouteSpec): Route {
+    const route = toRoute(spec);
+    const existing = this.trie.get(route.destination);
+    if (existing) existing.push(route);
+    else this.trie.insert(route.destination, [route]);
+    return route;
+  }
+
+  /** Remove a route previously returned by `add` (or listed by `routes`). */
+  remove(route: Route): boolean {
+    const existing = this.trie.get(route.destination);
+    const index = existing ? existing.indexOf(route) : -1;
+    if (!existing || index === -1) return false;
+    existing.splice(index, 1);
+    if (existing.length === 0) this.trie.delete(route.destination);
+    return true;
+  }
+
+  /** Every route, IPv4 first, in prefix order and preference order within a prefix. */
+  get routes(): Route[] {
+    return [...this.trie.entries()].flatMap((entry) => [...entry.value].sort(byPreference));
+  }
+
+  /**
+   * Routes that forward traffic for an address, or null if nothing matches
+   * @throws Error if the address is invalid
+   */
+  lookup(address: string): RouteLookup | null {
+    const match = this.trie.longestMatch(address);
+    if (!match) return null;
+    const { paths, backups } = select(match.value);
+    const discard = paths[0]?.discard;
+    return { address, prefix: match.cidr, paths, backups, ...(discard && { discard }) };
+  }
+
+  /**
+   * Find routes that never forward traffic and routes whose next hop cannot be resolved
+   */
+  analyse(): RouteAnalysis {
+    const shadowed: ShadowedRoute[] = [];
+    for (const { cidr, value } of this.trie.entries()) {
+      const { paths, backups } = select(value);
+      for (const route of backups) shadowed.push({ route, reason: 'PREFERRED_ROUTE', by: paths });
+
+      // Outermost more-specifics; entries come covering-first, so nested ones follow their parent
+      const outer: NormalisedCidr[] = [];
+      const by: Route[] = [];
+      for (const inner of this.trie.covered(cidr)) {
+        const last = outer[outer.length - 1];
+        if (inner.cidr.prefix === cidr.prefix || (last && containsPrefix(last, inner.cidr))) continue;
+        outer.push(inner.cidr);
+        by.push(...select(inner.value).paths);
+      }
+      if (outer.length > 0 && PrefixSet.from(outer).covers(cidr)) {
+        for (const route of paths) shadowed.push({ route, reason: 'MORE_SPECIFICS', by });
+      }
+    }
+
+    const unreachable: UnreachableRoute[] = [];
+    for (const route of this.routes) {
+      const reason = this.resolve(route, new Set());
+      if (reason !== null) unreachable.push({ route, reason });
+    }
+
+    return { shadowed, unreachable };
+  }
+
+  // Recursive next-hop resolution; null when resolved. Discard routes never resolve a next hop.
+  private resolve(route: Route, resolving: Set<Route>): UnreachableRoute['reason'] | null {
+    if (route.discard) return null;
+    if (!route.nextHop || route.protocol === 'CONNECTED') return null;
+    resolving.add(route);
+
+    let looped = false;
+    const covering = this.trie.covering(route.nextHop);
+    for (let i = covering.length - 1; i >= 0; i--) {
+      const candidates = select(covering[i]!.value).paths;
+      const usable = candidates.filter((r) => !resolving.has(r));
+      if (usable.length < candidates.length) looped = true;
+      if (usable.some((r) => !r.discard && this.resolve(r, resolving) === null)) {
+        resolving.delete(route);
+        return null;
+      }
+    }
+
+    resolving.delete(route);
+    return looped ? 'RECURSIVE_LOOP' : 'NO_ROUTE_TO_NEXT_HOP';
+  }
+
+  toString(): string {
+    return this.routes
+      .map((r) => {
+        const via = [r.discard?.toLowerCase(), r.nextHop && `via ${r.nextHop}`, r.interface && `dev ${r.interface}`]
+          .filter(Boolean)
+          .join(' ');
+        return `${label(r.destination)} [${r.adminDistance}/${r.metric}] ${r.protocol.toLowerCase()} ${via}`.trimEnd();
+      })
+      .join('\n');
+  }
+}
+
+const LINUX_PROTOCOLS: Record<string, RouteProtocol> = {
+  kernel: 'CONNECTED',
+  static: 'STATIC',
+  boot: 'STATIC',
+  dhcp: 'STATIC',
+  ra: 'STATIC',
+  bgp: 'BGP',
+  ospf: 'OSPF',
+  rip: 'RIP',
+  isis: 'ISIS',
+  eigrp: 'EIGRP',
+};
+
+// Linux route types outside the forwarding table lookup simulated here
+const LINUX_SKIPPED_TYPES = new Set(['local', 'broadcast', 'anycast', 'multicast']);
+// Linux route types that drop traffic; throw ends the lookup, which in a single table is unreachable
+const LINUX_DISCARD_TYPES: Record<string, RouteDiscard> = {
+  blackhole: 'BLACKHOLE',
+  unreachable: 'UNREACHABLE',
+  prohibit: 'PROHIBIT',
+  throw: 'UNREACHABLE',
+};
+
+type LinuxNextHop = { gateway?: string; dev?: string };
+type LinuxRoute = LinuxNextHop & {
+  type?: string;
+  dst?: string;
+  protocol?: string;
+  metric?: number;
+  nexthops?: LinuxNextHop[];
+};
+
+function hostCidr(destination: string, version: IpVersion): NormalisedCidr {
+  if (destination === 'default') return parseCidr(version === 6 ? '::/0' : '0.0.0.0/0');
+  if (destination.includes('/')) return parseCidr(destination);
+  return parseCidr(`${destination}/${destination.includes(':') ? 128 : 32}`);
+}
+
+/**
+ * Import routes from `ip -j route` (or `ip -j -6 route`) output
+ * Linux has no administrative distance, so every route gets 0 and the metric decides;
+ * multipath routes become one route per next hop. Blackhole, unreachable and prohibit routes
+ * become discard routes; local, broadcast, anycast and multicast routes are skipped.
+ * `version` sets the family of "default" routes without a gateway (default 4).
+ * @throws Error if the input is not an array of route objects
+ */
+export function parseIpRouteJson(input: string | unknown, version: IpVersion = 4): Route[] {
+  const data: unknown = typeof input === 'string' ? JSON.parse(input) : input;
+  if (!Array.isArray(data)) throw new Error('Invalid ip route JSON (expected an array of routes)');
+
+  return data.flatMap((raw: unknown, i): Route[] => {
+    if (typeof raw !== 'object' || raw === null || typeof (raw as LinuxRoute).dst !== 'string') {
+      throw new Error(`Invalid ip route JSON entry ${i + 1} (expected an object with "dst")`);
+    }
+    const entry = raw as LinuxRoute;
+    if (entry.type !== undefined && LINUX_SKIPPED_TYPES.has(entry.type)) return [];
+    const discard = entry.type === undefined ? undefined : LINUX_DISCARD_TYPES[entry.type];
+
+    const hops = entry.nexthops?.length ? entry.nexthops : [entry];
+    const family = hops.some((h) => h.gateway?.includes(':')) ? 6 : version;
+    const destination = hostCidr(entry.dst!, family);
+    const protocol =
+      entry.protocol === 'kernel' && hops.some((h) => h.gateway)
+        ? 'STATIC'
+        : LINUX_PROTOCOLS[entry.protocol ?? 'static'] ?? 'OTHER';
+
+    return hops.map((hop) =>
+      toRoute({
+        destination,
+        nextHop: hop.gateway,
+        interface: hop.dev,
+        protocol,
+        adminDistance: 0,
+        metric: entry.metric ?? 0,
+        ...(discard && { discard }),
+      })
+    );
+  });
+}
+
+const CISCO_PROTOCOLS: Record<string, RouteProtocol> = {
+  C: 'CONNECTED',
+  L: 'CONNECTED',
+  S: 'STATIC',
+  R: 'RIP',
+  B: 'BGP',
+  D: 'EIGRP',
+  O: 'OSPF',
+  i: 'ISIS',
+};
+
+// "O IA     10.1.0.0/16 [110/20] via ..." or "C        10.0.0.0 is directly connected, ..."
+const CISCO_ROUTE = /^([A-Za-z][A-Za-z0-9]?[*+%]?(?:\s*(?:IA|E1|E2|N1|N2|EX|L1|L2|ia|su))?)\s+(\d{1,3}(?:\.\d{1,3}){3})(?:\/(\d{1,2}))?(.*)$/;
+// "      10.0.0.0/24 is subnetted, 3 subnets"
+const CISCO_SUBNETTED = /^\s+\d{1,3}(?:\.\d{1,3}){3}\/(\d{1,2}) is subnetted/;
+const CISCO_VIA = /^\s*\[(\d+)\/(\d+)\]\s+via\s+([^,\s]+)(.*)$/;
+const CISCO_CONNECTED = /^\s*is directly connected,\s*([^,\s]+)/;
+const CISCO_AGE = /^(\d+:\d+:\d+|\d+[wdhm]\d*[wdhm]?)$/;
+
+/**
+ * Import routes from Cisco IOS `show ip route` output
+ * Equal-cost paths on continuation lines become separate routes; classful entries without
+ * a mask take it from the preceding "is subnetted" header. Other lines are ignored.
+ * @throws Error if a route line has an invalid destination
+ */
+export function parseCiscoShowIpRoute(text: string): Route[] {
+  const routes: Route[] = [];
+  let subnetPrefix: string | undefined;
+  let current: { destination: NormalisedCidr; protocol: RouteProtocol } | null = null;
+
+  const addVia = (rest: string) => {
+    const via = CISCO_VIA.exec(rest);
+    if (!via || !current) return false;
+    const fields = via[4]!.split(',').map((f) => f.trim()).filter(Boolean);
+    const iface = fields.filter((f) => !CISCO_AGE.test(f)).pop();
+    routes.push(
+      toRoute({
+        destination: current.destination,
+        nextHop: via[3],
+        interface: iface,
+        protocol: current.protocol,
+        adminDistance: Number(via[1]),
+        metric: Number(via[2]),
+      })
+    );
+    return true;
+  };
+
+  for (const line of text.split(/\r?\n/)) {
+    const subnetted = CISCO_SUBNETTED.exec(line);
+    if (subnetted) {
+      subnetPrefix = subnetted[1];
+      continue;
+    }
+
+    const route = CISCO_ROUTE.exec(line);
+    if (!route) {
+      addVia(line);
+      continue;
+    }
+
+    const code = route[1]!.trim();
+    const prefix = route[3] ?? subnetPrefix;
+    if (prefix === undefined) throw new Error(`Route without a mask in show ip route output: ${line.trim()}`);
+    current = {
+      destination: parseCidr(`${route[2]}/${prefix}`),
+      protocol: CISCO_PROTOCOLS[code.charAt(0)] ?? 'OTHER',
+    };
+
+    const rest = route[4]!;
+    const connected = CISCO_CONNECTED.exec(rest);
+    if (connected) {
+      routes.push(toRoute({ destination: current.destination, interface: connected[1], protocol: current.protocol }));
+    } else {
+      addVia(rest);
+    }
+  }
+
+  return routes;
+}
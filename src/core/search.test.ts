@@ -1,11 +1,17 @@
 import { describe, it, expect } from 'vitest';
-import { parseCidr } from './parser';
+import { parseCidr, formatCidr } from './parser';
+import type { NormalisedCidr } from './types';
 import {
   searchByMetadata,
   filterSubnets,
   getParentPrefixes,
   getParent,
   getChildren,
+  getSibling,
+  offsetBlock,
+  getNextBlock,
+  getPreviousBlock,
+  getNthBlock,
   findDescendants,
   findAncestors
 } from './search';
@@ -167,6 +173,45 @@ describe('Search and Filter (FR-060, FR-062, FR-063)', () => {
     });
   });
 
+  describe('horizontal navigation', () => {
+    const str = (c: NormalisedCidr) => formatCidr(c.version, c.network, c.prefix);
+
+    it('should get the next and previous block of the same size', () => {
+      expect(str(getNextBlock(parseCidr('10.0.3.0/24')))).toBe('10.0.4.0/24');
+      expect(str(getPreviousBlock(parseCidr('10.0.3.0/24')))).toBe('10.0.2.0/24');
+      expect(str(getNextBlock(parseCidr('2001:db8:ffff::/48')))).toBe('2001:db9::/48');
+      expect(str(offsetBlock(parseCidr('10.0.0.0/26'), 5))).toBe('10.0.1.64/26');
+      expect(str(offsetBlock(parseCidr('10.0.1.64/26'), -5n))).toBe('10.0.0.0/26');
+      const node = { ...parseCidr('10.0.0.0/24'), id: 'n0', children: [] };
+      expect(offsetBlock(node, 1)).toEqual({ version: 4, bits: 32, network: 0x0a000100n, prefix: 24 });
+    });
+
+    it('should refuse to leave the address family', () => {
+      expect(() => getNextBlock(parseCidr('255.255.255.0/24'))).toThrow('leaves the IPv4 address space');
+      expect(() => getPreviousBlock(parseCidr('::/64'))).toThrow('leaves the IPv6 address space');
+      expect(() => getNextBlock(parseCidr('0.0.0.0/0'))).toThrow('leaves the IPv4 address space');
+      expect(() => offsetBlock(parseCidr('10.0.0.0/24'), 0.5)).toThrow('Invalid block offset');
+    });
+
+    it('should get the nth block inside a parent', () => {
+      const parent = parseCidr('10.0.0.0/16');
+      expect(str(getNthBlock(parent, 24, 0))).toBe('10.0.0.0/24');
+      expect(str(getNthBlock(parent, 24, 10))).toBe('10.0.10.0/24');
+      expect(str(getNthBlock(parent, 24, -1))).toBe('10.0.255.0/24');
+      expect(str(getNthBlock(parseCidr('2001:db8::/32'), 64, 1n << 31n))).toBe('2001:db8:8000::/64');
+      expect(() => getNthBlock(parent, 24, 256)).toThrow('256 /24 blocks');
+      expect(() => getNthBlock(parent, 24, -257)).toThrow('does not exist');
+      expect(() => getNthBlock(parent, 8, 0)).toThrow('Invalid block prefix');
+    });
+
+    it('should get the sibling (buddy) prefix', () => {
+      expect(str(getSibling(parseCidr('10.0.2.0/24'))!)).toBe('10.0.3.0/24');
+      expect(str(getSibling(parseCidr('10.0.3.0/24'))!)).toBe('10.0.2.0/24');
+      expect(str(getSibling(parseCidr('2001:db8::/33'))!)).toBe('2001:db8:8000::/33');
+      expect(getSibling(parseCidr('0.0.0.0/0'))).toBeNull();
+    });
+  });
+
   describe('findDescendants (FR-062)', () => {
     it('should find all descendants', () => {
       const parent = parseCidr('10.0.0.0/16');
@@ -1,9 +1,11 @@
 /**
- * Search and filter functionality (FR-060, FR-062, FR-063)
+ * Search, filter and navigation functionality (FR-060, FR-062, FR-063)
  */
 
 import type { IpVersion, NormalisedCidr } from './types';
-import { containsPrefix } from './set-operations';
+import { cachedIndex } from './prefix-trie';
+import { formatCidr } from './parser';
+import { assertIntegerInRange } from './utils';
 
 export type FilterCriteria = {
   version?: IpVersion;
@@ -146,6 +148,92 @@ export function getChildren(cidr: NormalisedCidr): [NormalisedCidr, NormalisedCi
   return [left, right];
 }
 
+/**
+ * Get the sibling (buddy) prefix: the other half of the immediate parent
+ */
+export function getSibling(cidr: NormalisedCidr): NormalisedCidr | null {
+  if (cidr.prefix === 0) return null;
+
+  const bit = 1n << BigInt(cidr.bits - cidr.prefix);
+
+  return {
+    version: cidr.version,
+    bits: cidr.bits,
+    network: cidr.network ^ bit,
+    prefix: cidr.prefix
+  };
+}
+
+/**
+ * Move a prefix by `offset` blocks of its own size (negative moves backwards)
+ * @throws Error if the block would leave the address family
+ */
+export function offsetBlock(cidr: NormalisedCidr, offset: bigint | number): NormalisedCidr {
+  if (typeof offset === 'number' && !Number.isSafeInteger(offset)) {
+    throw new Error('Invalid block offset (expected an integer)');
+  }
+
+  const size = 1n << BigInt(cidr.bits - cidr.prefix);
+  const network = cidr.network + BigInt(offset) * size;
+
+  if (network < 0n || network >= 1n << BigInt(cidr.bits)) {
+    const label = formatCidr(cidr.version, cidr.network, cidr.prefix);
+    throw new Error(`Moving ${label} by ${offset} blocks leaves the IPv${cidr.version} address space`);
+  }
+
+  return { version: cidr.version, bits: cidr.bits, network, prefix: cidr.prefix };
+}
+
+/**
+ * Get the next block of the same size (e.g. 10.0.3.0/24 -> 10.0.4.0/24)
+ * @throws Error after the last block of the address family
+ */
+export function getNextBlock(cidr: NormalisedCidr): NormalisedCidr {
+  return offsetBlock(cidr, 1n);
+}
+
+/**
+ * Get the previous block of the same size
+ * @throws Error before the first block of the address family
+ */
+export function getPreviousBlock(cidr: NormalisedCidr): NormalisedCidr {
+  return offsetBlock(cidr, -1n);
+}
+
+/**
+ * Get the nth /newPrefix block inside a parent, counting from 0; negative n counts back from the last (-1)
+ * @throws Error if the parent has fewer blocks of that size
+ */
+export function getNthBlock(parent: NormalisedCidr, newPrefix: number, n: bigint | number): NormalisedCidr {
+  assertIntegerInRange(newPrefix, parent.prefix, parent.bits, `Invalid block prefix (expected ${parent.prefix}..${parent.bits})`);
+  if (typeof n === 'number' && !Number.isSafeInteger(n)) {
+    throw new Error('Invalid block index (expected an integer)');
+  }
+
+  const count = 1n << BigInt(newPrefix - parent.prefix);
+  const index = BigInt(n) < 0n ? count + BigInt(n) : BigInt(n);
+
+  if (index < 0n || index >= count) {
+    const label = formatCidr(parent.version, parent.network, parent.prefix);
+    throw new Error(`${label} has ${count} /${newPrefix} blocks; block ${n} does not exist`);
+  }
+
+  return {
+    version: parent.version,
+    bits: parent.bits,
+    network: parent.network + index * (1n << BigInt(parent.bits - newPrefix)),
+    prefix: newPrefix
+  };
+}
+
+// Candidates at the given trie entries, in their original order
+function atPositions(candidates: NormalisedCidr[], entries: Array<{ value: number[] }>): NormalisedCidr[] {
+  return entries
+    .flatMap((entry) => entry.value)
+    .sort((a, b) => a - b)
+    .map((i) => candidates[i]!);
+}
+
 /**
  * Find all descendants of a prefix in a set
  */
@@ -153,10 +241,9 @@ export function findDescendants(
   parent: NormalisedCidr,
   candidates: NormalisedCidr[]
 ): NormalisedCidr[] {
-  return candidates.filter(candidate => {
-    // A descendant must be contained by parent and have a longer prefix
-    return candidate.prefix > parent.prefix && containsPrefix(parent, candidate);
-  });
+  // A descendant must be contained by parent and have a longer prefix
+  const covered = cachedIndex(candidates).covered(parent);
+  return atPositions(candidates, covered.filter((entry) => entry.cidr.prefix > parent.prefix));
 }
 
 /**
@@ -166,9 +253,7 @@ export function findAncestors(
   child: NormalisedCidr,
   candidates: NormalisedCidr[]
 ): NormalisedCidr[] {
-  return candidates.filter(candidate => {
-    // An ancestor must contain the child and have a shorter prefix
-    return candidate.prefix < child.prefix && containsPrefix(candidate, child);
-  });
+  // An ancestor must contain the child and have a shorter prefix
+  const covering = cachedIndex(candidates).covering(child);
+  return atPositions(candidates, covering.filter((entry) => entry.cidr.prefix < child.prefix));
 }
-
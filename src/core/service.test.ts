@@ -25,6 +25,24 @@ describe('SubnetService (FR-074)', () => {
     });
   });
 
+  describe('extract', () => {
+    it('should extract prefixes from free text', () => {
+      const found = service.extract('route 10.0.0.0/8 via 192.168.1.1');
+      expect(found.map((f) => f.kind)).toEqual(['CIDR', 'ADDRESS']);
+    });
+  });
+
+  describe('address arithmetic', () => {
+    it('should expose arithmetic and lazy iterators', () => {
+      const cidr = service.parse('10.0.4.0/22');
+      expect(service.nthHost(cidr, 10)).toBe('10.0.4.10');
+      expect(service.nextAddress('10.0.4.255')).toBe('10.0.5.0');
+      expect(service.addressIndex(cidr, '10.0.5.0')).toBe(256n);
+      expect(service.hosts(service.parse('2001:db8::/48')).next().value).toBe('2001:db8::');
+      expect(service.subPrefixes(cidr, 23).next().value).toEqual(parseCidr('10.0.4.0/23'));
+    });
+  });
+
   describe('parseWithNetmask', () => {
     it('should parse IPv4 with netmask', () => {
       const cidr = service.parseWithNetmask('192.168.1.0', '255.255.255.0');
@@ -121,8 +139,16 @@ describe('SubnetService (FR-074)', () => {
       const a = [service.parse('10.0.0.0/24')];
       const b = [service.parse('10.0.1.0/24')];
       const union = service.union(a, b);
-      expect(union).toHaveLength(2); // Union combines sets, doesn't merge
-      expect(union.some(c => c.prefix === 24)).toBe(true);
+      expect(union).toHaveLength(1); // Adjacent /24s merge into one /23
+      expect(union[0]!.prefix).toBe(23);
+    });
+
+    it('should compute exact difference and intersection', () => {
+      const a = service.parse('10.0.0.0/24');
+      const b = service.parse('10.0.0.128/25');
+      expect(service.difference(a, b)).toEqual([service.parse('10.0.0.0/25')]);
+      expect(service.intersection([a], [b, service.parse('10.0.1.0/24')])).toEqual([b]);
+      expect(service.complement([b], a)).toEqual([service.parse('10.0.0.0/25')]);
     });
   });
 
@@ -229,5 +255,26 @@ describe('SubnetService (FR-074)', () => {
       const match = service.longestPrefixMatch('2001:db8::1', cidrs);
       expect(match!.prefix).toBe(128);
     });
+
+    it('should throw for invalid addresses', () => {
+      expect(() => service.longestPrefixMatch('not-an-ip', [service.parse('0.0.0.0/0')])).toThrow('Invalid IPv4 address');
+    });
+
+    it('should build a reusable prefix index', () => {
+      const index = service.prefixIndex([
+        [service.parse('10.0.0.0/8'), 'core'],
+        [service.parse('10.1.0.0/16'), 'site'],
+      ]);
+      expect(index.longestMatch('10.1.2.3')?.value).toBe('site');
+      expect(index.longestMatch('10.2.0.1')?.value).toBe('core');
+    });
+
+    it('should route through an imported table', () => {
+      const table = service.createRoutingTable(
+        service.parseCiscoShowIpRoute('S*    0.0.0.0/0 [1/0] via 10.0.0.1\nC     10.0.0.0/24 is directly connected, Gi0/0')
+      );
+      expect(table.lookup('8.8.8.8')?.paths[0]?.nextHop).toBe('10.0.0.1');
+      expect(table.analyse().unreachable).toEqual([]);
+    });
   });
 });
@@ -3,12 +3,33 @@
  * Provides a unified API for all subnet operations
  */
 
-import type { NormalisedCidr, IpVersion, VlsmRequest, VlsmAllocation, VlsmStrategy } from './types';
-import { parseCidr, formatCidr, formatAddress, parseCidrWithNetmask, rangeToMinimalPrefixes, classifyAddress } from './parser';
+import type { AddressClassification, AddressFormatOptions, CountFormatOptions, NormalisedCidr, PrefixClassification, IpVersion, ReservationProfile, ExtractedPrefix, ParsedInput, MaskedAddress, VlsmRequest, VlsmAllocation, VlsmStrategy } from './types';
+import { parseCidr, parseCidrSafe, parseAny, formatCidr, formatAddress, parseCidrWithNetmask, rangeToMinimalPrefixes, classifyAddress, classifyAddressDetailed, classifyPrefix, extractCidrs } from './parser';
+import type { CidrParseOptions, CidrParseResult } from './parser';
+import type { SplitResult, LossySummaryOptions, LossySummary } from './transformations';
 import { subnetMeta, binaryWithPrefix, reverseDnsZone, formatCount } from './calculations';
-import { splitBinary, splitIntoN, splitByHostCount, mergeSiblings, summarizePrefixes, minimalCoveringSupernet } from './transformations';
-import { containsIp, containsPrefix, detectOverlaps, areAdjacent, unionPrefixes, intersectPrefixes, differencePrefixes } from './set-operations';
+import { splitBinary, splitIntoN, splitIntoCount, splitByPrefixes, splitByWeights, splitByPercentages, splitByHostCount, mergeSiblings, summarizePrefixes, summarizePrefixesLossy, minimalCoveringSupernet } from './transformations';
+import { containsIp, containsPrefix, detectOverlaps, areAdjacent, unionPrefixes, intersectPrefixes, differencePrefixes, symmetricDifferencePrefixes, complementPrefixes } from './set-operations';
+import { PrefixSet } from './prefix-set';
+import { PrefixTrie, cachedIndex } from './prefix-trie';
+import { RoutingTable, parseIpRouteJson, parseCiscoShowIpRoute } from './routing';
+import type { Route, RouteSpec } from './routing';
+import { findFreeSpace, firstFreeBlock } from './free-space';
+import type { FreeSpace } from './free-space';
 import { allocateVlsm } from './vlsm';
+import { parseReservationProfile } from './reservations';
+import { adviseSizing } from './sizing';
+import type { SizingAdvice, SizingOptions } from './sizing';
+import { bitView } from './bit-view';
+import type { BitView } from './bit-view';
+import { offsetAddress, nextAddress, previousAddress, addressDistance, addressIndex, nthHost, iterateHosts, iterateSubPrefixes, countSubPrefixes, pageSubPrefixes } from './arithmetic';
+import type { SubPrefixPage } from './arithmetic';
+import { extractEmbeddedIpv4, nat64SubnetPrefix, NAT64_WELL_KNOWN_PREFIX } from './ipv6-transition';
+import type { EmbeddedIpv4 } from './ipv6-transition';
+import { ptrName, parseReverseName, reverseDnsDelegation } from './reverse-dns';
+import type { ReverseDelegationOptions, ReverseDelegationPlan } from './reverse-dns';
+import { macToInterfaceId, slaacAddress, eui64ToMac, isEui64Address } from './eui64';
+import { parseWildcardMask, matchesWildcard, wildcardToCidrs, cidrToWildcard } from './wildcard';
 
 /**
  * Unified subnet service facade
@@ -17,22 +38,36 @@ export class SubnetService {
   /**
    * Parse CIDR notation (FR-001, FR-002)
    */
-  parse(input: string): NormalisedCidr {
-    return parseCidr(input);
+  parse(input: string, options?: CidrParseOptions): NormalisedCidr {
+    return parseCidr(input, options);
+  }
+
+  /**
+   * Parse CIDR notation without throwing, reporting structured errors and warnings
+   */
+  parseSafe(input: string, options?: CidrParseOptions): CidrParseResult {
+    return parseCidrSafe(input, options);
+  }
+
+  /**
+   * Parse CIDR, netmask, range, shorthand range, wildcard or bare address notation
+   */
+  parseAny(input: string, options?: CidrParseOptions): ParsedInput {
+    return parseAny(input, options);
   }
 
   /**
    * Parse CIDR with netmask notation (FR-004)
    */
-  parseWithNetmask(address: string, netmask: string): NormalisedCidr {
-    return parseCidrWithNetmask(address, netmask);
+  parseWithNetmask(address: string, netmask: string, options?: CidrParseOptions): NormalisedCidr {
+    return parseCidrWithNetmask(address, netmask, options);
   }
 
   /**
    * Format CIDR to string (FR-001, FR-002)
    */
-  format(cidr: NormalisedCidr): string {
-    return formatCidr(cidr.version, cidr.network, cidr.prefix);
+  format(cidr: NormalisedCidr, options?: AddressFormatOptions): string {
+    return formatCidr(cidr.version, cidr.network, cidr.prefix, options);
   }
 
   /**
@@ -42,6 +77,13 @@ export class SubnetService {
     return rangeToMinimalPrefixes(start, end);
   }
 
+  /**
+   * Extract addresses, CIDRs, netmask pairs and ranges from free text
+   */
+  extract(text: string): ExtractedPrefix[] {
+    return extractCidrs(text);
+  }
+
   /**
    * Classify address (FR-006)
    */
@@ -49,11 +91,39 @@ export class SubnetService {
     return classifyAddress(address);
   }
 
+  /**
+   * Classify address with IANA special-purpose registry attributes (FR-006)
+   */
+  classifyAddressDetailed(address: string): AddressClassification {
+    return classifyAddressDetailed(address);
+  }
+
+  /**
+   * Classify a prefix by the special-purpose ranges it lies within or contains
+   */
+  classifyPrefix(cidr: NormalisedCidr): PrefixClassification {
+    return classifyPrefix(cidr);
+  }
+
   /**
    * Get subnet metadata (FR-010, FR-011)
    */
-  getMetadata(network: bigint, prefix: number, version: IpVersion, bits: 32 | 128) {
-    return subnetMeta(network, prefix, version, bits);
+  getMetadata(
+    network: bigint,
+    prefix: number,
+    version: IpVersion,
+    bits: 32 | 128,
+    format?: AddressFormatOptions,
+    profile?: ReservationProfile
+  ) {
+    return subnetMeta(network, prefix, version, bits, format, profile);
+  }
+
+  /**
+   * Look up a reservation profile (aws, azure, gcp, gateway, hsrp) or build one from offsets
+   */
+  getReservationProfile(spec: string): ReservationProfile {
+    return parseReservationProfile(spec);
   }
 
   /**
@@ -63,6 +133,13 @@ export class SubnetService {
     return binaryWithPrefix(network, prefix, bits);
   }
 
+  /**
+   * Get per-bit network/path/host roles with nibble and octet groupings
+   */
+  getBitView(network: bigint, prefix: number, bits: 32 | 128, pathLength?: number): BitView {
+    return bitView(network, prefix, bits, pathLength);
+  }
+
   /**
    * Get reverse DNS zone (FR-012)
    */
@@ -71,10 +148,107 @@ export class SubnetService {
   }
 
   /**
-   * Format count (FR-010, FR-011)
+   * Plan reverse DNS delegation, including RFC 2317 classless delegation
+   */
+  getReverseDnsDelegation(
+    network: bigint,
+    prefix: number,
+    version: IpVersion,
+    bits: 32 | 128,
+    options?: ReverseDelegationOptions
+  ): ReverseDelegationPlan {
+    return reverseDnsDelegation(network, prefix, version, bits, options);
+  }
+
+  /**
+   * PTR owner name for an address
+   */
+  ptrName(address: string): string {
+    return ptrName(address);
+  }
+
+  /**
+   * Parse a PTR name or reverse zone into the prefix it covers
+   */
+  parseReverseName(name: string): NormalisedCidr {
+    return parseReverseName(name);
+  }
+
+  /**
+   * Format count with locale, compact and block-unit options (FR-010, FR-011)
    */
-  formatCount(count: bigint, bits: 32 | 128, prefix: number): string {
-    return formatCount(count, bits, prefix);
+  formatCount(count: bigint, bits: 32 | 128, prefix: number, options?: CountFormatOptions): string {
+    return formatCount(count, bits, prefix, options);
+  }
+
+  /**
+   * Address `offset` positions away from an address
+   */
+  offsetAddress(address: string, offset: bigint | number): string {
+    return offsetAddress(address, offset);
+  }
+
+  /**
+   * Next address
+   */
+  nextAddress(address: string): string {
+    return nextAddress(address);
+  }
+
+  /**
+   * Previous address
+   */
+  previousAddress(address: string): string {
+    return previousAddress(address);
+  }
+
+  /**
+   * Signed distance between two addresses
+   */
+  addressDistance(from: string, to: string): bigint {
+    return addressDistance(from, to);
+  }
+
+  /**
+   * Offset of an address within its subnet
+   */
+  addressIndex(cidr: NormalisedCidr, address: string): bigint {
+    return addressIndex(cidr, address);
+  }
+
+  /**
+   * The nth usable host (1-based; negative counts from the end)
+   */
+  nthHost(cidr: NormalisedCidr, n: bigint | number): string {
+    return nthHost(cidr, n);
+  }
+
+  /**
+   * Lazily iterate usable hosts
+   */
+  hosts(cidr: NormalisedCidr, start?: bigint | number): Generator<string> {
+    return iterateHosts(cidr, start);
+  }
+
+  /**
+   * Lazily iterate sub-prefixes of a given length, optionally skipping `start` of them
+   */
+  subPrefixes(cidr: NormalisedCidr, newPrefix: number, start?: bigint | number): Generator<NormalisedCidr> {
+    return iterateSubPrefixes(cidr, newPrefix, start);
+  }
+
+  /**
+   * Count sub-prefixes of a given length
+   */
+  countSubPrefixes(cidr: NormalisedCidr, newPrefix: number): bigint {
+    return countSubPrefixes(cidr, newPrefix);
+  }
+
+  /**
+   * Page through sub-prefixes of a given length
+   */
+  pageSubPrefixes(cidr: NormalisedCidr, newPrefix: number, offset?: bigint | number, limit?: number): SubPrefixPage {
+    return pageSubPrefixes(cidr, newPrefix, offset, limit);
   }
 
   /**
@@ -91,13 +265,48 @@ export class SubnetService {
     return splitIntoN(cidr, n);
   }
 
+  /**
+   * Split into any number of equal subnets, returning the unused remainder
+   */
+  splitIntoCount(cidr: NormalisedCidr, n: number): SplitResult {
+    return splitIntoCount(cidr, n);
+  }
+
+  /**
+   * Split into blocks of the given prefix lengths, returning the unused remainder
+   */
+  splitByPrefixes(cidr: NormalisedCidr, prefixes: number[]): SplitResult {
+    return splitByPrefixes(cidr, prefixes);
+  }
+
+  /**
+   * Split by relative weights, returning the unused remainder
+   */
+  splitByWeights(cidr: NormalisedCidr, weights: number[]): SplitResult {
+    return splitByWeights(cidr, weights);
+  }
+
+  /**
+   * Split by percentages of the parent, returning the unused remainder
+   */
+  splitByPercentages(cidr: NormalisedCidr, percentages: number[]): SplitResult {
+    return splitByPercentages(cidr, percentages);
+  }
+
   /**
    * Split by required host count (FR-022)
    */
-  splitByHostCount(cidr: NormalisedCidr, hostCount: number): { prefix: number; subnets: NormalisedCidr[] } {
+  splitByHostCount(cidr: NormalisedCidr, hostCount: number): { prefix: number; count: bigint; subnets: NormalisedCidr[] } {
     return splitByHostCount(cidr, hostCount);
   }
 
+  /**
+   * Every candidate prefix for a host count, with waste and headroom
+   */
+  adviseSizing(hostCount: bigint | number, version: IpVersion, options?: SizingOptions): SizingAdvice {
+    return adviseSizing(hostCount, version, options);
+  }
+
   /**
    * Merge sibling prefixes (FR-023)
    */
@@ -112,6 +321,13 @@ export class SubnetService {
     return summarizePrefixes(cidrs);
   }
 
+  /**
+   * Summarise with loss down to a prefix count and/or waste tolerance
+   */
+  summariseLossy(cidrs: NormalisedCidr[], options: LossySummaryOptions): LossySummary {
+    return summarizePrefixesLossy(cidrs, options);
+  }
+
   /**
    * Get minimal covering supernet (FR-025)
    */
@@ -157,17 +373,124 @@ export class SubnetService {
   /**
    * Compute intersection (FR-034)
    */
-  intersection(a: NormalisedCidr, b: NormalisedCidr): NormalisedCidr | null {
-    return intersectPrefixes(a, b);
+  intersection(a: NormalisedCidr, b: NormalisedCidr): NormalisedCidr | null;
+  intersection(a: NormalisedCidr[], b: NormalisedCidr[]): NormalisedCidr[];
+  intersection(a: NormalisedCidr | NormalisedCidr[], b: NormalisedCidr | NormalisedCidr[]): NormalisedCidr | NormalisedCidr[] | null {
+    return Array.isArray(a) ? intersectPrefixes(a, b as NormalisedCidr[]) : intersectPrefixes(a, b as NormalisedCidr);
   }
 
   /**
    * Compute difference (FR-034)
    */
-  difference(a: NormalisedCidr, b: NormalisedCidr): NormalisedCidr[] {
+  difference(a: NormalisedCidr | NormalisedCidr[], b: NormalisedCidr | NormalisedCidr[]): NormalisedCidr[] {
     return differencePrefixes(a, b);
   }
 
+  /**
+   * Compute symmetric difference (FR-034)
+   */
+  symmetricDifference(a: NormalisedCidr[], b: NormalisedCidr[]): NormalisedCidr[] {
+    return symmetricDifferencePrefixes(a, b);
+  }
+
+  /**
+   * Compute complement within a universe prefix (FR-034)
+   */
+  complement(cidrs: NormalisedCidr[], universe: NormalisedCidr): NormalisedCidr[] {
+    return complementPrefixes(cidrs, universe);
+  }
+
+  /**
+   * Build a prefix set for exact set algebra
+   */
+  prefixSet(cidrs: Iterable<NormalisedCidr>): PrefixSet {
+    return PrefixSet.from(cidrs);
+  }
+
+  /**
+   * Find the free space the used prefixes leave in a parent
+   */
+  findFreeSpace(parent: NormalisedCidr, used: NormalisedCidr[]): FreeSpace {
+    return findFreeSpace(parent, used);
+  }
+
+  /**
+   * Find the lowest free block of a given length in a parent
+   */
+  firstFreeBlock(parent: NormalisedCidr, used: NormalisedCidr[], prefix: number): NormalisedCidr | null {
+    return firstFreeBlock(parent, used, prefix);
+  }
+
+  /**
+   * Detect an IPv4 address embedded in a mapped, 6to4, Teredo or NAT64 address
+   */
+  extractEmbeddedIpv4(ipv6: string, nat64Prefixes?: NormalisedCidr[]): EmbeddedIpv4 | null {
+    return extractEmbeddedIpv4(ipv6, nat64Prefixes);
+  }
+
+  /**
+   * IPv6 prefix holding the NAT64 synthesised addresses of an IPv4 subnet
+   */
+  nat64SubnetPrefix(ipv4Cidr: NormalisedCidr, nat64Prefix: NormalisedCidr = NAT64_WELL_KNOWN_PREFIX): NormalisedCidr {
+    return nat64SubnetPrefix(ipv4Cidr, nat64Prefix);
+  }
+
+  /**
+   * Modified EUI-64 interface identifier for a MAC address
+   */
+  macToInterfaceId(mac: string): string {
+    return macToInterfaceId(mac);
+  }
+
+  /**
+   * Predict the SLAAC address of a MAC within an IPv6 /64
+   */
+  slaacAddress(prefix: NormalisedCidr, mac: string): string {
+    return slaacAddress(prefix, mac);
+  }
+
+  /**
+   * Recover the MAC address from an EUI-64 based IPv6 address
+   */
+  eui64ToMac(ipv6: string): string {
+    return eui64ToMac(ipv6);
+  }
+
+  /**
+   * Check if an IPv6 address looks EUI-64 based
+   */
+  isEui64Address(ipv6: string): boolean {
+    return isEui64Address(ipv6);
+  }
+
+  /**
+   * Parse an address with an arbitrary (ACL) wildcard mask
+   */
+  parseWildcard(address: string, wildcard: string): MaskedAddress {
+    return parseWildcardMask(address, wildcard);
+  }
+
+  /**
+   * Check if an address matches a wildcard-masked address
+   */
+  matchesWildcard(masked: MaskedAddress, ip: string): boolean {
+    return matchesWildcard(masked, ip);
+  }
+
+  /**
+   * Expand a wildcard-masked address into equivalent CIDRs
+   */
+  wildcardToCidrs(masked: MaskedAddress, limit?: number): NormalisedCidr[] {
+    return wildcardToCidrs(masked, limit);
+  }
+
+  /**
+   * Convert a CIDR into wildcard notation
+   */
+  toWildcard(cidr: NormalisedCidr): MaskedAddress {
+    return cidrToWildcard(cidr);
+  }
+
   /**
    * Allocate VLSM subnets (FR-040 to FR-045)
    */
@@ -175,26 +498,50 @@ export class SubnetService {
     parent: NormalisedCidr,
     requests: VlsmRequest[],
     strategy: VlsmStrategy = 'LARGEST_FIRST',
-    reserved: NormalisedCidr[] = []
+    reserved: NormalisedCidr[] = [],
+    profile?: ReservationProfile
   ): VlsmAllocation[] {
-    return allocateVlsm(parent, requests, strategy, reserved);
+    return allocateVlsm(parent, requests, strategy, reserved, profile);
   }
 
   /**
    * Longest prefix match lookup (FR-061)
+   * Repeated lookups against the same array reuse its index.
    */
   longestPrefixMatch(ip: string, cidrs: NormalisedCidr[]): NormalisedCidr | null {
-    let bestMatch: NormalisedCidr | null = null;
-    let bestPrefix = -1;
+    const match = cachedIndex(cidrs).longestMatch(ip);
+    // The first of several identical prefixes wins
+    return match ? cidrs[match.value[0]!]! : null;
+  }
+
+  /**
+   * Build a prefix trie for repeated longest-prefix and containment lookups
+   */
+  prefixIndex<T>(entries: Iterable<[NormalisedCidr, T]>): PrefixTrie<T> {
+    const trie = new PrefixTrie<T>();
+    for (const [cidr, value] of entries) trie.insert(cidr, value);
+    return trie;
+  }
+  /**
+   * Build a routing table for next-hop lookups and route analysis
+   */
+  createRoutingTable(routes: Iterable<RouteSpec> = []): RoutingTable {
+    return new RoutingTable(routes);
+  }
 
-    for (const cidr of cidrs) {
-      if (containsIp(cidr, ip) && cidr.prefix > bestPrefix) {
-        bestMatch = cidr;
-        bestPrefix = cidr.prefix;
-      }
-    }
+  /**
+   * Import routes from Linux `ip -j route` output
+   */
+  parseIpRouteJson(input: string | unknown, version?: IpVersion): Route[] {
+    return parseIpRouteJson(input, version);
+  }
 
-    return bestMatch;
+  /**
+   * Import routes from Cisco `show ip route` output
+   */
+  parseCiscoShowIpRoute(text: string): Route[] {
+    return parseCiscoShowIpRoute(text);
   }
+
 }
 
@@ -13,8 +13,14 @@ import {
   unionPrefixes,
   intersectPrefixes,
   differencePrefixes,
+  symmetricDifferencePrefixes,
+  complementPrefixes,
 } from './set-operations';
-import { parseCidr } from './parser';
+import { formatCidr, parseCidr } from './parser';
+import type { NormalisedCidr } from './types';
+
+const parseAll = (list: string[]) => list.map((c) => parseCidr(c));
+const cidrs = (list: NormalisedCidr[]) => list.map((c) => formatCidr(c.version, c.network, c.prefix));
 
 describe('IP containment (FR-030)', () => {
   it('should detect IP in prefix', () => {
@@ -101,6 +107,30 @@ describe('Overlap detection (FR-032)', () => {
 
     expect(result.hasOverlap).toBe(false);
   });
+
+  it('should list pairs in input order with the earlier prefix as A', () => {
+    const cidrs = parseAll(['10.1.0.0/24', '2001:db8::/32', '10.0.0.0/8', '10.1.0.0/24', '2001:db8:1::/48']);
+    const result = detectOverlaps(cidrs);
+
+    expect(result.overlaps.map((o) => `${cidrs.indexOf(o.a)}-${cidrs.lastIndexOf(o.b)} ${o.type}`)).toEqual([
+      '0-2 B_CONTAINS_A',
+      '0-3 IDENTICAL',
+      '1-4 A_CONTAINS_B',
+      '2-3 A_CONTAINS_B',
+    ]);
+  });
+
+  it('should scale to large inventories', () => {
+    const cidrs = Array.from({ length: 20000 }, (_, i): NormalisedCidr => ({
+      version: 4,
+      bits: 32,
+      network: (10n << 24n) + BigInt(i) * 256n,
+      prefix: 24,
+    }));
+    cidrs.push(parseCidr('10.0.0.0/8'));
+
+    expect(detectOverlaps(cidrs).overlaps).toHaveLength(20000);
+  });
 });
 
 describe('Adjacency (FR-033)', () => {
@@ -138,12 +168,19 @@ describe('Merge eligibility (FR-033)', () => {
 });
 
 describe('Union (FR-034)', () => {
-  it('should combine two prefix sets', () => {
+  it('should merge two prefix sets into minimal prefixes', () => {
     const a = [parseCidr('192.168.0.0/24')];
     const b = [parseCidr('192.168.1.0/24')];
     const union = unionPrefixes(a, b);
 
-    expect(union).toHaveLength(2);
+    expect(union).toEqual([parseCidr('192.168.0.0/23')]);
+  });
+
+  it('should absorb covered prefixes and keep disjoint ones', () => {
+    const a = [parseCidr('10.0.0.0/16'), parseCidr('2001:db8::/48')];
+    const b = [parseCidr('10.0.5.0/24'), parseCidr('10.2.0.0/16')];
+
+    expect(unionPrefixes(a, b)).toEqual([parseCidr('10.0.0.0/16'), parseCidr('10.2.0.0/16'), parseCidr('2001:db8::/48')]);
   });
 
   it('should remove duplicates', () => {
@@ -172,6 +209,13 @@ describe('Intersection (FR-034)', () => {
 
     expect(intersection).toBeNull();
   });
+
+  it('should intersect prefix lists exactly', () => {
+    const a = parseAll(['10.0.0.0/23', '10.0.4.0/22']);
+    const b = parseAll(['10.0.1.0/24', '10.0.2.0/23', '10.0.6.0/23', '2001:db8::/32']);
+
+    expect(cidrs(intersectPrefixes(a, b))).toEqual(['10.0.1.0/24', '10.0.6.0/23']);
+  });
 });
 
 describe('Difference (FR-034)', () => {
@@ -191,5 +235,38 @@ describe('Difference (FR-034)', () => {
     expect(diff).toHaveLength(1);
     expect(diff[0]).toEqual(a);
   });
+
+  it('should carve B out of A', () => {
+    const diff = differencePrefixes(parseCidr('10.0.0.0/24'), parseCidr('10.0.0.64/26'));
+
+    expect(cidrs(diff)).toEqual(['10.0.0.0/26', '10.0.0.128/25']);
+  });
+
+  it('should subtract prefix lists across families', () => {
+    const a = parseAll(['10.0.0.0/22', '2001:db8::/47']);
+    const b = parseAll(['10.0.1.0/24', '10.0.3.128/25', '2001:db8::/48']);
+
+    expect(cidrs(differencePrefixes(a, b))).toEqual([
+      '10.0.0.0/24',
+      '10.0.2.0/24',
+      '10.0.3.0/25',
+      '2001:db8:1::/48',
+    ]);
+  });
 });
 
+describe('Symmetric difference and complement (FR-034)', () => {
+  it('should keep addresses in exactly one set', () => {
+    const a = parseAll(['10.0.0.0/23']);
+    const b = parseAll(['10.0.1.0/24', '10.0.2.0/24']);
+
+    expect(cidrs(symmetricDifferencePrefixes(a, b))).toEqual(['10.0.0.0/24', '10.0.2.0/24']);
+  });
+
+  it('should complement within a universe', () => {
+    const used = parseAll(['10.0.0.0/24', '10.0.2.0/24', '192.168.0.0/16']);
+
+    expect(cidrs(complementPrefixes(used, parseCidr('10.0.0.0/22')))).toEqual(['10.0.1.0/24', '10.0.3.0/24']);
+    expect(complementPrefixes(parseAll(['10.0.0.0/8']), parseCidr('10.1.0.0/16'))).toEqual([]);
+  });
+});
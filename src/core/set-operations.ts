@@ -4,6 +4,8 @@
 
 import type { NormalisedCidr, OverlapResult } from './types';
 import { ipv4ToBigInt, ipv6ToBigInt } from './parser';
+import { PrefixSet } from './prefix-set';
+import { indexPrefixes } from './prefix-trie';
 
 /**
  * Check if an IP address is contained in a prefix (FR-030)
@@ -43,43 +45,30 @@ export function containsPrefix(a: NormalisedCidr, b: NormalisedCidr): boolean {
 
 /**
  * Detect overlaps between prefixes (FR-032)
+ * Pairs are listed in input order; a trie index keeps this near-linear for large inventories.
  */
 export function detectOverlaps(cidrs: NormalisedCidr[]): OverlapResult {
-  const overlaps: OverlapResult['overlaps'] = [];
+  const pairs: Array<[number, number]> = [];
+  const index = indexPrefixes(cidrs);
 
-  for (let i = 0; i < cidrs.length; i++) {
-    for (let j = i + 1; j < cidrs.length; j++) {
-      const a = cidrs[i]!;
-      const b = cidrs[j]!;
-
-      if (a.version !== b.version || a.bits !== b.bits) continue;
-
-      const aMask = (1n << BigInt(a.bits - a.prefix)) - 1n;
-      const aLast = a.network + aMask;
-
-      const bMask = (1n << BigInt(b.bits - b.prefix)) - 1n;
-      const bLast = b.network + bMask;
-
-      // Check for overlap
-      const hasOverlap = !(aLast < b.network || bLast < a.network);
-
-      if (hasOverlap) {
-        let type: 'IDENTICAL' | 'A_CONTAINS_B' | 'B_CONTAINS_A' | 'PARTIAL';
-
-        if (a.network === b.network && a.prefix === b.prefix) {
-          type = 'IDENTICAL';
-        } else if (containsPrefix(a, b)) {
-          type = 'A_CONTAINS_B';
-        } else if (containsPrefix(b, a)) {
-          type = 'B_CONTAINS_A';
-        } else {
-          type = 'PARTIAL';
-        }
-
-        overlaps.push({ a, b, type });
-      }
+  for (const { value: positions } of index.entries()) {
+    for (let i = 0; i < positions.length; i++) {
+      for (let j = i + 1; j < positions.length; j++) pairs.push([positions[i]!, positions[j]!]);
+    }
+  }
+  for (const [outer, inner] of index.overlaps()) {
+    for (const i of outer.value) {
+      for (const j of inner.value) pairs.push(i < j ? [i, j] : [j, i]);
     }
   }
+  pairs.sort(([a1, b1], [a2, b2]) => a1 - a2 || b1 - b2);
+
+  const overlaps: OverlapResult['overlaps'] = pairs.map(([i, j]) => {
+    const a = cidrs[i]!;
+    const b = cidrs[j]!;
+    const type = a.prefix === b.prefix ? 'IDENTICAL' : a.prefix < b.prefix ? 'A_CONTAINS_B' : 'B_CONTAINS_A';
+    return { a, b, type };
+  });
 
   return {
     hasOverlap: overlaps.length > 0,
@@ -126,83 +115,51 @@ export function canMerge(a: NormalisedCidr, b: NormalisedCidr): boolean {
  * Returns minimal set of prefixes covering all inputs
  */
 export function unionPrefixes(a: NormalisedCidr[], b: NormalisedCidr[]): NormalisedCidr[] {
-  const combined = [...a, ...b];
-
-  // Remove duplicates
-  const unique = new Map<string, NormalisedCidr>();
-  for (const cidr of combined) {
-    const key = `${cidr.version}:${cidr.network}/${cidr.prefix}`;
-    unique.set(key, cidr);
-  }
+  return PrefixSet.from([...a, ...b]).toPrefixes();
+}
 
-  return Array.from(unique.values());
+function toSet(cidrs: NormalisedCidr | NormalisedCidr[]): PrefixSet {
+  return PrefixSet.from(Array.isArray(cidrs) ? cidrs : [cidrs]);
 }
 
 /**
- * Compute intersection of two prefixes (FR-034)
- * Returns the overlapping portion, if any
+ * Compute intersection (FR-034)
+ * Two prefixes overlap only by containment, so they intersect in the more specific one (or not at
+ * all); prefix lists intersect in a minimal prefix list.
  */
-export function intersectPrefixes(a: NormalisedCidr, b: NormalisedCidr): NormalisedCidr | null {
-  if (a.version !== b.version || a.bits !== b.bits) return null;
-
-  const aMask = (1n << BigInt(a.bits - a.prefix)) - 1n;
-  const aLast = a.network + aMask;
-
-  const bMask = (1n << BigInt(b.bits - b.prefix)) - 1n;
-  const bLast = b.network + bMask;
-
-  // No overlap
-  if (aLast < b.network || bLast < a.network) return null;
-
-  // Find the intersection range
-  const intStart = a.network > b.network ? a.network : b.network;
-  const intEnd = aLast < bLast ? aLast : bLast;
-
-  // The intersection is the more specific (longer) prefix
-  if (containsPrefix(a, b)) return b;
-  if (containsPrefix(b, a)) return a;
-
-  // Partial overlap - return the overlapping range as the more specific prefix
-  // This is a simplification; true intersection might require multiple prefixes
-  const longerPrefix = a.prefix > b.prefix ? a.prefix : b.prefix;
-
-  return {
-    version: a.version,
-    bits: a.bits,
-    network: intStart,
-    prefix: longerPrefix,
-  };
+export function intersectPrefixes(a: NormalisedCidr, b: NormalisedCidr): NormalisedCidr | null;
+export function intersectPrefixes(a: NormalisedCidr[], b: NormalisedCidr[]): NormalisedCidr[];
+export function intersectPrefixes(
+  a: NormalisedCidr | NormalisedCidr[],
+  b: NormalisedCidr | NormalisedCidr[]
+): NormalisedCidr | NormalisedCidr[] | null {
+  const result = toSet(a).intersection(toSet(b)).toPrefixes();
+  return Array.isArray(a) ? result : result[0] ?? null;
 }
 
 /**
  * Compute difference A - B (FR-034)
- * Returns prefixes in A that are not in B
- * This is a simplified implementation; full implementation would require
- * splitting A into multiple prefixes to exclude B
+ * Returns the minimal prefixes covering the addresses of A that are not in B
  */
-export function differencePrefixes(a: NormalisedCidr, b: NormalisedCidr): NormalisedCidr[] {
-  if (a.version !== b.version || a.bits !== b.bits) return [a];
-
-  // If B contains A, result is empty
-  if (containsPrefix(b, a)) return [];
-
-  // If A contains B, we need to split A to exclude B
-  // This is complex and would require recursive splitting
-  // For now, return A if there's no containment
-  if (!containsPrefix(a, b)) {
-    // Check for overlap
-    const aMask = (1n << BigInt(a.bits - a.prefix)) - 1n;
-    const aLast = a.network + aMask;
-    const bMask = (1n << BigInt(b.bits - b.prefix)) - 1n;
-    const bLast = b.network + bMask;
-
-    if (aLast < b.network || bLast < a.network) {
-      // No overlap
-      return [a];
-    }
-  }
+export function differencePrefixes(
+  a: NormalisedCidr | NormalisedCidr[],
+  b: NormalisedCidr | NormalisedCidr[]
+): NormalisedCidr[] {
+  return toSet(a).difference(toSet(b)).toPrefixes();
+}
 
-  // Simplified: return A (full implementation would split)
-  return [a];
+/**
+ * Compute symmetric difference (FR-034)
+ * Returns the minimal prefixes covering addresses in exactly one of A and B
+ */
+export function symmetricDifferencePrefixes(a: NormalisedCidr[], b: NormalisedCidr[]): NormalisedCidr[] {
+  return toSet(a).symmetricDifference(toSet(b)).toPrefixes();
 }
 
+/**
+ * Compute complement within a universe prefix (FR-034)
+ * Returns the minimal prefixes covering the addresses of `universe` not in `cidrs`
+ */
+export function complementPrefixes(cidrs: NormalisedCidr[], universe: NormalisedCidr): NormalisedCidr[] {
+  return toSet(cidrs).complement(universe).toPrefixes();
+}
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { prefixForHosts, adviseSizing } from './sizing';
+
+describe('Prefix sizing', () => {
+  it('should find the smallest prefix for a host count', () => {
+    expect(prefixForHosts(1, 4)).toBe(32);
+    expect(prefixForHosts(2, 4)).toBe(31);
+    expect(prefixForHosts(3, 4)).toBe(29);
+    expect(prefixForHosts(62, 4)).toBe(26);
+    expect(prefixForHosts(63, 4)).toBe(25);
+    expect(prefixForHosts(256, 6)).toBe(120);
+    expect(prefixForHosts(1n << 64n, 6)).toBe(64);
+  });
+
+  it('should account for reserved addresses', () => {
+    expect(prefixForHosts(62, 4, 1)).toBe(25);
+    expect(prefixForHosts(59, 4, 3)).toBe(26);
+  });
+
+  it('should return null when no prefix is large enough', () => {
+    expect(prefixForHosts(2n ** 32n, 4)).toBeNull();
+    expect(() => prefixForHosts(0, 4)).toThrow('Required hosts must be positive');
+    expect(() => prefixForHosts(1.5, 4)).toThrow('Invalid host count');
+  });
+
+  it('should list every candidate with waste and headroom', () => {
+    const advice = adviseSizing(50, 4, { minPrefix: 24 });
+    expect(advice).toMatchObject({ requiredHosts: 50n, targetHosts: 50n, recommendedPrefix: 26 });
+    expect(advice.candidates.map((c) => c.prefix)).toEqual([26, 25, 24]);
+    expect(advice.candidates[0]).toEqual({
+      prefix: 26,
+      addressCount: 64n,
+      usableHosts: 62n,
+      wastePercent: 21.87,
+      headroom: 12n,
+      headroomPercent: 24,
+    });
+  });
+
+  it('should size for growth and reservations but measure against current hosts', () => {
+    const advice = adviseSizing(50, 4, { growthPercent: 25, reservedAddresses: 2, minPrefix: 24 });
+    expect(advice.targetHosts).toBe(63n);
+    expect(advice.recommendedPrefix).toBe(25);
+    expect(advice.candidates[0]).toMatchObject({ usableHosts: 124n, headroom: 74n, headroomPercent: 148 });
+  });
+
+  it('should report no candidates when the hosts do not fit within the minimum prefix', () => {
+    const advice = adviseSizing(300, 4, { minPrefix: 24 });
+    expect(advice.recommendedPrefix).toBeNull();
+    expect(advice.candidates).toEqual([]);
+  });
+
+  it('should reject invalid options', () => {
+    expect(() => adviseSizing(10, 4, { growthPercent: -5 })).toThrow('Invalid growth');
+    expect(() => adviseSizing(10, 4, { reservedAddresses: 1.5 })).toThrow('Invalid reserved');
+    expect(() => adviseSizing(10, 4, { minPrefix: 33 })).toThrow('Invalid minimum prefix');
+  });
+});
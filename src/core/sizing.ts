@@ -0,0 +1,118 @@
+/**
+ * Prefix sizing: the smallest prefix for a host count, and every candidate with waste and headroom
+ */
+
+import type { IpVersion, ReservationProfile } from './types';
+import { usableRange } from './calculations';
+import { assertIntegerInRange } from './utils';
+
+export type SizingOptions = {
+  /** Extra capacity to plan for, as a percentage of the requested hosts (default 0). */
+  growthPercent?: number;
+  /** Addresses reserved in every subnet on top of network/broadcast, e.g. gateways (default 0). */
+  reservedAddresses?: number;
+  /** Provider/site reservations replacing the network/broadcast rule (AWS, Azure, GCP, HSRP...). */
+  profile?: ReservationProfile;
+  /** Shortest prefix to consider, e.g. the prefix of the block being carved up (default /0). */
+  minPrefix?: number;
+};
+
+export type PrefixCandidate = {
+  prefix: number;
+  addressCount: bigint;
+  /** Usable addresses after network/broadcast (or profile) and reserved addresses. */
+  usableHosts: bigint;
+  /** Addresses not taken by the requested hosts, as a percentage of the block. */
+  wastePercent: number;
+  /** Usable addresses left after the requested hosts. */
+  headroom: bigint;
+  /** Headroom as a percentage of the requested hosts. */
+  headroomPercent: number;
+};
+
+export type SizingAdvice = {
+  version: IpVersion;
+  requiredHosts: bigint;
+  /** Requested hosts plus growth, rounded up; every candidate holds at least this many. */
+  targetHosts: bigint;
+  /** Longest prefix that holds `targetHosts`, or null if no prefix within `minPrefix` does. */
+  recommendedPrefix: number | null;
+  /** Every fitting prefix from the recommended one down to `minPrefix`, tightest first. */
+  candidates: PrefixCandidate[];
+};
+
+function toHostCount(hosts: bigint | number): bigint {
+  if (typeof hosts === 'number' && !Number.isSafeInteger(hosts)) {
+    throw new Error(`Invalid host count '${hosts}' (expected a positive integer)`);
+  }
+  const count = BigInt(hosts);
+  if (count <= 0n) throw new Error('Required hosts must be positive');
+  return count;
+}
+
+// Two decimal places, truncated
+function percent(part: bigint, whole: bigint): number {
+  return Number((part * 10000n) / whole) / 100;
+}
+
+function usableHosts(prefix: number, version: IpVersion, bits: 32 | 128, reserved: number, profile?: ReservationProfile): bigint {
+  const usable = usableRange(0n, prefix, version, bits, profile).count - BigInt(reserved);
+  return usable > 0n ? usable : 0n;
+}
+
+/**
+ * Longest prefix whose usable addresses (less `reservedAddresses`) hold `hosts`
+ * IPv4 follows the usable-range rules: 1 host fits a /32, 2 a /31 (RFC 3021), unless a
+ * reservation profile replaces them. Returns null if even a /0 is too small.
+ */
+export function prefixForHosts(
+  hosts: bigint | number,
+  version: IpVersion,
+  reservedAddresses: number = 0,
+  profile?: ReservationProfile
+): number | null {
+  const required = toHostCount(hosts);
+  const bits = version === 4 ? 32 : 128;
+  for (let prefix = bits; prefix >= 0; prefix--) {
+    if (usableHosts(prefix, version, bits, reservedAddresses, profile) >= required) return prefix;
+  }
+  return null;
+}
+
+/**
+ * Every candidate prefix for a host count, with usable hosts, waste and headroom
+ * Growth is added before sizing; waste and headroom are measured against the hosts requested today.
+ */
+export function adviseSizing(hosts: bigint | number, version: IpVersion, options: SizingOptions = {}): SizingAdvice {
+  const bits = version === 4 ? 32 : 128;
+  const { growthPercent = 0, reservedAddresses = 0, minPrefix = 0, profile } = options;
+  if (!Number.isFinite(growthPercent) || growthPercent < 0) {
+    throw new Error('Invalid growth (expected a non-negative percentage)');
+  }
+  assertIntegerInRange(reservedAddresses, 0, Number.MAX_SAFE_INTEGER, 'Invalid reserved address count (expected a non-negative integer)');
+  assertIntegerInRange(minPrefix, 0, bits, `Invalid minimum prefix (expected 0..${bits})`);
+
+  const requiredHosts = toHostCount(hosts);
+  // Growth in basis points keeps fractional percentages exact in bigint arithmetic
+  const growthBasisPoints = BigInt(Math.round(growthPercent * 100));
+  const targetHosts = (requiredHosts * (10000n + growthBasisPoints) + 9999n) / 10000n;
+
+  const tightest = prefixForHosts(targetHosts, version, reservedAddresses, profile);
+  const recommendedPrefix = tightest !== null && tightest >= minPrefix ? tightest : null;
+
+  const candidates: PrefixCandidate[] = [];
+  for (let prefix = recommendedPrefix ?? -1; prefix >= minPrefix; prefix--) {
+    const addressCount = 1n << BigInt(bits - prefix);
+    const usable = usableHosts(prefix, version, bits, reservedAddresses, profile);
+    candidates.push({
+      prefix,
+      addressCount,
+      usableHosts: usable,
+      wastePercent: percent(addressCount - requiredHosts, addressCount),
+      headroom: usable - requiredHosts,
+      headroomPercent: percent(usable - requiredHosts, requiredHosts),
+    });
+  }
+
+  return { version, requiredHosts, targetHosts, recommendedPrefix, candidates };
+}
@@ -0,0 +1,85 @@
+/**
+ * IANA special-purpose address registries (RFC 6890)
+ * https://www.iana.org/assignments/iana-ipv4-special-registry
+ * https://www.iana.org/assignments/iana-ipv6-special-registry
+ *
+ * Multicast blocks are not part of these tables but are listed here so that
+ * classification covers them too.
+ */
+
+import type { SpecialPurposeRange } from './types';
+import { AddressClass } from './types';
+
+type Flag = boolean | null;
+
+function entry(
+  cidr: string,
+  name: string,
+  rfc: string[],
+  classes: AddressClass[],
+  [source, destination, forwardable, globallyReachable, reservedByProtocol]: [Flag, Flag, Flag, Flag, Flag]
+): SpecialPurposeRange {
+  return { cidr, name, rfc, classes, source, destination, forwardable, globallyReachable, reservedByProtocol };
+}
+
+const NA: [Flag, Flag, Flag, Flag, Flag] = [null, null, null, null, null];
+
+//                                                         source, dest,  fwd,   global, reserved-by-protocol
+export const IPV4_SPECIAL_PURPOSE_REGISTRY: readonly SpecialPurposeRange[] = [
+  entry('0.0.0.0/8', '"This network"', ['RFC 791'], [AddressClass.RESERVED], [true, false, false, false, true]),
+  entry('0.0.0.0/32', '"This host on this network"', ['RFC 1122'], [AddressClass.UNSPECIFIED], [true, false, false, false, true]),
+  entry('10.0.0.0/8', 'Private-Use', ['RFC 1918'], [AddressClass.PRIVATE], [true, true, true, false, false]),
+  entry('100.64.0.0/10', 'Shared Address Space', ['RFC 6598'], [AddressClass.SHARED], [true, true, true, false, false]),
+  entry('127.0.0.0/8', 'Loopback', ['RFC 1122'], [AddressClass.LOOPBACK], [false, false, false, false, true]),
+  entry('169.254.0.0/16', 'Link Local', ['RFC 3927'], [AddressClass.LINK_LOCAL], [true, true, false, false, true]),
+  entry('172.16.0.0/12', 'Private-Use', ['RFC 1918'], [AddressClass.PRIVATE], [true, true, true, false, false]),
+  entry('192.0.0.0/24', 'IETF Protocol Assignments', ['RFC 6890'], [AddressClass.PROTOCOL_ASSIGNMENT], [false, false, false, false, false]),
+  entry('192.0.0.0/29', 'IPv4 Service Continuity Prefix', ['RFC 7335'], [AddressClass.PROTOCOL_ASSIGNMENT, AddressClass.TRANSITION], [true, true, true, false, false]),
+  entry('192.0.0.8/32', 'IPv4 dummy address', ['RFC 7600'], [AddressClass.PROTOCOL_ASSIGNMENT], [true, false, false, false, false]),
+  entry('192.0.0.9/32', 'Port Control Protocol Anycast', ['RFC 7723'], [AddressClass.ANYCAST], [true, true, true, true, false]),
+  entry('192.0.0.10/32', 'Traversal Using Relays around NAT Anycast', ['RFC 8155'], [AddressClass.ANYCAST], [true, true, true, true, false]),
+  entry('192.0.0.170/32', 'NAT64/DNS64 Discovery', ['RFC 8880', 'RFC 7050'], [AddressClass.PROTOCOL_ASSIGNMENT, AddressClass.TRANSITION], [false, false, false, false, true]),
+  entry('192.0.0.171/32', 'NAT64/DNS64 Discovery', ['RFC 8880', 'RFC 7050'], [AddressClass.PROTOCOL_ASSIGNMENT, AddressClass.TRANSITION], [false, false, false, false, true]),
+  entry('192.0.2.0/24', 'Documentation (TEST-NET-1)', ['RFC 5737'], [AddressClass.DOCUMENTATION], [false, false, false, false, false]),
+  entry('192.31.196.0/24', 'AS112-v4', ['RFC 7535'], [AddressClass.ANYCAST], [true, true, true, true, false]),
+  entry('192.52.193.0/24', 'AMT', ['RFC 7450'], [AddressClass.ANYCAST], [true, true, true, true, false]),
+  entry('192.88.99.0/24', 'Deprecated (6to4 Relay Anycast)', ['RFC 7526'], [AddressClass.RESERVED, AddressClass.TRANSITION], NA),
+  entry('192.88.99.2/32', '6a44-relay anycast address', ['RFC 6751'], [AddressClass.ANYCAST, AddressClass.TRANSITION], [true, true, true, false, false]),
+  entry('192.168.0.0/16', 'Private-Use', ['RFC 1918'], [AddressClass.PRIVATE], [true, true, true, false, false]),
+  entry('192.175.48.0/24', 'Direct Delegation AS112 Service', ['RFC 7534'], [AddressClass.ANYCAST], [true, true, true, true, false]),
+  entry('198.18.0.0/15', 'Benchmarking', ['RFC 2544'], [AddressClass.BENCHMARKING], [true, true, true, false, false]),
+  entry('198.51.100.0/24', 'Documentation (TEST-NET-2)', ['RFC 5737'], [AddressClass.DOCUMENTATION], [false, false, false, false, false]),
+  entry('203.0.113.0/24', 'Documentation (TEST-NET-3)', ['RFC 5737'], [AddressClass.DOCUMENTATION], [false, false, false, false, false]),
+  entry('224.0.0.0/4', 'Multicast', ['RFC 5771'], [AddressClass.MULTICAST], [false, true, true, null, false]),
+  entry('240.0.0.0/4', 'Reserved', ['RFC 1112'], [AddressClass.RESERVED], [false, false, false, false, true]),
+  entry('255.255.255.255/32', 'Limited Broadcast', ['RFC 8190', 'RFC 919'], [AddressClass.BROADCAST], [false, true, false, false, true]),
+];
+
+export const IPV6_SPECIAL_PURPOSE_REGISTRY: readonly SpecialPurposeRange[] = [
+  entry('::1/128', 'Loopback Address', ['RFC 4291'], [AddressClass.LOOPBACK], [false, false, false, false, true]),
+  entry('::/128', 'Unspecified Address', ['RFC 4291'], [AddressClass.UNSPECIFIED], [true, false, false, false, true]),
+  entry('::ffff:0:0/96', 'IPv4-mapped Address', ['RFC 4291'], [AddressClass.TRANSITION], [false, false, false, false, true]),
+  entry('64:ff9b::/96', 'IPv4-IPv6 Translat.', ['RFC 6052'], [AddressClass.TRANSITION], [true, true, true, true, false]),
+  entry('64:ff9b:1::/48', 'IPv4-IPv6 Translat.', ['RFC 8215'], [AddressClass.TRANSITION], [true, true, true, false, false]),
+  entry('100::/64', 'Discard-Only Address Block', ['RFC 6666'], [AddressClass.DISCARD], [true, true, true, false, false]),
+  entry('100:0:0:1::/64', 'Dummy IPv6 Prefix', ['RFC 9780'], [AddressClass.PROTOCOL_ASSIGNMENT], [true, false, false, false, false]),
+  entry('2001::/23', 'IETF Protocol Assignments', ['RFC 2928'], [AddressClass.PROTOCOL_ASSIGNMENT], [false, false, false, false, false]),
+  entry('2001::/32', 'TEREDO', ['RFC 4380', 'RFC 8190'], [AddressClass.TRANSITION], [true, true, true, null, false]),
+  entry('2001:1::1/128', 'Port Control Protocol Anycast', ['RFC 7723'], [AddressClass.ANYCAST], [true, true, true, true, false]),
+  entry('2001:1::2/128', 'Traversal Using Relays around NAT Anycast', ['RFC 8155'], [AddressClass.ANYCAST], [true, true, true, true, false]),
+  entry('2001:1::3/128', 'DNS-SD Service Registration Protocol Anycast', ['RFC 9665'], [AddressClass.ANYCAST], [true, true, true, true, false]),
+  entry('2001:2::/48', 'Benchmarking', ['RFC 5180'], [AddressClass.BENCHMARKING], [true, true, true, false, false]),
+  entry('2001:3::/32', 'AMT', ['RFC 7450'], [AddressClass.ANYCAST], [true, true, true, true, false]),
+  entry('2001:4:112::/48', 'AS112-v6', ['RFC 7535'], [AddressClass.ANYCAST], [true, true, true, true, false]),
+  entry('2001:10::/28', 'Deprecated (previously ORCHID)', ['RFC 4843'], [AddressClass.RESERVED], NA),
+  entry('2001:20::/28', 'ORCHIDv2', ['RFC 7343'], [AddressClass.PROTOCOL_ASSIGNMENT], [true, true, true, true, false]),
+  entry('2001:30::/28', 'Drone Remote ID Protocol Entity Tags (DETs) Prefix', ['RFC 9374'], [AddressClass.PROTOCOL_ASSIGNMENT], [true, true, true, true, false]),
+  entry('2001:db8::/32', 'Documentation', ['RFC 3849'], [AddressClass.DOCUMENTATION], [false, false, false, false, false]),
+  entry('2002::/16', '6to4', ['RFC 3056'], [AddressClass.TRANSITION], [true, true, true, null, false]),
+  entry('2620:4f:8000::/48', 'Direct Delegation AS112 Service', ['RFC 7534'], [AddressClass.ANYCAST], [true, true, true, true, false]),
+  entry('3fff::/20', 'Documentation', ['RFC 9637'], [AddressClass.DOCUMENTATION], [false, false, false, false, false]),
+  entry('5f00::/16', 'Segment Routing (SRv6) SIDs', ['RFC 9602'], [AddressClass.PROTOCOL_ASSIGNMENT], [true, true, true, false, false]),
+  entry('fc00::/7', 'Unique-Local', ['RFC 4193', 'RFC 8190'], [AddressClass.UNIQUE_LOCAL, AddressClass.PRIVATE], [true, true, true, false, false]),
+  entry('fe80::/10', 'Link-Local Unicast', ['RFC 4291'], [AddressClass.LINK_LOCAL], [true, true, false, false, true]),
+  entry('ff00::/8', 'Multicast', ['RFC 4291'], [AddressClass.MULTICAST], [false, true, true, null, false]),
+];
@@ -2,12 +2,20 @@ import { describe, it, expect } from 'vitest';
 import {
   splitBinary,
   splitIntoN,
+  splitIntoCount,
+  splitByPrefixes,
+  splitByWeights,
+  splitByPercentages,
   splitByHostCount,
   mergeSiblings,
   summarizePrefixes,
+  summarizePrefixesLossy,
   minimalCoveringSupernet,
 } from './transformations';
-import { parseCidr } from './parser';
+import { formatCidr, parseCidr } from './parser';
+import type { NormalisedCidr } from './types';
+
+const cidrs = (list: NormalisedCidr[]) => list.map((c) => formatCidr(c.version, c.network, c.prefix));
 
 describe('Binary split', () => {
   it('should split IPv4 /24 into two /25s', () => {
@@ -69,6 +77,10 @@ describe('Split into N subnets', () => {
     expect(() => splitIntoN(parent, 5)).toThrow();
   });
 
+  it('should refuse to build huge lists', () => {
+    expect(() => splitIntoN(parseCidr('2001:db8::/32'), 2 ** 32)).toThrow('use iterateSubPrefixes or pageSubPrefixes');
+  });
+
   it('should handle edge cases', () => {
     const parent = parseCidr('10.0.0.0/30');
     const subnets = splitIntoN(parent, 4);
@@ -77,6 +89,49 @@ describe('Split into N subnets', () => {
   });
 });
 
+describe('Uneven splits', () => {
+  it('should split into any number of equal blocks with a remainder', () => {
+    const result = splitIntoCount(parseCidr('10.0.0.0/16'), 6);
+    expect(cidrs(result.allocations)).toEqual([
+      '10.0.0.0/19', '10.0.32.0/19', '10.0.64.0/19', '10.0.96.0/19', '10.0.128.0/19', '10.0.160.0/19',
+    ]);
+    expect(cidrs(result.remainder)).toEqual(['10.0.192.0/18']);
+
+    expect(splitIntoCount(parseCidr('10.0.0.0/24'), 4).remainder).toEqual([]);
+    expect(() => splitIntoCount(parseCidr('10.0.0.0/30'), 5)).toThrow('exceed maximum prefix length');
+  });
+
+  it('should split into a list of prefix lengths, in request order', () => {
+    const result = splitByPrefixes(parseCidr('10.0.0.0/16'), [20, 18, 19]);
+    expect(cidrs(result.allocations)).toEqual(['10.0.96.0/20', '10.0.0.0/18', '10.0.64.0/19']);
+    expect(cidrs(result.remainder)).toEqual(['10.0.112.0/20', '10.0.128.0/17']);
+    expect(() => splitByPrefixes(parseCidr('10.0.0.0/16'), [17, 17, 18])).toThrow('do not fit');
+    expect(() => splitByPrefixes(parseCidr('10.0.0.0/16'), [15])).toThrow('Invalid prefix /15');
+  });
+
+  it('should split by weights and percentages', () => {
+    const parent = parseCidr('10.0.0.0/16');
+    expect(cidrs(splitByWeights(parent, [2, 1, 1]).allocations)).toEqual(['10.0.0.0/17', '10.0.128.0/18', '10.0.192.0/18']);
+    expect(cidrs(splitByPercentages(parent, [50, 25, 25]).allocations)).toEqual(['10.0.0.0/17', '10.0.128.0/18', '10.0.192.0/18']);
+
+    const thirds = splitByWeights(parseCidr('10.0.0.0/24'), [1, 1, 1]);
+    expect(cidrs(thirds.allocations)).toEqual(['10.0.0.0/26', '10.0.0.64/26', '10.0.0.128/26']);
+    expect(cidrs(thirds.remainder)).toEqual(['10.0.0.192/26']);
+
+    const partial = splitByPercentages(parent, [30, 10]);
+    expect(cidrs(partial.allocations)).toEqual(['10.0.0.0/18', '10.0.64.0/20']);
+    expect(cidrs(partial.remainder)).toEqual(['10.0.80.0/20', '10.0.96.0/19', '10.0.128.0/17']);
+  });
+
+  it('should reject invalid weights and percentages', () => {
+    const parent = parseCidr('10.0.0.0/24');
+    expect(() => splitByWeights(parent, [1, 0])).toThrow('Invalid weight');
+    expect(() => splitByWeights(parent, [1000, 1])).toThrow('too small');
+    expect(() => splitByPercentages(parent, [60, 50])).toThrow('more than 100');
+    expect(splitByPercentages(parent, [33.4, 33.3, 33.3]).allocations).toHaveLength(3);
+  });
+});
+
 describe('Split by host count', () => {
   it('should allocate subnet for 100 hosts (IPv4)', () => {
     const parent = parseCidr('10.0.0.0/16');
@@ -102,11 +157,24 @@ describe('Split by host count', () => {
   });
 
   it('should work for IPv6', () => {
-    const parent = parseCidr('2001:db8::/48');
+    const parent = parseCidr('2001:db8::/112');
     const result = splitByHostCount(parent, 1000);
 
     // IPv6: all addresses usable, need 2^10 = 1024
     expect(result.prefix).toBe(118); // 128 - 10
+    expect(result.count).toBe(64n);
+    expect(result.subnets).toHaveLength(64);
+  });
+
+  it('should list the subnets', () => {
+    const result = splitByHostCount(parseCidr('10.0.0.0/24'), 60);
+    expect(result.count).toBe(4n);
+    expect(cidrs(result.subnets)).toEqual(['10.0.0.0/26', '10.0.0.64/26', '10.0.0.128/26', '10.0.0.192/26']);
+    expect(result.subnets[1]!.network).toBe(0x0a000040n);
+  });
+
+  it('should refuse splits too large to list', () => {
+    expect(() => splitByHostCount(parseCidr('2001:db8::/48'), 1000)).toThrow('use iterateSubPrefixes or pageSubPrefixes');
   });
 });
 
@@ -176,6 +244,70 @@ describe('Summarize prefixes', () => {
 
     expect(summary).toHaveLength(2);
   });
+
+  it('should drop duplicate and contained prefixes', () => {
+    const summary = summarizePrefixes(['10.0.0.0/16', '10.0.1.0/24', '10.0.0.0/16', '10.1.0.0/16'].map((c) => parseCidr(c)));
+
+    expect(cidrs(summary)).toEqual(['10.0.0.0/15']);
+  });
+
+  it('should merge overlapping and unaligned runs into aligned blocks', () => {
+    const summary = summarizePrefixes(['10.0.1.0/24', '10.0.2.0/23', '10.0.4.0/24'].map((c) => parseCidr(c)));
+
+    expect(cidrs(summary)).toEqual(['10.0.1.0/24', '10.0.2.0/23', '10.0.4.0/24']);
+  });
+
+  it('should summarize each family separately, IPv4 first', () => {
+    const summary = summarizePrefixes(
+      ['2001:db8:0:1::/64', '192.168.0.0/24', '2001:db8::/64', '192.168.1.0/24'].map((c) => parseCidr(c))
+    );
+
+    expect(cidrs(summary)).toEqual(['192.168.0.0/23', '2001:db8::/63']);
+  });
+});
+
+describe('Lossy summarization', () => {
+  const inputs = ['10.0.0.0/24', '10.0.1.0/24', '10.0.3.0/24', '10.0.8.0/24'].map((c) => parseCidr(c));
+
+  it('should aggregate to a prefix limit and report the extra space', () => {
+    const summary = summarizePrefixesLossy(inputs, { maxPrefixes: 2 });
+
+    expect(cidrs(summary.aggregates.map((a) => a.cidr))).toEqual(['10.0.0.0/22', '10.0.8.0/24']);
+    expect(cidrs(summary.aggregates[0]!.extra)).toEqual(['10.0.2.0/24']);
+    expect(summary.aggregates[0]!.extraAddresses).toBe(256n);
+    expect(summary.aggregates[1]!.extra).toEqual([]);
+    expect(summary.inputAddresses).toBe(1024n);
+    expect(summary.extraAddresses).toBe(256n);
+    expect(summary.wastePercent).toBe(25);
+  });
+
+  it('should swallow prefixes covered by a merged supernet', () => {
+    const summary = summarizePrefixesLossy(inputs, { maxPrefixes: 1 });
+
+    expect(cidrs(summary.aggregates.map((a) => a.cidr))).toEqual(['10.0.0.0/20']);
+    expect(cidrs(summary.aggregates[0]!.extra)).toEqual(['10.0.2.0/24', '10.0.4.0/22', '10.0.9.0/24', '10.0.10.0/23', '10.0.12.0/22']);
+    expect(summary.extraAddresses).toBe(3072n);
+  });
+
+  it('should merge only while the waste stays within tolerance', () => {
+    expect(summarizePrefixesLossy(inputs, { maxWastePercent: 25 }).aggregates).toHaveLength(2);
+    expect(summarizePrefixesLossy(inputs, { maxWastePercent: 10 }).aggregates).toHaveLength(3);
+    expect(summarizePrefixesLossy(inputs, { maxWastePercent: 0 }).extraAddresses).toBe(0n);
+  });
+
+  it('should never merge across families', () => {
+    const mixed = [...inputs, parseCidr('2001:db8::/64')];
+
+    expect(summarizePrefixesLossy(mixed, { maxPrefixes: 2 }).aggregates.map((a) => a.cidr.version)).toEqual([4, 6]);
+    expect(() => summarizePrefixesLossy(mixed, { maxPrefixes: 1 })).toThrow('Cannot summarize to 1 prefixes');
+  });
+
+  it('should reject limits it cannot meet or understand', () => {
+    expect(() => summarizePrefixesLossy(inputs, { maxPrefixes: 1, maxWastePercent: 25 })).toThrow('within 25% waste');
+    expect(() => summarizePrefixesLossy(inputs, {})).toThrow('needs maxPrefixes');
+    expect(() => summarizePrefixesLossy(inputs, { maxPrefixes: 0 })).toThrow('Invalid maximum prefix count');
+    expect(() => summarizePrefixesLossy(inputs, { maxWastePercent: -1 })).toThrow('Invalid waste tolerance');
+  });
 });
 
 describe('Minimal covering supernet', () => {
@@ -187,6 +319,12 @@ describe('Minimal covering supernet', () => {
     expect(supernet.prefix).toBeLessThanOrEqual(23);
   });
 
+  it('should return the tightest supernet', () => {
+    const supernet = minimalCoveringSupernet([parseCidr('10.0.0.0/24'), parseCidr('10.0.3.0/24')]);
+
+    expect(cidrs([supernet])).toEqual(['10.0.0.0/22']);
+  });
+
   it('should handle single prefix', () => {
     const cidrs = [parseCidr('10.0.0.0/16')];
 
@@ -3,7 +3,21 @@
  */
 
 import type { IpVersion, NormalisedCidr } from './types';
-import { maskFromPrefix } from './parser';
+import { formatCidr, maskFromPrefix, prefixesForRange } from './parser';
+import { prefixForHosts } from './sizing';
+import { countSubPrefixes, iterateSubPrefixes } from './arithmetic';
+import { PrefixSet } from './prefix-set';
+
+// Largest list the array-returning splits build; page bigger splits with pageSubPrefixes
+const MAX_SPLIT_SUBNETS = 1 << 20;
+
+function assertListable(cidr: NormalisedCidr, count: bigint | number): void {
+  if (BigInt(count) > BigInt(MAX_SPLIT_SUBNETS)) {
+    throw new Error(
+      `Splitting ${formatCidr(cidr.version, cidr.network, cidr.prefix)} gives ${count} subnets, more than ${MAX_SPLIT_SUBNETS}; use iterateSubPrefixes or pageSubPrefixes`
+    );
+  }
+}
 
 /**
  * Binary split of a prefix (FR-020)
@@ -42,6 +56,7 @@ export function splitIntoN(cidr: NormalisedCidr, n: number): NormalisedCidr[] {
   if (n <= 0 || !Number.isInteger(n)) {
     throw new Error('N must be a positive integer');
   }
+  assertListable(cidr, n);
 
   // Check if n is a power of 2
   if ((n & (n - 1)) !== 0) {
@@ -55,62 +70,127 @@ export function splitIntoN(cidr: NormalisedCidr, n: number): NormalisedCidr[] {
     throw new Error(`Cannot split into ${n} subnets - would exceed maximum prefix length`);
   }
 
-  const result: NormalisedCidr[] = [];
-  const subnetSize = 1n << BigInt(cidr.bits - newPrefix);
+  return [...iterateSubPrefixes(cidr, newPrefix)];
+}
+
+/**
+ * Result of an uneven split: the requested blocks and the space left over
+ */
+export type SplitResult = {
+  /** Allocated blocks, in request order. */
+  allocations: NormalisedCidr[];
+  /** Unallocated space as minimal prefixes, in address order. */
+  remainder: NormalisedCidr[];
+};
+
+// Place blocks largest first from the start of the parent; descending sizes keep every block aligned
+function packBlocks(cidr: NormalisedCidr, prefixes: number[]): SplitResult {
+  for (const prefix of prefixes) {
+    if (!Number.isInteger(prefix) || prefix < cidr.prefix || prefix > cidr.bits) {
+      throw new Error(`Invalid prefix /${prefix} (expected ${cidr.prefix}..${cidr.bits})`);
+    }
+  }
+
+  const end = cidr.network + (1n << BigInt(cidr.bits - cidr.prefix)) - 1n;
+  const order = prefixes.map((_, i) => i).sort((a, b) => prefixes[a]! - prefixes[b]! || a - b);
+  const allocations: NormalisedCidr[] = new Array(prefixes.length);
+  let cursor = cidr.network;
 
-  for (let i = 0; i < n; i++) {
-    result.push({
-      version: cidr.version,
-      bits: cidr.bits,
-      network: cidr.network + BigInt(i) * subnetSize,
-      prefix: newPrefix,
-    });
+  for (const i of order) {
+    const prefix = prefixes[i]!;
+    const size = 1n << BigInt(cidr.bits - prefix);
+    if (cursor + size - 1n > end) {
+      throw new Error(`Requested blocks do not fit in ${formatCidr(cidr.version, cidr.network, cidr.prefix)}`);
+    }
+    allocations[i] = { version: cidr.version, bits: cidr.bits, network: cursor, prefix };
+    cursor += size;
   }
 
-  return result;
+  return { allocations, remainder: cursor > end ? [] : prefixesForRange(cidr.version, cursor, end) };
 }
 
 /**
- * Split by required host count (FR-022)
- * Returns the smallest subnet that can accommodate the required number of hosts
+ * Split into any number of equal subnets (FR-021)
+ * Uses the largest block size that gives n blocks; the unused tail is returned as the remainder.
  */
-export function splitByHostCount(
-  cidr: NormalisedCidr,
-  requiredHosts: number
-): { prefix: number; subnets: NormalisedCidr[] } {
-  if (requiredHosts <= 0) {
-    throw new Error('Required hosts must be positive');
+export function splitIntoCount(cidr: NormalisedCidr, n: number): SplitResult {
+  if (n <= 0 || !Number.isInteger(n)) {
+    throw new Error('N must be a positive integer');
   }
+  const newPrefix = cidr.prefix + Math.ceil(Math.log2(n));
+  if (newPrefix > cidr.bits) {
+    throw new Error(`Cannot split into ${n} subnets - would exceed maximum prefix length`);
+  }
+  assertListable(cidr, n);
+  return packBlocks(cidr, new Array<number>(n).fill(newPrefix));
+}
 
-  const version = cidr.version;
-  let hostBits: number;
-
-  if (version === 4) {
-    // IPv4: need to account for network and broadcast addresses
-    // For /31 and /32, special handling
-    if (requiredHosts === 1) {
-      hostBits = 0; // /32
-    } else if (requiredHosts === 2) {
-      hostBits = 1; // /31 (RFC 3021)
-    } else {
-      // Need requiredHosts + 2 (network + broadcast)
-      hostBits = Math.ceil(Math.log2(requiredHosts + 2));
-    }
-  } else {
-    // IPv6: all addresses usable
-    hostBits = Math.ceil(Math.log2(requiredHosts));
+/**
+ * Split into blocks of the given prefix lengths, e.g. [18, 19, 19, 20] (FR-021)
+ * @throws Error if the blocks do not fit in the parent
+ */
+export function splitByPrefixes(cidr: NormalisedCidr, prefixes: number[]): SplitResult {
+  if (prefixes.length === 0) throw new Error('At least one prefix length is required');
+  return packBlocks(cidr, prefixes);
+}
+
+// Largest block (as a prefix length) that fits in a share of the parent
+function prefixForShare(cidr: NormalisedCidr, share: number, total: number): number {
+  if (!Number.isFinite(share) || share <= 0) {
+    throw new Error(`Invalid weight ${share} (expected a positive number)`);
   }
+  // Fixed-point scaling keeps fractional weights such as 33.3 exact enough in bigint arithmetic
+  const scale = 1_000_000;
+  const size = 1n << BigInt(cidr.bits - cidr.prefix);
+  const addresses = (size * BigInt(Math.round(share * scale))) / BigInt(Math.round(total * scale));
+  if (addresses === 0n) {
+    throw new Error(`Weight ${share} is too small for ${formatCidr(cidr.version, cidr.network, cidr.prefix)}`);
+  }
+  return cidr.bits - (addresses.toString(2).length - 1);
+}
 
-  const newPrefix = cidr.bits - hostBits;
+/**
+ * Split by relative weights, e.g. [2, 1, 1] (FR-021)
+ * Each block is the largest power-of-two size within its share of the parent.
+ */
+export function splitByWeights(cidr: NormalisedCidr, weights: number[]): SplitResult {
+  if (weights.length === 0) throw new Error('At least one weight is required');
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  return packBlocks(cidr, weights.map((w) => prefixForShare(cidr, w, total)));
+}
 
-  if (newPrefix < cidr.prefix) {
-    throw new Error(`Cannot accommodate ${requiredHosts} hosts in /${cidr.prefix}`);
+/**
+ * Split by percentages of the parent, e.g. [50, 25, 25] (FR-021)
+ * Percentages may add up to less than 100; the rest stays in the remainder.
+ */
+export function splitByPercentages(cidr: NormalisedCidr, percentages: number[]): SplitResult {
+  if (percentages.length === 0) throw new Error('At least one percentage is required');
+  // Tolerate float rounding such as 33.4 + 33.3 + 33.3
+  if (percentages.reduce((sum, p) => sum + p, 0) > 100 + 1e-9) {
+    throw new Error('Percentages add up to more than 100');
   }
+  return packBlocks(cidr, percentages.map((p) => prefixForShare(cidr, p, 100)));
+}
+
+/**
+ * Split by required host count (FR-022)
+ * Returns the smallest subnet that can accommodate the required number of hosts.
+ * Splits into more subnets than the array-returning splits allow throw; page those with
+ * iterateSubPrefixes or pageSubPrefixes at the returned prefix.
+ */
+export function splitByHostCount(
+  cidr: NormalisedCidr,
+  requiredHosts: number
+): { prefix: number; count: bigint; subnets: NormalisedCidr[] } {
+  const newPrefix = prefixForHosts(requiredHosts, cidr.version);
 
-  const numSubnets = 1 << (newPrefix - cidr.prefix);
-  const subnets = splitIntoN(cidr, numSubnets);
+  if (newPrefix === null || newPrefix < cidr.prefix) {
+    throw new Error(`Cannot accommodate ${requiredHosts} hosts in /${cidr.prefix}`);
+  }
 
-  return { prefix: newPrefix, subnets };
+  const count = countSubPrefixes(cidr, newPrefix);
+  assertListable(cidr, count);
+  return { prefix: newPrefix, count, subnets: [...iterateSubPrefixes(cidr, newPrefix)] };
 }
 
 /**
@@ -159,59 +239,134 @@ export function mergeSiblings(a: NormalisedCidr, b: NormalisedCidr): NormalisedC
   };
 }
 
+function blockSize(cidr: NormalisedCidr): bigint {
+  return 1n << BigInt(cidr.bits - cidr.prefix);
+}
+
 /**
  * Summarize a set of prefixes (FR-024)
- * Returns a minimal set of aggregated prefixes that cover all inputs
+ * Returns the minimal set of prefixes covering exactly the input addresses. Duplicates and
+ * contained prefixes are dropped; IPv4 and IPv6 are summarized separately (IPv4 first).
  */
 export function summarizePrefixes(cidrs: NormalisedCidr[]): NormalisedCidr[] {
-  if (cidrs.length === 0) return [];
-  if (cidrs.length === 1) return [...cidrs];
+  return PrefixSet.from(cidrs).toPrefixes();
+}
 
-  // Ensure all same version
-  const version = cidrs[0]!.version;
-  const bits = cidrs[0]!.bits;
-  if (!cidrs.every((c) => c.version === version && c.bits === bits)) {
-    throw new Error('All CIDRs must be the same IP version');
+/**
+ * Limits for lossy summarization; at least one is required
+ */
+export type LossySummaryOptions = {
+  /** Aggregate until at most this many prefixes remain (both families together). */
+  maxPrefixes?: number;
+  /** Never add more extra addresses than this percentage of the input addresses. */
+  maxWastePercent?: number;
+};
+
+/**
+ * A summarized prefix and the address space it covers beyond the inputs
+ */
+export type SummaryAggregate = {
+  cidr: NormalisedCidr;
+  /** Addresses inside `cidr` that no input covers, as minimal prefixes (empty when exact). */
+  extra: NormalisedCidr[];
+  extraAddresses: bigint;
+};
+
+export type LossySummary = {
+  aggregates: SummaryAggregate[];
+  /** Addresses covered by the inputs. */
+  inputAddresses: bigint;
+  /** Addresses covered by the aggregates but not by the inputs. */
+  extraAddresses: bigint;
+  /** Extra addresses as a percentage of the input addresses. */
+  wastePercent: number;
+};
+
+// Cheapest merge of two neighbours into their covering supernet (which may swallow further neighbours)
+function cheapestMerge(
+  current: NormalisedCidr[]
+): { supernet: NormalisedCidr; first: number; last: number; added: bigint } | null {
+  let best: { supernet: NormalisedCidr; first: number; last: number; added: bigint } | null = null;
+
+  for (let i = 0; i + 1 < current.length; i++) {
+    const a = current[i]!;
+    const b = current[i + 1]!;
+    if (a.version !== b.version) continue;
+
+    const supernet = minimalCoveringSupernet([a, b]);
+    const superEnd = supernet.network + blockSize(supernet);
+    let first = i;
+    let last = i + 1;
+    while (first > 0 && current[first - 1]!.version === a.version && current[first - 1]!.network >= supernet.network) first--;
+    while (last + 1 < current.length && current[last + 1]!.version === a.version && current[last + 1]!.network < superEnd) last++;
+
+    let covered = 0n;
+    for (let j = first; j <= last; j++) covered += blockSize(current[j]!);
+    const added = blockSize(supernet) - covered;
+    if (!best || added < best.added) best = { supernet, first, last, added };
   }
 
-  // Sort by network address
-  const sorted = [...cidrs].sort((a, b) => (a.network < b.network ? -1 : a.network > b.network ? 1 : 0));
-
-  // Iteratively merge adjacent siblings
-  let current = sorted;
-  let changed = true;
-
-  while (changed) {
-    changed = false;
-    const next: NormalisedCidr[] = [];
-    let i = 0;
-
-    while (i < current.length) {
-      const a = current[i]!;
-
-      if (i + 1 < current.length) {
-        const b = current[i + 1]!;
-
-        // Try to merge
-        try {
-          const merged = mergeSiblings(a, b);
-          next.push(merged);
-          i += 2;
-          changed = true;
-          continue;
-        } catch {
-          // Not siblings, keep a
-        }
-      }
-
-      next.push(a);
-      i++;
-    }
+  return best;
+}
 
-    current = next;
+/**
+ * Summarize with loss: merge neighbouring prefixes into supernets, cheapest first, to meet a
+ * prefix-count limit (route tables, security groups) and/or a waste tolerance
+ * Every aggregate reports exactly which extra address space it covers.
+ * @throws Error if `maxPrefixes` cannot be reached (within the waste tolerance, if given)
+ */
+export function summarizePrefixesLossy(cidrs: NormalisedCidr[], options: LossySummaryOptions): LossySummary {
+  const { maxPrefixes, maxWastePercent } = options;
+  if (maxPrefixes === undefined && maxWastePercent === undefined) {
+    throw new Error('Lossy summarization needs maxPrefixes, maxWastePercent or both');
+  }
+  if (maxPrefixes !== undefined && (!Number.isInteger(maxPrefixes) || maxPrefixes < 1)) {
+    throw new Error('Invalid maximum prefix count (expected a positive integer)');
+  }
+  if (maxWastePercent !== undefined && (!Number.isFinite(maxWastePercent) || maxWastePercent < 0)) {
+    throw new Error('Invalid waste tolerance (expected a non-negative percentage)');
   }
 
-  return current;
+  const exact = summarizePrefixes(cidrs);
+  const inputAddresses = exact.reduce((sum, c) => sum + blockSize(c), 0n);
+  // Basis points keep fractional tolerances exact in bigint arithmetic
+  const budget =
+    maxWastePercent === undefined ? null : (inputAddresses * BigInt(Math.round(maxWastePercent * 100))) / 10000n;
+
+  let current = exact;
+  let extraAddresses = 0n;
+  while (maxPrefixes === undefined || current.length > maxPrefixes) {
+    const merge = cheapestMerge(current);
+    if (!merge || (budget !== null && extraAddresses + merge.added > budget)) break;
+    current = [...current.slice(0, merge.first), merge.supernet, ...current.slice(merge.last + 1)];
+    extraAddresses += merge.added;
+  }
+
+  if (maxPrefixes !== undefined && current.length > maxPrefixes) {
+    const tolerance = maxWastePercent === undefined ? '' : ` within ${maxWastePercent}% waste`;
+    throw new Error(`Cannot summarize to ${maxPrefixes} prefixes${tolerance} (best: ${current.length})`);
+  }
+
+  const aggregates = current.map((cidr): SummaryAggregate => {
+    const start = cidr.network;
+    const end = cidr.network + blockSize(cidr) - 1n;
+    const extra: NormalisedCidr[] = [];
+    let cursor = start;
+    for (const input of exact) {
+      if (input.version !== cidr.version || input.network < start || input.network > end) continue;
+      if (input.network > cursor) extra.push(...prefixesForRange(cidr.version, cursor, input.network - 1n));
+      cursor = input.network + blockSize(input);
+    }
+    if (cursor <= end) extra.push(...prefixesForRange(cidr.version, cursor, end));
+    return { cidr, extra, extraAddresses: extra.reduce((sum, c) => sum + blockSize(c), 0n) };
+  });
+
+  return {
+    aggregates,
+    inputAddresses,
+    extraAddresses,
+    wastePercent: inputAddresses === 0n ? 0 : Number((extraAddresses * 10000n) / inputAddresses) / 100,
+  };
 }
 
 /**
@@ -245,14 +400,12 @@ export function minimalCoveringSupernet(cidrs: NormalisedCidr[]): NormalisedCidr
     if (lastAddr > maxNet) maxNet = lastAddr;
   }
 
-  // Find the common prefix length (start from most specific)
+  // Longest prefix shared by the first and last address
   let prefix: number = bits;
-  for (let p = 0; p <= bits; p++) {
-    const mask = maskFromPrefix(p, bits);
-    if ((minNet & mask) === (maxNet & mask)) {
-      prefix = p;
-      break;
-    }
+  while (prefix > 0) {
+    const mask = maskFromPrefix(prefix, bits);
+    if ((minNet & mask) === (maxNet & mask)) break;
+    prefix--;
   }
 
   const mask = maskFromPrefix(prefix, bits);
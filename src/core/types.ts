@@ -34,9 +34,82 @@ export type SubnetMeta = {
   /** Range of addresses considered "usable" by this calculator.
    *  - IPv4: /32 => 1, /31 => 2 (RFC 3021), otherwise excludes network + broadcast.
    *  - IPv6: all addresses are considered usable.
+   *  - With a reservation profile, excludes the profile's addresses instead (null if none are left).
    */
   firstUsable: string | null;
   lastUsable: string | null;
+
+  /** Addresses that cannot be assigned to hosts, with reasons. */
+  reserved: ReservedAddress[];
+  /** Name of the reservation profile applied, if any. */
+  reservationProfile?: string;
+
+  /** Special-purpose ranges the prefix lies within or contains. */
+  classification: PrefixClassification;
+};
+
+/**
+ * Address a reservation profile holds back in every subnet
+ * `offset` counts from the network address (0, 1, ...) or, if negative, back from the last address (-1).
+ */
+export type ReservedOffset = {
+  offset: number;
+  reason: string;
+};
+
+/**
+ * Provider or site rules for addresses that cannot be assigned to hosts (AWS, Azure, GCP, HSRP...)
+ * A profile replaces the default network/broadcast rule, so it lists those addresses itself.
+ */
+export type ReservationProfile = {
+  name: string;
+  description?: string;
+  reserved: ReservedOffset[];
+};
+
+export type ReservedAddress = {
+  address: string;
+  reason: string;
+};
+
+/**
+ * Address output notation
+ *  - compressed: RFC 5952 (IPv6) / dotted quad (IPv4), the default
+ *  - expanded: all eight hextets without '::' (IPv6)
+ *  - padded: expanded with zero-padded hextets (IPv6) or three-digit octets (IPv4)
+ *  - nibble: reversed digits for reverse lookups (IPv6 nibbles, IPv4 octets), without the arpa suffix
+ */
+export type AddressNotation = 'compressed' | 'expanded' | 'padded' | 'nibble';
+
+export type AddressFormatOptions = {
+  notation?: AddressNotation;
+  /** Upper-case hexadecimal digits (IPv6). */
+  uppercase?: boolean;
+  /**
+   * Write the low 32 bits as dotted IPv4 (RFC 5952 section 5) for IPv4-mapped
+   * (::ffff:0:0/96), IPv4-translated (::ffff:0:0:0/96) and NAT64 well-known (64:ff9b::/96) addresses.
+   */
+  mixedIpv4?: boolean;
+};
+
+/**
+ * Count notation
+ *  - standard: locale grouping up to 2^53, then 2^N (digits), the default
+ *  - compact: scaled with one decimal (4.3B, 18.4 quintillion)
+ *  - exact: every digit with locale grouping
+ */
+export type CountNotation = 'standard' | 'compact' | 'exact';
+
+export type CountFormatOptions = {
+  /** BCP 47 locale for grouping and decimals (default en-GB). */
+  locale?: string;
+  notation?: CountNotation;
+  /** Compact scale names: short (4.3B, the default) or long (4.3 billion). */
+  compactDisplay?: 'short' | 'long';
+  /** Count in blocks of this prefix length where they divide evenly, e.g. 64 for /64s. */
+  unitPrefix?: number;
+  /** Block units as a multiple (256 × /64, the default) or plural (256 /64s). */
+  unitStyle?: 'multiply' | 'plural';
 };
 
 /**
@@ -54,8 +127,69 @@ export enum AddressClass {
   UNSPECIFIED = 'UNSPECIFIED',
   BROADCAST = 'BROADCAST', // IPv4 only
   PUBLIC = 'PUBLIC',
+  SHARED = 'SHARED', // RFC 6598 carrier-grade NAT
+  BENCHMARKING = 'BENCHMARKING',
+  PROTOCOL_ASSIGNMENT = 'PROTOCOL_ASSIGNMENT', // IETF protocol assignments
+  TRANSITION = 'TRANSITION', // IPv4/IPv6 transition (mapped, 6to4, Teredo, NAT64)
+  DISCARD = 'DISCARD',
+  ANYCAST = 'ANYCAST', // Well-known anycast services (AS112, PCP, TURN, AMT)
 }
 
+/**
+ * Special-purpose registry attributes (RFC 6890). `null` means "N/A" in the IANA table.
+ */
+export type SpecialPurposeAttributes = {
+  source: boolean | null;
+  destination: boolean | null;
+  forwardable: boolean | null;
+  globallyReachable: boolean | null;
+  reservedByProtocol: boolean | null;
+};
+
+/**
+ * Entry of the IANA IPv4/IPv6 special-purpose address registries
+ */
+export type SpecialPurposeRange = SpecialPurposeAttributes & {
+  cidr: string;
+  name: string;
+  rfc: string[];
+  classes: AddressClass[];
+};
+
+/**
+ * Address classification with registry attributes (FR-006)
+ * Attributes come from the most specific matching registry entry.
+ */
+export type AddressClassification = SpecialPurposeAttributes & {
+  classes: AddressClass[];
+  /** Matching registry entries, least to most specific. */
+  ranges: SpecialPurposeRange[];
+};
+
+/**
+ * How a prefix relates to a registry entry
+ * CIDR blocks either nest or are disjoint, so a prefix that partially overlaps
+ * special-purpose space always CONTAINS the registry entry.
+ */
+export type PrefixRangeRelation = 'WITHIN' | 'CONTAINS';
+
+export type PrefixRangeMatch = {
+  range: SpecialPurposeRange;
+  relation: PrefixRangeRelation;
+};
+
+/**
+ * Prefix classification against the special-purpose registries
+ */
+export type PrefixClassification = {
+  /** Classes shared by every address in the prefix. */
+  classes: AddressClass[];
+  /** Classes held by only some addresses in the prefix. */
+  partialClasses: AddressClass[];
+  /** Registry entries the prefix lies within or contains, least to most specific. */
+  matches: PrefixRangeMatch[];
+};
+
 /**
  * Result type for operations that can fail
  */
@@ -63,6 +197,58 @@ export type Result<T, E = Error> =
   | { ok: true; value: T }
   | { ok: false; error: E };
 
+/**
+ * Address with an arbitrary (possibly non-contiguous) wildcard mask, as used in ACLs.
+ * A set wildcard bit means "don't care". `address` always has wildcard bits cleared.
+ */
+export type MaskedAddress = {
+  version: IpVersion;
+  bits: 32 | 128;
+  address: bigint;
+  wildcard: bigint;
+};
+
+/**
+ * Input notations recognised by `parseAny`
+ *  - CIDR: 10.0.0.0/24
+ *  - NETMASK: 10.0.0.0/255.255.255.0 or 10.0.0.0 255.255.255.0
+ *  - RANGE: 10.0.0.1-10.0.0.50
+ *  - SHORTHAND_RANGE: 10.0.0.1-50 (last octet, or last hextet for IPv6)
+ *  - WILDCARD: 10.1.*.* (IPv4, trailing octets only)
+ *  - ADDRESS: bare address, meaning /32 or /128
+ */
+export type CidrNotation = 'CIDR' | 'NETMASK' | 'RANGE' | 'SHORTHAND_RANGE' | 'WILDCARD' | 'ADDRESS';
+
+/**
+ * Result of parsing any supported notation
+ */
+export type ParsedInput = {
+  notation: CidrNotation;
+  /** Minimal prefixes covering the input. A single entry unless the input was a range. */
+  cidrs: NormalisedCidr[];
+};
+
+/**
+ * Notation an extracted prefix was written in
+ */
+export type ExtractedPrefixKind = 'ADDRESS' | 'CIDR' | 'NETMASK' | 'RANGE';
+
+/**
+ * Address or prefix found while scanning free text (logs, configs, tickets)
+ */
+export type ExtractedPrefix = {
+  kind: ExtractedPrefixKind;
+  /** Matched text exactly as it appears in the input. */
+  text: string;
+  /** Character offsets of the match: `input.slice(start, end) === text`. */
+  start: number;
+  end: number;
+  /** Normalised prefixes. A single entry unless `kind` is RANGE. */
+  cidrs: NormalisedCidr[];
+  /** True when the address had bits set beyond its prefix (e.g. 10.0.0.5/24). */
+  hostBitsSet: boolean;
+};
+
 /**
  * Overlap detection result (FR-032)
  */
@@ -5,7 +5,8 @@
 
 import { describe, it, expect } from 'vitest';
 import { allocateVlsm } from './vlsm';
-import { parseCidr } from './parser';
+import { formatCidr, parseCidr } from './parser';
+import { RESERVATION_PROFILES } from './reservations';
 import type { VlsmRequest } from './types';
 
 describe('VLSM allocation (FR-040, FR-041)', () => {
@@ -52,6 +53,25 @@ describe('VLSM allocation (FR-040, FR-041)', () => {
     expect(allocations[0]!.metadata).toEqual({ vlan: 100, description: 'DMZ network' });
   });
 
+  it('should size host counts with a reservation profile', () => {
+    const parent = parseCidr('10.0.0.0/24');
+    const requests: VlsmRequest[] = [{ name: 'App', requiredHosts: 60 }];
+
+    expect(allocateVlsm(parent, requests)[0]!.cidr.prefix).toBe(26);
+    expect(allocateVlsm(parent, requests, 'LARGEST_FIRST', [], RESERVATION_PROFILES.aws)[0]!.cidr.prefix).toBe(25);
+  });
+
+  it('should allocate IPv6 /64s under a /32 without listing every candidate', () => {
+    const parent = parseCidr('2001:db8::/32');
+    const reserved = [parseCidr('2001:db8::/33')];
+    const allocations = allocateVlsm(parent, [{ name: 'A', requiredPrefix: 64 }, { name: 'B', requiredPrefix: 64 }], 'LARGEST_FIRST', reserved);
+
+    expect(allocations.map((a) => formatCidr(a.cidr.version, a.cidr.network, a.cidr.prefix))).toEqual([
+      '2001:db8:8000::/64',
+      '2001:db8:8000:1::/64',
+    ]);
+  });
+
   it('should respect reserved blocks (FR-042)', () => {
     const parent = parseCidr('192.168.0.0/24');
     const reserved = [parseCidr('192.168.0.0/26')];
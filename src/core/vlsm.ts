@@ -2,18 +2,20 @@
  * VLSM (Variable Length Subnet Masking) planning (FR-040 to FR-045)
  */
 
-import type { NormalisedCidr, VlsmRequest, VlsmAllocation, VlsmStrategy } from './types';
-import { splitByHostCount, splitIntoN } from './transformations';
+import type { NormalisedCidr, ReservationProfile, VlsmRequest, VlsmAllocation, VlsmStrategy } from './types';
+import { prefixForHosts } from './sizing';
 import { containsPrefix } from './set-operations';
 
 /**
  * Allocate VLSM subnets under a parent prefix (FR-040, FR-041)
+ * `profile` sizes host-count requests with provider/site address reservations (AWS, HSRP...).
  */
 export function allocateVlsm(
   parent: NormalisedCidr,
   requests: VlsmRequest[],
   strategy: VlsmStrategy = 'LARGEST_FIRST',
-  reserved: NormalisedCidr[] = []
+  reserved: NormalisedCidr[] = [],
+  profile?: ReservationProfile
 ): VlsmAllocation[] {
   // Validate reserved blocks are within parent
   for (const res of reserved) {
@@ -23,13 +25,13 @@ export function allocateVlsm(
   }
 
   // Sort requests based on strategy
-  const sortedRequests = sortRequestsByStrategy([...requests], strategy, parent.version);
+  const sortedRequests = sortRequestsByStrategy([...requests], strategy, parent.version, profile);
 
   const allocations: VlsmAllocation[] = [];
   const allocated: NormalisedCidr[] = [...reserved];
 
   for (const req of sortedRequests) {
-    const allocation = allocateOne(parent, req, allocated, parent.version);
+    const allocation = allocateOne(parent, req, allocated, parent.version, profile);
     
     if (allocation) {
       allocations.push({
@@ -55,27 +57,16 @@ export function allocateVlsm(
 function sortRequestsByStrategy(
   requests: VlsmRequest[],
   strategy: VlsmStrategy,
-  version: 4 | 6
+  version: 4 | 6,
+  profile?: ReservationProfile
 ): VlsmRequest[] {
   const getSize = (req: VlsmRequest): number => {
     if (req.requiredPrefix != null) {
       return req.requiredPrefix;
     }
     if (req.requiredHosts != null) {
-      // Calculate prefix needed for hosts
-      let hostBits: number;
-      if (version === 4) {
-        if (req.requiredHosts === 1) {
-          hostBits = 0;
-        } else if (req.requiredHosts === 2) {
-          hostBits = 1;
-        } else {
-          hostBits = Math.ceil(Math.log2(req.requiredHosts + 2));
-        }
-      } else {
-        hostBits = Math.ceil(Math.log2(req.requiredHosts));
-      }
-      return (version === 4 ? 32 : 128) - hostBits;
+      // Too large for any prefix: sort ahead of everything, allocation reports it
+      return prefixForHosts(req.requiredHosts, version, 0, profile) ?? -1;
     }
     return 0;
   };
@@ -99,7 +90,8 @@ function allocateOne(
   parent: NormalisedCidr,
   request: VlsmRequest,
   allocated: NormalisedCidr[],
-  version: 4 | 6
+  version: 4 | 6,
+  profile?: ReservationProfile
 ): NormalisedCidr | null {
   // Determine required prefix
   let requiredPrefix: number;
@@ -107,19 +99,9 @@ function allocateOne(
   if (request.requiredPrefix != null) {
     requiredPrefix = request.requiredPrefix;
   } else if (request.requiredHosts != null) {
-    let hostBits: number;
-    if (version === 4) {
-      if (request.requiredHosts === 1) {
-        hostBits = 0;
-      } else if (request.requiredHosts === 2) {
-        hostBits = 1;
-      } else {
-        hostBits = Math.ceil(Math.log2(request.requiredHosts + 2));
-      }
-    } else {
-      hostBits = Math.ceil(Math.log2(request.requiredHosts));
-    }
-    requiredPrefix = parent.bits - hostBits;
+    const prefix = prefixForHosts(request.requiredHosts, version, 0, profile);
+    if (prefix === null) return null;
+    requiredPrefix = prefix;
   } else {
     throw new Error('Request must specify either requiredHosts or requiredPrefix');
   }
@@ -128,23 +110,20 @@ function allocateOne(
     return null; // Cannot allocate larger than parent
   }
 
-  // Generate candidate subnets
-  const prefixDiff = requiredPrefix - parent.prefix;
-  const numCandidates = 1 << prefixDiff;
-  const candidates = splitIntoN(parent, numCandidates);
-
-  // Find first available candidate
-  for (const candidate of candidates) {
-    const conflicts = allocated.some(
-      (alloc) =>
-        containsPrefix(candidate, alloc) ||
-        containsPrefix(alloc, candidate) ||
-        candidate.network === alloc.network
-    );
-
-    if (!conflicts) {
-      return candidate;
+  // First fit: walk aligned candidates, jumping past each conflicting block rather than listing every candidate
+  const size = 1n << BigInt(parent.bits - requiredPrefix);
+  const parentEnd = parent.network + (1n << BigInt(parent.bits - parent.prefix));
+  const lastOf = (c: NormalisedCidr) => c.network + (1n << BigInt(c.bits - c.prefix)) - 1n;
+
+  let network = parent.network;
+  while (network < parentEnd) {
+    const candidateLast = network + size - 1n;
+    const conflict = allocated.find((alloc) => alloc.network <= candidateLast && lastOf(alloc) >= network);
+    if (!conflict) {
+      return { version: parent.version, bits: parent.bits, network, prefix: requiredPrefix };
     }
+    const after = lastOf(conflict) + 1n;
+    network = after + ((size - (after % size)) % size);
   }
 
   return null; // No space available
@@ -213,9 +192,10 @@ export function allocateVlsmWithPolicy(
   requests: VlsmRequest[],
   policy: VlsmPolicy,
   strategy: VlsmStrategy = 'LARGEST_FIRST',
-  reserved: NormalisedCidr[] = []
+  reserved: NormalisedCidr[] = [],
+  profile?: ReservationProfile
 ): VlsmAllocation[] {
-  const allocations = allocateVlsm(parent, requests, strategy, reserved);
+  const allocations = allocateVlsm(parent, requests, strategy, reserved, profile);
 
   // Validate each allocation against policy
   for (const alloc of allocations) {
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseWildcardMask,
+  parseAclAddress,
+  formatMaskedAddress,
+  matchesWildcard,
+  isContiguousWildcard,
+  wildcardPrefixCount,
+  wildcardToCidrs,
+  cidrToWildcard,
+} from './wildcard';
+import { parseCidr, formatCidr } from './parser';
+
+describe('Wildcard masks', () => {
+  describe('parseWildcardMask', () => {
+    it('should clear wildcard bits from the address', () => {
+      const masked = parseWildcardMask('10.1.7.9', '0.0.255.0');
+      expect(formatMaskedAddress(masked)).toBe('10.1.0.9 0.0.255.0');
+    });
+
+    it('should reject mixed versions', () => {
+      expect(() => parseWildcardMask('10.0.0.0', '::ff')).toThrow('same IP version');
+    });
+  });
+
+  describe('parseAclAddress', () => {
+    it('should parse any and host keywords', () => {
+      expect(formatMaskedAddress(parseAclAddress('any'))).toBe('0.0.0.0 255.255.255.255');
+      expect(formatMaskedAddress(parseAclAddress('host 192.0.2.1'))).toBe('192.0.2.1 0.0.0.0');
+      expect(parseAclAddress('any', 6).bits).toBe(128);
+    });
+
+    it('should parse address and wildcard', () => {
+      const masked = parseAclAddress('10.0.0.0 0.0.0.255');
+      expect(isContiguousWildcard(masked)).toBe(true);
+    });
+
+    it('should reject malformed clauses', () => {
+      expect(() => parseAclAddress('permit ip any any')).toThrow('Invalid ACL address');
+    });
+  });
+
+  describe('matchesWildcard', () => {
+    it('should match every third octet', () => {
+      const masked = parseWildcardMask('10.1.0.5', '0.0.255.0');
+      expect(matchesWildcard(masked, '10.1.0.5')).toBe(true);
+      expect(matchesWildcard(masked, '10.1.200.5')).toBe(true);
+      expect(matchesWildcard(masked, '10.1.200.6')).toBe(false);
+      expect(matchesWildcard(masked, '10.2.0.5')).toBe(false);
+      expect(matchesWildcard(masked, 'not-an-ip')).toBe(false);
+    });
+
+    it('should match odd hosts', () => {
+      const masked = parseWildcardMask('192.168.0.1', '0.0.0.254');
+      expect(matchesWildcard(masked, '192.168.0.7')).toBe(true);
+      expect(matchesWildcard(masked, '192.168.0.8')).toBe(false);
+    });
+  });
+
+  describe('wildcardToCidrs', () => {
+    it('should expand contiguous wildcards to a single CIDR', () => {
+      const cidrs = wildcardToCidrs(parseWildcardMask('10.0.0.0', '0.0.0.255'));
+      expect(cidrs.map((c) => formatCidr(c.version, c.network, c.prefix))).toEqual(['10.0.0.0/24']);
+    });
+
+    it('should expand non-contiguous wildcards in ascending order', () => {
+      const masked = parseWildcardMask('10.0.0.0', '0.0.3.255');
+      expect(wildcardToCidrs(masked)).toHaveLength(1);
+
+      const scattered = parseWildcardMask('10.0.0.0', '0.0.10.255');
+      expect(wildcardPrefixCount(scattered)).toBe(4n);
+      expect(wildcardToCidrs(scattered).map((c) => formatCidr(c.version, c.network, c.prefix))).toEqual([
+        '10.0.0.0/24',
+        '10.0.2.0/24',
+        '10.0.8.0/24',
+        '10.0.10.0/24',
+      ]);
+    });
+
+    it('should refuse expansions beyond the limit', () => {
+      const masked = parseWildcardMask('10.0.0.1', '0.255.255.0');
+      expect(wildcardPrefixCount(masked)).toBe(65536n);
+      expect(() => wildcardToCidrs(masked)).toThrow('expands to 65536 prefixes');
+      expect(wildcardToCidrs(masked, 65536)).toHaveLength(65536);
+    });
+  });
+
+  describe('cidrToWildcard', () => {
+    it('should convert IPv4 and IPv6 CIDRs', () => {
+      expect(formatMaskedAddress(cidrToWildcard(parseCidr('172.16.0.0/12')))).toBe('172.16.0.0 0.15.255.255');
+      expect(formatMaskedAddress(cidrToWildcard(parseCidr('2001:db8::/64')))).toBe('2001:db8:: ::ffff:ffff:ffff:ffff');
+    });
+
+    it('should round-trip through expansion', () => {
+      const cidr = parseCidr('192.168.16.0/20');
+      expect(wildcardToCidrs(cidrToWildcard(cidr))).toEqual([cidr]);
+    });
+  });
+});
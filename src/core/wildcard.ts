@@ -0,0 +1,151 @@
+/**
+ * Non-contiguous wildcard masks for ACL matching
+ */
+
+import type { IpVersion, MaskedAddress, NormalisedCidr } from './types';
+import { formatAddress, ipv4ToBigInt, ipv6ToBigInt, wildcardFromPrefix } from './parser';
+
+const DEFAULT_EXPANSION_LIMIT = 4096;
+
+function allOnes(bits: 32 | 128): bigint {
+  return (1n << BigInt(bits)) - 1n;
+}
+
+function parseAddressValue(address: string, version: IpVersion): bigint {
+  return version === 6 ? ipv6ToBigInt(address) : ipv4ToBigInt(address);
+}
+
+/**
+ * Parse an address and wildcard mask pair, e.g. ("10.0.1.0", "0.0.254.255")
+ */
+export function parseWildcardMask(address: string, wildcard: string): MaskedAddress {
+  const version: IpVersion = address.includes(':') ? 6 : 4;
+  const bits: 32 | 128 = version === 6 ? 128 : 32;
+
+  if (wildcard.includes(':') !== (version === 6)) {
+    throw new Error('Address and wildcard must be the same IP version');
+  }
+
+  const wc = parseAddressValue(wildcard, version);
+  const ip = parseAddressValue(address, version);
+
+  return { version, bits, address: ip & ~wc & allOnes(bits), wildcard: wc };
+}
+
+/**
+ * Parse an ACL address clause: `any`, `host <addr>` or `<addr> <wildcard>` (IPv4 `any` by default)
+ */
+export function parseAclAddress(input: string, version: IpVersion = 4): MaskedAddress {
+  const words = input.trim().split(/\s+/);
+  const keyword = words[0]?.toLowerCase();
+
+  if (keyword === 'any' && words.length === 1) {
+    const bits: 32 | 128 = version === 6 ? 128 : 32;
+    return { version, bits, address: 0n, wildcard: allOnes(bits) };
+  }
+
+  if (keyword === 'host' && words.length === 2) {
+    const addrVersion: IpVersion = words[1]!.includes(':') ? 6 : 4;
+    return {
+      version: addrVersion,
+      bits: addrVersion === 6 ? 128 : 32,
+      address: parseAddressValue(words[1]!, addrVersion),
+      wildcard: 0n,
+    };
+  }
+
+  if (words.length === 2) {
+    return parseWildcardMask(words[0]!, words[1]!);
+  }
+
+  throw new Error('Invalid ACL address (expected any, host <addr> or <addr> <wildcard>)');
+}
+
+/**
+ * Format as "<address> <wildcard>"
+ */
+export function formatMaskedAddress(masked: MaskedAddress): string {
+  return `${formatAddress(masked.version, masked.address)} ${formatAddress(masked.version, masked.wildcard)}`;
+}
+
+/**
+ * Check whether an address matches a masked address
+ */
+export function matchesWildcard(masked: MaskedAddress, ip: string): boolean {
+  try {
+    const value = parseAddressValue(ip, masked.version);
+    return (value & ~masked.wildcard) === masked.address;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check whether a wildcard is the inverse of a contiguous netmask (i.e. expresses a single CIDR)
+ */
+export function isContiguousWildcard(masked: MaskedAddress): boolean {
+  const w = masked.wildcard;
+  return (w & (w + 1n)) === 0n;
+}
+
+/**
+ * Number of CIDRs needed to express a masked address exactly
+ */
+export function wildcardPrefixCount(masked: MaskedAddress): bigint {
+  const { hostBits } = splitWildcard(masked);
+  let count = 0;
+  for (let x = masked.wildcard >> BigInt(hostBits); x > 0n; x >>= 1n) {
+    if ((x & 1n) === 1n) count++;
+  }
+  return 1n << BigInt(count);
+}
+
+// Trailing run of wildcard ones becomes the host part of each CIDR; other set bits are enumerated
+function splitWildcard(masked: MaskedAddress): { hostBits: number; scatteredBits: bigint[] } {
+  let hostBits = 0;
+  while (hostBits < masked.bits && ((masked.wildcard >> BigInt(hostBits)) & 1n) === 1n) hostBits++;
+
+  const scatteredBits: bigint[] = [];
+  for (let i = hostBits; i < masked.bits; i++) {
+    if (((masked.wildcard >> BigInt(i)) & 1n) === 1n) scatteredBits.push(1n << BigInt(i));
+  }
+
+  return { hostBits, scatteredBits };
+}
+
+/**
+ * Expand a masked address into an equivalent list of CIDRs, in ascending order
+ * @throws Error if more than `limit` prefixes would be produced
+ */
+export function wildcardToCidrs(masked: MaskedAddress, limit: number = DEFAULT_EXPANSION_LIMIT): NormalisedCidr[] {
+  const count = wildcardPrefixCount(masked);
+  if (count > BigInt(limit)) {
+    throw new Error(`Wildcard expands to ${count} prefixes (limit ${limit})`);
+  }
+
+  const { hostBits, scatteredBits } = splitWildcard(masked);
+  const prefix = masked.bits - hostBits;
+  const result: NormalisedCidr[] = [];
+
+  for (let combo = 0n; combo < count; combo++) {
+    let network = masked.address;
+    scatteredBits.forEach((bit, i) => {
+      if (((combo >> BigInt(i)) & 1n) === 1n) network |= bit;
+    });
+    result.push({ version: masked.version, bits: masked.bits, network, prefix });
+  }
+
+  return result;
+}
+
+/**
+ * Convert a CIDR into wildcard (inverse mask) form
+ */
+export function cidrToWildcard(cidr: NormalisedCidr): MaskedAddress {
+  return {
+    version: cidr.version,
+    bits: cidr.bits,
+    address: cidr.network,
+    wildcard: wildcardFromPrefix(cidr.prefix, cidr.bits),
+  };
+}
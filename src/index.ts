@@ -4,12 +4,18 @@ export type { SubnetTreeCalculatorProps, SubnetTreeTheme } from "./SubnetTreeCal
 // Core domain exports
 export {
   parseCidr,
+  parseAny,
   formatCidr,
   formatAddress,
   parseCidrWithNetmask,
   rangeToMinimalPrefixes,
+  prefixesForRange,
   parseCidrSafe,
+  CidrParseError,
+  extractCidrs,
   classifyAddress,
+  classifyAddressDetailed,
+  classifyPrefix,
   ipv4ToBigInt,
   bigIntToIpv4,
   ipv6ToBigInt,
@@ -23,14 +29,37 @@ export {
   formatCount,
   binaryWithPrefix,
   reverseDnsZone,
+  usableRange,
 } from "./core/calculations";
 
+export {
+  bitView,
+} from "./core/bit-view";
+
+export {
+  offsetAddress,
+  nextAddress,
+  previousAddress,
+  addressDistance,
+  addressIndex,
+  nthHost,
+  iterateHosts,
+  iterateSubPrefixes,
+  countSubPrefixes,
+  pageSubPrefixes,
+} from "./core/arithmetic";
+
 export {
   splitBinary,
   splitIntoN,
+  splitIntoCount,
+  splitByPrefixes,
+  splitByWeights,
+  splitByPercentages,
   splitByHostCount,
   mergeSiblings,
   summarizePrefixes,
+  summarizePrefixesLossy,
   minimalCoveringSupernet,
 } from "./core/transformations";
 
@@ -43,12 +72,85 @@ export {
   unionPrefixes,
   intersectPrefixes,
   differencePrefixes,
+  symmetricDifferencePrefixes,
+  complementPrefixes,
 } from "./core/set-operations";
 
+export { PrefixSet } from "./core/prefix-set";
+
+export { PrefixTrie, indexPrefixes } from "./core/prefix-trie";
+
+export {
+  RoutingTable,
+  parseIpRouteJson,
+  parseCiscoShowIpRoute,
+  DEFAULT_ADMIN_DISTANCE,
+} from "./core/routing";
+
+export { findFreeSpace, firstFreeBlock } from "./core/free-space";
+
 export {
   allocateVlsm,
 } from "./core/vlsm";
 
+export {
+  prefixForHosts,
+  adviseSizing,
+} from "./core/sizing";
+
+export {
+  IPV4_SPECIAL_PURPOSE_REGISTRY,
+  IPV6_SPECIAL_PURPOSE_REGISTRY,
+} from "./core/special-purpose";
+
+export {
+  RESERVATION_PROFILES,
+  parseReservationProfile,
+  reservedAddresses,
+} from "./core/reservations";
+
+export {
+  NAT64_WELL_KNOWN_PREFIX,
+  toIpv4Mapped,
+  fromIpv4Mapped,
+  to6to4Prefix,
+  from6to4,
+  toTeredo,
+  fromTeredo,
+  toNat64,
+  fromNat64,
+  nat64SubnetPrefix,
+  extractEmbeddedIpv4,
+} from "./core/ipv6-transition";
+
+export {
+  parseMac,
+  formatMac,
+  macToInterfaceId,
+  slaacAddress,
+  isEui64Address,
+  eui64ToMac,
+} from "./core/eui64";
+
+export {
+  ptrName,
+  parseReverseName,
+  ptrNameToAddress,
+  classlessZoneName,
+  reverseDnsDelegation,
+} from "./core/reverse-dns";
+
+export {
+  parseWildcardMask,
+  parseAclAddress,
+  formatMaskedAddress,
+  matchesWildcard,
+  isContiguousWildcard,
+  wildcardPrefixCount,
+  wildcardToCidrs,
+  cidrToWildcard,
+} from "./core/wildcard";
+
 export {
   exportToJson,
   exportToCsv,
@@ -56,6 +158,8 @@ export {
   exportDesignModel,
   importDesignModel,
   exportToTerraform,
+  buildZoneFiles,
+  exportToZoneFile,
 } from "./core/export";
 
 export {
@@ -75,6 +179,11 @@ export {
   getParentPrefixes,
   getParent,
   getChildren,
+  getSibling,
+  offsetBlock,
+  getNextBlock,
+  getPreviousBlock,
+  getNthBlock,
   findDescendants,
   findAncestors,
 } from "./core/search";
@@ -97,8 +206,26 @@ export type {
   IpVersion,
   NormalisedCidr,
   SubnetMeta,
+  AddressNotation,
+  AddressFormatOptions,
+  CountNotation,
+  CountFormatOptions,
   AddressClass,
+  SpecialPurposeAttributes,
+  SpecialPurposeRange,
+  AddressClassification,
+  PrefixClassification,
+  PrefixRangeMatch,
+  PrefixRangeRelation,
+  ReservedOffset,
+  ReservationProfile,
+  ReservedAddress,
   Result,
+  MaskedAddress,
+  CidrNotation,
+  ParsedInput,
+  ExtractedPrefixKind,
+  ExtractedPrefix,
   OverlapResult,
   VlsmRequest,
   VlsmAllocation,
@@ -110,8 +237,75 @@ export type {
 } from "./core/types";
 
 export type {
+  CidrParseErrorCode,
+  HostBitsPolicy,
+  CidrParseOptions,
+  CidrParseResult,
+} from "./core/parser";
+
+export type {
+  BitRole,
+  BitCell,
+  BitGroup,
+  BitView,
+} from "./core/bit-view";
+
+export type {
+  SubPrefixPage,
+} from "./core/arithmetic";
+
+export type {
+  FreeSpace,
+} from "./core/free-space";
+
+export type {
+  TrieEntry,
+} from "./core/prefix-trie";
+
+export type {
+  RouteProtocol,
+  RouteDiscard,
+  Route,
+  RouteSpec,
+  RouteLookup,
+  ShadowedRoute,
+  UnreachableRoute,
+  RouteAnalysis,
+} from "./core/routing";
+
+export type {
+  SplitResult,
+  LossySummaryOptions,
+  SummaryAggregate,
+  LossySummary,
+} from "./core/transformations";
+
+export type {
+  SizingOptions,
+  PrefixCandidate,
+  SizingAdvice,
+} from "./core/sizing";
+
+export type {
+  TeredoInfo,
+  EmbeddedIpv4Kind,
+  EmbeddedIpv4,
+} from "./core/ipv6-transition";
+
+export type {
+  ReverseDnsRecord,
+  ReverseDelegationOptions,
+  ReverseDelegationPlan,
+} from "./core/reverse-dns";
+
+export type {
+  ExportOptions,
   SubnetExportData,
   DesignModel as ExportDesignModel,
+  ZoneSoa,
+  ZoneSubnet,
+  ZoneFileOptions,
+  ZoneFile,
 } from "./core/export";
 
 export type {